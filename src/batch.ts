@@ -0,0 +1,161 @@
+/**
+ * Batch edits
+ * Applies apply_edits' ordered list of edits to each file in memory. Line numbers always refer
+ * to the original content; every edit updates a map from original to current lines, so later
+ * edits land where the caller meant them and edits that touch the same lines are rejected.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { diffLines, splitLines } from './diff.js';
+import { contentLines } from './literal.js';
+import { ToolArgs } from './tools.js';
+
+export type BatchEdit = ToolArgs<'apply_edits'>['edits'][number];
+
+// Fields each edit type needs besides file and type
+const REQUIRED_FIELDS: Record<BatchEdit['type'], (keyof BatchEdit)[]> = {
+  replace_text: ['find', 'replace'],
+  replace_lines: ['startLine', 'content'],
+  insert: ['line', 'content'],
+  delete: ['startLine'],
+  substitute: ['pattern', 'replace']
+};
+
+function label(edit: BatchEdit, index: number): string {
+  return `edits[${index}] (${edit.type})`;
+}
+
+// Reject edits missing a field their type needs, before any file is read
+export function checkEdit(edit: BatchEdit, index: number): void {
+  const missing = REQUIRED_FIELDS[edit.type].filter((field) => edit[field] === undefined);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `${label(edit, index)}: ${missing.map((field) => `"${field}"`).join(', ')} required`);
+  }
+  if (edit.type === 'substitute') {
+    try {
+      new RegExp(edit.pattern!, edit.flags);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `${label(edit, index)}: invalid pattern: ${(error as Error).message}`);
+    }
+  }
+}
+
+interface FileState {
+  lines: string[];
+  trailingNewline: boolean;
+  // Current index of each original line, or -1 once an edit replaced or removed it
+  origin: number[];
+  // For each current line added by an insert, the original line it was inserted after
+  anchors: (number | undefined)[];
+}
+
+function text(state: FileState): string {
+  return state.lines.length === 0 ? '' : state.lines.join('\n') + (state.trailingNewline ? '\n' : '');
+}
+
+// Current index of an original line number, refusing lines an earlier edit already changed
+function currentIndex(state: FileState, line: number, where: string): number {
+  if (!Number.isInteger(line) || line < 1 || line > state.origin.length) {
+    throw new Error(`${where}: line ${line} is out of range (file has ${state.origin.length} lines)`);
+  }
+  const index = state.origin[line - 1];
+  if (index < 0) {
+    throw new Error(`${where}: line ${line} was already changed by an earlier edit`);
+  }
+  return index;
+}
+
+// Replace count current lines at index, shifting the original lines after them
+function splice(state: FileState, index: number, count: number, lines: string[], anchor?: number): void {
+  state.lines.splice(index, count, ...lines);
+  state.anchors.splice(index, count, ...lines.map(() => anchor));
+  const delta = lines.length - count;
+  state.origin = state.origin.map((current) =>
+    current < 0 ? current :
+    current >= index + count ? current + delta :
+    current >= index ? -1 :
+    current
+  );
+}
+
+// After a text edit, follow each original line through a diff of the old and new lines
+function rewrite(state: FileState, updated: string): void {
+  const { lines, trailingNewline } = splitLines(updated);
+  const moved = new Map<number, number>();
+  const anchors: (number | undefined)[] = lines.map(() => undefined);
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of diffLines(state.lines, lines)) {
+    if (op.type === 'equal') {
+      anchors[newIndex] = state.anchors[oldIndex];
+      moved.set(oldIndex++, newIndex++);
+    } else if (op.type === 'delete') {
+      oldIndex++;
+    } else {
+      newIndex++;
+    }
+  }
+  state.origin = state.origin.map((current) => moved.get(current) ?? -1);
+  state.anchors = anchors;
+  state.lines = lines;
+  state.trailingNewline = trailingNewline;
+}
+
+function applyEdit(state: FileState, edit: BatchEdit, where: string): void {
+  switch (edit.type) {
+    case 'replace_text': {
+      const current = text(state);
+      if (!current.includes(edit.find!)) {
+        throw new Error(`${where}: text not found: ${JSON.stringify(edit.find)}`);
+      }
+      rewrite(state, edit.all ? current.split(edit.find!).join(edit.replace!) : current.replace(edit.find!, () => edit.replace!));
+      break;
+    }
+    case 'substitute': {
+      const current = text(state);
+      const regex = new RegExp(edit.pattern!, edit.flags ?? 'g');
+      if (!regex.test(current)) {
+        throw new Error(`${where}: no match for /${edit.pattern}/`);
+      }
+      regex.lastIndex = 0;
+      rewrite(state, current.replace(regex, edit.replace!));
+      break;
+    }
+    case 'replace_lines':
+    case 'delete': {
+      const startLine = edit.startLine!;
+      const endLine = edit.endLine ?? startLine;
+      if (endLine < startLine) {
+        throw new Error(`${where}: endLine ${endLine} is before startLine ${startLine}`);
+      }
+      const start = currentIndex(state, startLine, where);
+      const end = currentIndex(state, endLine, where);
+      // Lines inserted inside the range by an earlier edit would be lost
+      if (end - start !== endLine - startLine) {
+        throw new Error(`${where}: lines ${startLine}-${endLine} overlap an earlier edit`);
+      }
+      splice(state, start, end - start + 1, edit.type === 'delete' ? [] : contentLines(edit.content!));
+      break;
+    }
+    case 'insert': {
+      // Inserted after the given line (0 inserts at the top) and after earlier inserts there
+      let index = edit.line === 0 ? 0 : currentIndex(state, edit.line!, where) + 1;
+      while (index < state.lines.length && state.anchors[index] === edit.line) index++;
+      splice(state, index, 0, contentLines(edit.content!), edit.line);
+      break;
+    }
+  }
+}
+
+/**
+ * Apply the edits for one file in order. Each entry carries its position in the whole batch
+ * so errors name the edit the caller sent.
+ */
+export function applyBatch(original: string, edits: { edit: BatchEdit; index: number }[]): string {
+  const { lines, trailingNewline } = splitLines(original);
+  const state: FileState = { lines, trailingNewline, origin: lines.map((_, index) => index), anchors: lines.map(() => undefined) };
+  for (const { edit, index } of edits) {
+    applyEdit(state, edit, label(edit, index));
+  }
+  return text(state);
+}
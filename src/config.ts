@@ -0,0 +1,77 @@
+/**
+ * Server configuration from command-line flags and environment variables
+ *
+ *   --root <dir>          SMALLEDIT_ROOT           Workspace root all paths resolve against (default: cwd)
+ *   --allow <glob>        SMALLEDIT_ALLOW          Only paths matching one of these globs may be used
+ *   --deny <glob>         SMALLEDIT_DENY           Paths matching any of these globs are rejected
+ *   --history-limit <n>   SMALLEDIT_HISTORY_LIMIT  Backup versions kept per file (default: 20)
+ *   --journal-limit <n>   SMALLEDIT_JOURNAL_LIMIT  Operations kept in the undo journal (default: 200)
+ *   --validate <glob>=<command>
+ *                         SMALLEDIT_VALIDATE       Command that checks files matching glob after an edit
+ *   --require-clean       SMALLEDIT_REQUIRE_CLEAN  Refuse to edit files with uncommitted git changes (true/false)
+ *
+ * Flags may be repeated; environment lists are comma-separated, except SMALLEDIT_VALIDATE,
+ * whose entries are separated by semicolons because commands may contain commas.
+ */
+
+import { resolve } from 'path';
+
+// A project command that checks edited files, e.g. "*.py" = "python3 -m py_compile {file}"
+export interface ValidateCommand {
+  pattern: string;
+  command: string;
+}
+
+export interface ServerConfig {
+  root: string;
+  allow: string[];
+  deny: string[];
+  historyLimit: number;
+  journalLimit: number;
+  validators: ValidateCommand[];
+  // Edits need force: true for files that git reports as changed, so git can always undo them
+  requireClean: boolean;
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+function parseValidator(spec: string): ValidateCommand {
+  const split = spec.indexOf('=');
+  if (split <= 0 || !spec.slice(split + 1).trim()) {
+    throw new Error(`Invalid --validate value "${spec}": expected <glob>=<command>`);
+  }
+  return { pattern: spec.slice(0, split).trim(), command: spec.slice(split + 1).trim() };
+}
+
+// Collect every value of --name <value> / --name=<value>
+function flagValues(argv: string[], name: string): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}` && i + 1 < argv.length) {
+      values.push(argv[++i]);
+    } else if (arg.startsWith(`--${name}=`)) {
+      values.push(arg.slice(name.length + 3));
+    }
+  }
+  return values;
+}
+
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const rootFlag = flagValues(argv, 'root').pop();
+  const historyLimit = Number(flagValues(argv, 'history-limit').pop() ?? env.SMALLEDIT_HISTORY_LIMIT ?? 20);
+  const journalLimit = Number(flagValues(argv, 'journal-limit').pop() ?? env.SMALLEDIT_JOURNAL_LIMIT ?? 200);
+
+  return {
+    root: resolve(rootFlag ?? env.SMALLEDIT_ROOT ?? process.cwd()),
+    allow: [...splitList(env.SMALLEDIT_ALLOW), ...flagValues(argv, 'allow')],
+    deny: [...splitList(env.SMALLEDIT_DENY), ...flagValues(argv, 'deny')],
+    historyLimit: Number.isInteger(historyLimit) && historyLimit > 0 ? historyLimit : 20,
+    journalLimit: Number.isInteger(journalLimit) && journalLimit > 0 ? journalLimit : 200,
+    validators: [...(env.SMALLEDIT_VALIDATE ?? '').split(';').filter((spec) => spec.trim()), ...flagValues(argv, 'validate')]
+      .map(parseValidator),
+    requireClean: argv.includes('--require-clean') || ['1', 'true'].includes((env.SMALLEDIT_REQUIRE_CLEAN ?? '').toLowerCase())
+  };
+}
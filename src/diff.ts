@@ -0,0 +1,274 @@
+/**
+ * Line diffs
+ * Myers diff over lines, rendered as GNU-style unified diffs, plus the paginated
+ * report the dry-run and preview modes return
+ */
+
+export type DiffOp =
+  | { type: 'equal'; line: string }
+  | { type: 'delete'; line: string }
+  | { type: 'insert'; line: string };
+
+export const NO_NEWLINE = '\\ No newline at end of file';
+
+// Split into lines, remembering whether the last line was terminated
+export function splitLines(text: string): { lines: string[]; trailingNewline: boolean } {
+  if (text === '') {
+    return { lines: [], trailingNewline: true };
+  }
+  const trailingNewline = text.endsWith('\n');
+  const lines = (trailingNewline ? text.slice(0, -1) : text).split('\n');
+  return { lines, trailingNewline };
+}
+
+// Shortest edit script between two line arrays (Myers, O((N+M)D) time and O(N+M) space)
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  // Frontiers of the forward and backward searches, shared by every level of the recursion
+  const offset = a.length + b.length + 1;
+  const forward = new Int32Array(2 * offset + 1);
+  const backward = new Int32Array(2 * offset + 1);
+
+  const divide = (aLow: number, aHigh: number, bLow: number, bHigh: number): void => {
+    // Unchanged head and tail lines are matched directly so the search only covers the edited middle
+    let prefix = 0;
+    while (aLow + prefix < aHigh && bLow + prefix < bHigh && a[aLow + prefix] === b[bLow + prefix]) prefix++;
+    let suffix = 0;
+    while (aHigh - suffix > aLow + prefix && bHigh - suffix > bLow + prefix && a[aHigh - 1 - suffix] === b[bHigh - 1 - suffix]) suffix++;
+
+    for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', line: a[aLow + i] });
+    aLow += prefix;
+    bLow += prefix;
+    if (aLow === aHigh - suffix || bLow === bHigh - suffix) {
+      for (let x = aLow; x < aHigh - suffix; x++) ops.push({ type: 'delete', line: a[x] });
+      for (let y = bLow; y < bHigh - suffix; y++) ops.push({ type: 'insert', line: b[y] });
+    } else {
+      // Both sides still differ, so there are at least two edits and each half has fewer
+      const snake = middleSnake(a, aLow, aHigh - suffix, b, bLow, bHigh - suffix, forward, backward, offset);
+      divide(aLow, aLow + snake.x, bLow, bLow + snake.y);
+      for (let x = snake.x; x < snake.u; x++) ops.push({ type: 'equal', line: a[aLow + x] });
+      divide(aLow + snake.u, aHigh - suffix, bLow + snake.v, bHigh - suffix);
+    }
+    for (let i = suffix; i > 0; i--) ops.push({ type: 'equal', line: a[aHigh - i] });
+  };
+
+  divide(0, a.length, 0, b.length);
+  // Within each run of changes, removed lines come before added ones, as GNU diff prints them
+  const sorted: DiffOp[] = [];
+  for (let i = 0; i < ops.length;) {
+    let end = i;
+    while (end < ops.length && ops[end].type !== 'equal') end++;
+    const run = ops.slice(i, end);
+    sorted.push(...run.filter((op) => op.type === 'delete'), ...run.filter((op) => op.type === 'insert'));
+    if (end < ops.length) sorted.push(ops[end]);
+    i = end + 1;
+  }
+  return sorted;
+}
+
+/**
+ * The middle snake of a shortest edit script between a[aLow, aHigh) and b[bLow, bHigh):
+ * matching lines from (x, y) to (u, v), relative to the range starts, found by searching
+ * from both ends until the paths meet.
+ */
+function middleSnake(
+  a: string[], aLow: number, aHigh: number, b: string[], bLow: number, bHigh: number,
+  forward: Int32Array, backward: Int32Array, offset: number
+): { x: number; y: number; u: number; v: number } {
+  const n = aHigh - aLow;
+  const m = bHigh - bLow;
+  // Diagonal k of the forward search is diagonal delta - k of the backward one
+  const delta = n - m;
+  const odd = (delta & 1) === 1;
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const start = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]) ?
+        forward[offset + k + 1] :
+        forward[offset + k - 1] + 1;
+      let x = start;
+      let y = x - k;
+      while (x < n && y < m && a[aLow + x] === b[bLow + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (odd && Math.abs(delta - k) <= d - 1 && x + backward[offset + delta - k] >= n) {
+        return { x: start, y: start - k, u: x, v: y };
+      }
+    }
+    for (let k = -d; k <= d; k += 2) {
+      // Counted back from the ends of both ranges
+      const start = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]) ?
+        backward[offset + k + 1] :
+        backward[offset + k - 1] + 1;
+      let x = start;
+      let y = x - k;
+      while (x < n && y < m && a[aHigh - 1 - x] === b[bHigh - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (!odd && Math.abs(delta - k) <= d && x + forward[offset + delta - k] >= n) {
+        return { x: n - x, y: m - y, u: n - start, v: m - (start - k) };
+      }
+    }
+  }
+  throw new Error('No middle snake found');
+}
+
+function range(start: number, count: number): string {
+  // An empty range is reported as the line before it, like GNU diff
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Body lines prefixed with ' ', '-' or '+' (and NO_NEWLINE markers)
+  lines: string[];
+}
+
+// Group an edit script into hunks with the given number of context lines
+export function buildHunks(original: string, modified: string, context = 3): Hunk[] {
+  const before = splitLines(original);
+  const after = splitLines(modified);
+
+  // The missing final newline is part of the last line, so it shows up as a change
+  const a = before.lines.map((line, i) => i === before.lines.length - 1 && !before.trailingNewline ? `${line}\n${NO_NEWLINE}` : line);
+  const b = after.lines.map((line, i) => i === after.lines.length - 1 && !after.trailingNewline ? `${line}\n${NO_NEWLINE}` : line);
+  const ops = diffLines(a, b);
+
+  // Line numbers each op starts at, on both sides
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  const changes = ops.flatMap((op, i) => op.type === 'equal' ? [] : [i]);
+  const hunks: Hunk[] = [];
+
+  for (let first = 0; first < changes.length;) {
+    // Changes separated by at most 2 * context unchanged lines share a hunk
+    let last = first;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] - 1 <= 2 * context) {
+      last++;
+    }
+
+    const from = Math.max(0, changes[first] - context);
+    const to = Math.min(ops.length - 1, changes[last] + context);
+    const hunk: Hunk = { oldStart: oldAt[from], oldLines: 0, newStart: newAt[from], newLines: 0, lines: [] };
+    for (let i = from; i <= to; i++) {
+      const op = ops[i];
+      if (op.type === 'equal') {
+        hunk.lines.push(` ${op.line}`);
+        hunk.oldLines++;
+        hunk.newLines++;
+      } else if (op.type === 'delete') {
+        hunk.lines.push(`-${op.line}`);
+        hunk.oldLines++;
+      } else {
+        hunk.lines.push(`+${op.line}`);
+        hunk.newLines++;
+      }
+    }
+    hunks.push(hunk);
+    first = last + 1;
+  }
+  return hunks;
+}
+
+export function formatHunk(hunk: Hunk): string {
+  return [`@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`, ...hunk.lines].join('\n');
+}
+
+// Unified diff between two versions of a file, labelled with the file name ('' when equal)
+export function unifiedDiff(label: string, original: string, modified: string, context = 3): string {
+  if (original === modified) {
+    return '';
+  }
+  const hunks = buildHunks(original, modified, context);
+  return [`--- ${label}`, `+++ ${label}`, ...hunks.map(formatHunk)].join('\n') + '\n';
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+export function diffStats(diff: string): DiffStats {
+  let added = 0;
+  let removed = 0;
+  let inHunk = false;
+  for (const line of diff.split('\n')) {
+    // File headers (--- / +++) only appear before the first hunk
+    if (line.startsWith('@@')) {
+      inHunk = true;
+    } else if (inHunk && line.startsWith('+')) {
+      added++;
+    } else if (inHunk && line.startsWith('-')) {
+      removed++;
+    }
+  }
+  return { added, removed };
+}
+
+export const DIFF_PAGE_SIZE = 200;
+
+export interface FileDiff {
+  file: string;
+  diff: string;
+}
+
+export interface DiffPage {
+  body: string;
+  page: number;
+  pages: number;
+}
+
+// One page of the combined diff lines of every changed file
+export function diffPage(diffs: FileDiff[], page = 1): DiffPage {
+  const allLines = diffs.filter((entry) => entry.diff).map((entry) => entry.diff.replace(/\n$/, '')).join('\n').split('\n');
+  const pages = Math.max(1, Math.ceil(allLines.length / DIFF_PAGE_SIZE));
+  const current = Math.min(Math.max(1, Math.floor(page)), pages);
+  const body = allLines.slice((current - 1) * DIFF_PAGE_SIZE, current * DIFF_PAGE_SIZE).join('\n');
+  return { body, page: current, pages };
+}
+
+/**
+ * Render per-file diffs with an added/removed summary. Diff lines are split into pages of
+ * DIFF_PAGE_SIZE instead of being cut off, and the footer says how to fetch the next page.
+ */
+export function renderDiffReport(title: string, diffs: FileDiff[], page = 1): string {
+  const changed = diffs.filter((entry) => entry.diff);
+  if (changed.length === 0) {
+    return `${title}\nNo changes would be made`;
+  }
+
+  let totalAdded = 0;
+  let totalRemoved = 0;
+  const summary = changed.map((entry) => {
+    const { added, removed } = diffStats(entry.diff);
+    totalAdded += added;
+    totalRemoved += removed;
+    return `  ${entry.file}: +${added} -${removed}`;
+  });
+
+  const { body, page: current, pages } = diffPage(changed, page);
+  const footer = pages > 1 ?
+    `\n\n(page ${current} of ${pages}${current < pages ? `; call again with page: ${current + 1} for more` : ''})` :
+    '';
+
+  return `${title}\n${summary.join('\n')}\nTotal: ${changed.length} file(s), +${totalAdded} -${totalRemoved} lines\n\n${body}${footer}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Text encodings and line endings
+ * Files are decoded to plain strings for the tools and encoded back the way they were found:
+ * UTF-8 with or without a BOM, UTF-16 with a BOM, or Latin-1 when the bytes are not valid
+ * UTF-8. Files that use CRLF throughout are handed to the tools with LF line endings and get
+ * CRLF back when written, so new lines match the rest of the file.
+ */
+
+// Bytes looked at to tell text from binary and to pick an encoding for streamed reads
+export const SNIFF_BYTES = 8192;
+
+// Share of a sample that may be control characters or invalid UTF-8 before it counts as binary
+const BINARY_RATIO = 0.3;
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+export type LineEnding = 'lf' | 'crlf' | 'mixed' | 'none';
+
+// normalizeEol: convert every line ending of a written file; auto picks the one most lines use
+export type EolOption = 'lf' | 'crlf' | 'auto';
+
+export interface TextFormat {
+  encoding: TextEncoding;
+  bom: boolean;
+  // Line endings as found on disk
+  eol: LineEnding;
+  finalNewline: boolean;
+}
+
+function countEndings(text: string): { crlf: number; lf: number } {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  return { crlf, lf: (text.match(/\n/g)?.length ?? 0) - crlf };
+}
+
+export function lineEnding(text: string): LineEnding {
+  const { crlf, lf } = countEndings(text);
+  return crlf === 0 && lf === 0 ? 'none' : crlf === 0 ? 'lf' : lf === 0 ? 'crlf' : 'mixed';
+}
+
+export function describeFormat(format: TextFormat): string {
+  const eol = format.eol === 'none' ? 'no line breaks' : format.eol === 'mixed' ? 'mixed line endings' : format.eol.toUpperCase();
+  return `${format.encoding}${format.bom ? ' with BOM' : ''}, ${eol}${format.finalNewline ? '' : ', no final newline'}`;
+}
+
+// partial: bytes is the start of a file, so a character cut off at the end is not an error
+function isUtf8(bytes: Buffer, partial = false): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// UTF-16 BE bytes as LE; a dangling odd byte is dropped
+function swapBytes(bytes: Buffer): Buffer {
+  const copy = Buffer.from(bytes.subarray(0, bytes.length - (bytes.length % 2)));
+  return copy.swap16();
+}
+
+// Encoding from the BOM, else UTF-8 if the bytes are valid UTF-8 and Latin-1 if not
+export function detectEncoding(bytes: Buffer, partial = false): { encoding: TextEncoding; bom: boolean } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', bom: true };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', bom: true };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', bom: true };
+  }
+  return { encoding: isUtf8(bytes, partial) ? 'utf-8' : 'latin1', bom: false };
+}
+
+/**
+ * Whether the start of a file looks like binary data rather than text: it has NUL bytes (and
+ * no UTF-16 BOM), or too much of it is control characters or invalid UTF-8
+ */
+export function looksBinary(sample: Buffer): boolean {
+  if (detectEncoding(sample, true).encoding.startsWith('utf-16')) {
+    return false;
+  }
+  if (sample.includes(0)) {
+    return true;
+  }
+  const text = new TextDecoder('utf-8').decode(sample, { stream: true });
+  const suspicious = text.match(/[\ufffd\x00-\x08\x0e-\x1a\x1c-\x1f\x7f]/g)?.length ?? 0;
+  return suspicious > text.length * BINARY_RATIO;
+}
+
+// xxd-style rows of offset, hex bytes and printable characters
+export function hexDump(bytes: Buffer): string {
+  const rows: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = [...row].map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const printable = [...row].map((byte) => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+    rows.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${printable}`);
+  }
+  return rows.join('\n');
+}
+
+export function decodeText(bytes: Buffer): { text: string; format: TextFormat } {
+  const { encoding, bom } = detectEncoding(bytes);
+  const raw = encoding === 'utf-16be' ? swapBytes(bytes.subarray(2)).toString('utf16le') :
+    encoding === 'utf-16le' ? bytes.subarray(2).toString('utf16le') :
+    bytes.subarray(bom ? 3 : 0).toString(encoding);
+
+  const eol = lineEnding(raw);
+  return {
+    text: eol === 'crlf' ? raw.replace(/\r\n/g, '\n') : raw,
+    // An empty file has no final newline to keep either way
+    format: { encoding, bom, eol, finalNewline: raw === '' || raw.endsWith('\n') }
+  };
+}
+
+/**
+ * Turn edited text back into what goes on disk: CRLF files get CRLF again, normalize converts
+ * every line ending, and a file keeps having (or not having) a final newline. Without a format
+ * the file is new and the text is written as given.
+ */
+export function toDiskText(text: string, format: TextFormat | undefined, normalize?: EolOption): string {
+  if (!format) {
+    return text;
+  }
+  const target = normalize === 'auto' ?
+    (format.eol === 'crlf' || countEndings(text).crlf > countEndings(text).lf ? 'crlf' : 'lf') :
+    normalize ?? (format.eol === 'crlf' ? 'crlf' : undefined);
+  let out = target === 'crlf' ? text.replace(/\r?\n/g, '\r\n') : target === 'lf' ? text.replace(/\r\n/g, '\n') : text;
+
+  const newline = target === 'crlf' ? '\r\n' : '\n';
+  if (format.finalNewline && out !== '' && !out.endsWith('\n')) {
+    out += newline;
+  } else if (!format.finalNewline && out.endsWith('\n')) {
+    out = out.replace(/\r?\n$/, '');
+  }
+  return out;
+}
+
+export function encodeBytes(text: string, format: TextFormat | undefined): Buffer {
+  const encoding = format?.encoding ?? 'utf-8';
+  if (encoding === 'latin1' && /[^\u0000-\u00ff]/.test(text)) {
+    throw new Error('The edited text has characters that cannot be written in the file\'s Latin-1 encoding');
+  }
+  const bytes = encoding === 'utf-16le' ? Buffer.from(text, 'utf16le') :
+    encoding === 'utf-16be' ? Buffer.from(text, 'utf16le').swap16() :
+    Buffer.from(text, encoding);
+  if (!format?.bom) {
+    return bytes;
+  }
+  const bom = encoding === 'utf-8' ? [0xef, 0xbb, 0xbf] : encoding === 'utf-16le' ? [0xff, 0xfe] : [0xfe, 0xff];
+  return Buffer.concat([Buffer.from(bom), bytes]);
+}
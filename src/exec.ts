@@ -0,0 +1,109 @@
+/**
+ * Shell-free process execution
+ * Runs perl/awk with argument arrays and passes file content through stdin,
+ * so user-supplied patterns and file names are never interpreted by a shell
+ */
+
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applySed } from './sed.js';
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  code: number;
+}
+
+export interface RunOptions {
+  input?: string;
+  cwd?: string;
+  // Exit codes that count as success (diff exits with 1 when files differ)
+  okCodes?: number[];
+}
+
+export function run(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const { input, cwd, okCodes = [0] } = options;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', (error) => reject(new Error(`Failed to start ${command}: ${error.message}`)));
+    child.on('close', (code) => {
+      const result = {
+        stdout: Buffer.concat(stdout).toString('utf-8'),
+        stderr: Buffer.concat(stderr).toString('utf-8'),
+        code: code ?? -1
+      };
+      if (!okCodes.includes(result.code)) {
+        reject(new Error(`${command} exited with code ${result.code}${result.stderr ? `: ${result.stderr.trim()}` : ''}`));
+        return;
+      }
+      resolve(result);
+    });
+
+    // The child may exit before consuming all input (e.g. awk with only a BEGIN block)
+    child.stdin.on('error', () => {});
+    child.stdin.end(input ?? '');
+  });
+}
+
+// Create a private temp directory, hand it to fn, and always remove it afterwards
+export async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'smalledit-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Perl and awk scripts run from the workspace root (cwd), so relative paths inside them
+ * start there. They are not confined to it: a script can still open any absolute path.
+ */
+export async function perlTransform(script: string, input: string, options: { multiline?: boolean; cwd?: string } = {}): Promise<string> {
+  const args = options.multiline ? ['-0777', '-pe', script] : ['-pe', script];
+  const { stdout } = await run('perl', args, { input, cwd: options.cwd });
+  return stdout;
+}
+
+// gawk's --sandbox turns off system(), getline from files and output redirection; other awks have no such mode
+let awkSandbox: Promise<string[]> | undefined;
+
+function sandboxArgs(): Promise<string[]> {
+  awkSandbox ??= run('awk', ['--sandbox', 'BEGIN {}']).then(() => ['--sandbox'], () => []);
+  return awkSandbox;
+}
+
+export async function awkTransform(script: string, input: string, options: { cwd?: string } = {}): Promise<string> {
+  const sandbox = await sandboxArgs();
+  // Scripts go through a file so a program starting with "-" is never read as an option
+  return withTempDir(async (dir) => {
+    const scriptFile = join(dir, 'script.awk');
+    await writeFile(scriptFile, script);
+    const { stdout } = await run('awk', [...sandbox, '-f', scriptFile], { input, cwd: options.cwd });
+    return stdout;
+  });
+}
+
+export type EditTool = 'perl' | 'sed' | 'awk';
+
+export function transformWith(tool: EditTool, script: string, input: string, cwd?: string): Promise<string> {
+  switch (tool) {
+    case 'perl':
+      return perlTransform(script, input, { cwd });
+    case 'sed':
+      // The same engine as sed_edit, so a preview shows exactly what the edit would do
+      return Promise.resolve(applySed(script, input));
+    case 'awk':
+      return awkTransform(script, input, { cwd });
+    default:
+      throw new Error(`Unknown tool: ${tool}`);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * File read/write helpers shared by the editing tools
+ * Tools work on decoded text; writes re-encode it in the format the file has on disk, while
+ * backups and the journal keep the exact bytes.
+ */
+
+import { chmod, mkdir, open, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import { basename, dirname, join } from 'path';
+import { decodeText, describeFormat, encodeBytes, EolOption, lineEnding, looksBinary, SNIFF_BYTES, TextFormat, toDiskText } from './encoding.js';
+import { gitStatus, isRepository } from './git.js';
+import { BackupVersion, recordSnapshot } from './history.js';
+import { Operation } from './journal.js';
+import { toRelative } from './sandbox.js';
+import { findProblem, passingChecks, SyntaxCheck } from './validate.js';
+
+// Binary files are refused: decoding them as text and writing them back would corrupt them
+export async function readText(file: string): Promise<string> {
+  if (!existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  const bytes = await readFile(file);
+  if (looksBinary(bytes.subarray(0, SNIFF_BYTES))) {
+    throw new Error(`${file} looks like a binary file; only text files can be read or edited`);
+  }
+  return decodeText(bytes).text;
+}
+
+// The first bytes of a file, enough to tell text from binary without reading all of it
+export async function readSample(file: string): Promise<Buffer> {
+  if (!existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  const handle = await open(file, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// normalizeEol argument of the call; it was checked against the tool's schema before any write
+function requestedEol(operation: Operation): EolOption | undefined {
+  const value = (operation.args as { normalizeEol?: unknown } | undefined)?.normalizeEol;
+  return value === 'lf' || value === 'crlf' || value === 'auto' ? value : undefined;
+}
+
+// validate argument of the call; syntax checks are on unless it is false
+function checksWanted(operation: Operation): boolean {
+  return (operation.args as { validate?: unknown } | undefined)?.validate !== false;
+}
+
+// force argument of the call; lets an edit through the --require-clean check
+function forced(operation: Operation): boolean {
+  return (operation.args as { force?: unknown } | undefined)?.force === true;
+}
+
+/**
+ * With --require-clean, existing files that git reports as changed are not edited, so that
+ * git history can always take them back to a committed state. Workspaces outside git are not checked.
+ */
+async function assertCommitted(operation: Operation, files: string[]): Promise<void> {
+  const { config } = operation;
+  if (!config.requireClean || forced(operation) || files.length === 0 || !(await isRepository(config))) {
+    return;
+  }
+  const { files: dirty } = await gitStatus(config, files.map((file) => `:(literal)${toRelative(config, file)}`));
+  if (dirty.length > 0) {
+    throw new Error(`Refusing to edit ${dirty.map((entry) => entry.file).join(', ')}: uncommitted changes would be mixed with this edit. Commit them first (git_commit), or pass force: true.`);
+  }
+}
+
+function brokenEdit(operation: Operation, file: string, problem: string): Error {
+  return new Error(`Edit rolled back because it breaks ${toRelative(operation.config, file)}: ${problem.replace(/\.$/, '')}. Pass validate: false to write it anyway.`);
+}
+
+/**
+ * Bytes for edited text in the file's on-disk format. Edits that leave a file with mixed line
+ * endings it did not have before add a warning to the operation.
+ */
+function encodeEdit(file: string, updated: string, format: TextFormat | undefined, operation: Operation): Buffer {
+  const normalize = requestedEol(operation);
+  const text = toDiskText(updated, format, normalize);
+  if (format && format.eol !== 'mixed' && !normalize && lineEnding(text) === 'mixed') {
+    operation.warnings.push(`${toRelative(operation.config, file)} now has mixed line endings (it was ${describeFormat(format)}); pass normalizeEol to convert the whole file`);
+  }
+  return encodeBytes(text, format);
+}
+
+/**
+ * Write the edited content as part of an operation. The previous version goes to the backup
+ * history unless backups are disabled; original is null when the file is being created.
+ * Text is encoded like the file it replaces; a Buffer is written byte for byte.
+ * An edit that breaks the syntax of a file that was valid is undone and throws. An edit that
+ * leaves the bytes as they are writes nothing and records nothing.
+ */
+export async function saveEdit(file: string, original: string | null, updated: string | Buffer, operation: Operation, backup = true): Promise<BackupVersion | undefined> {
+  const before = original !== null && existsSync(file) ? await readFile(file) : null;
+  const bytes = Buffer.isBuffer(updated) ? updated : encodeEdit(file, updated, before ? decodeText(before).format : undefined, operation);
+  // Nothing to write: no backup version is used up and the file keeps its mtime
+  if (before && before.equals(bytes)) {
+    return undefined;
+  }
+  // Restored snapshots are written whatever git says
+  if (before && typeof updated === 'string') {
+    await assertCommitted(operation, [file]);
+  }
+  // New files and restored snapshots are written as they are
+  const checked = before && original !== null && typeof updated === 'string' && updated !== original && checksWanted(operation) ?
+    { before, text: updated, checks: await passingChecks(operation.config, file, original) } : undefined;
+  await writeFile(file, bytes);
+  const problem = checked && await findProblem(checked.checks, file, checked.text);
+  if (checked && problem) {
+    await writeFile(file, checked.before);
+    throw brokenEdit(operation, file, problem);
+  }
+  const version = backup && before ? await recordSnapshot(operation, file, before) : undefined;
+  operation.changes.push({ file: toRelative(operation.config, file), before, after: bytes });
+  return version;
+}
+
+export interface StagedEdit {
+  file: string;
+  original: string;
+  updated: string;
+  // The file does not exist yet (original is '') or goes away (updated is '')
+  create?: boolean;
+  remove?: boolean;
+  // Whether the file ends with a newline, when the edit decides it rather than keeping the file's
+  finalNewline?: boolean;
+}
+
+// Temp file next to the target so the final rename stays on one filesystem
+function stagingPath(file: string): string {
+  return join(dirname(file), `.${basename(file)}.${randomBytes(6).toString('hex')}.smalledit-tmp`);
+}
+
+/**
+ * Write a set of edits all-or-nothing: every new version is staged in a temp file and
+ * verified before any original is replaced. If staging fails nothing is touched; if a
+ * rename fails part-way, the files already replaced are restored and created ones removed.
+ * Returns the backup version of each edit, in order.
+ */
+export async function commitAtomically(edits: StagedEdit[], operation: Operation, backup = true): Promise<(BackupVersion | undefined)[]> {
+  // A removed file has no temp copy and no content after
+  const staged: { edit: StagedEdit; temp?: string; before: Buffer | null; after: Buffer | null }[] = [];
+  const checks: SyntaxCheck[][] = [];
+  // Files the edit leaves as they are may be dirty
+  const changing = edits.filter((edit) => !edit.create && (edit.remove || edit.updated !== edit.original || edit.finalNewline !== undefined));
+  await assertCommitted(operation, changing.map((edit) => edit.file));
+  for (const edit of edits) {
+    checks.push(checksWanted(operation) && !edit.create && !edit.remove ? await passingChecks(operation.config, edit.file, edit.original) : []);
+  }
+
+  try {
+    for (const edit of edits) {
+      if (edit.create && existsSync(edit.file)) {
+        throw new Error(`${edit.file} already exists`);
+      }
+      const before = edit.create ? null : await readFile(edit.file);
+      const current = before && decodeText(before);
+      if (current && current.text !== edit.original) {
+        throw new Error(`${edit.file} changed while the transaction was being prepared`);
+      }
+      if (edit.remove) {
+        staged.push({ edit, before, after: null });
+        continue;
+      }
+      const temp = stagingPath(edit.file);
+      const format = current && edit.finalNewline !== undefined ? { ...current.format, finalNewline: edit.finalNewline } : current?.format;
+      const after = encodeEdit(edit.file, edit.updated, format, operation);
+      staged.push({ edit, temp, before, after });
+      await mkdir(dirname(edit.file), { recursive: true });
+      await writeFile(temp, after);
+      if (!edit.create) {
+        await chmod(temp, (await stat(edit.file)).mode);
+      }
+
+      if (!(await readFile(temp)).equals(after)) {
+        throw new Error(`Staged copy of ${edit.file} does not match the edited content`);
+      }
+    }
+  } catch (error) {
+    await Promise.all(staged.map(({ temp }) => temp && rm(temp, { force: true })));
+    throw error;
+  }
+
+  const committed: typeof staged = [];
+  try {
+    for (const entry of staged) {
+      if (entry.temp) {
+        await rename(entry.temp, entry.edit.file);
+      } else {
+        await rm(entry.edit.file);
+      }
+      committed.push(entry);
+    }
+    // One broken file rolls back the whole set
+    for (const [index, { edit }] of staged.entries()) {
+      const problem = await findProblem(checks[index], edit.file, edit.updated);
+      if (problem) {
+        throw brokenEdit(operation, edit.file, problem);
+      }
+    }
+  } catch (error) {
+    for (const { edit, before } of committed) {
+      await (before ? writeFile(edit.file, before) : rm(edit.file, { force: true }));
+    }
+    await Promise.all(staged.map(({ temp }) => temp && rm(temp, { force: true })));
+    throw error;
+  }
+
+  const versions: (BackupVersion | undefined)[] = [];
+  for (const { edit, before, after } of staged) {
+    versions.push(backup && before ? await recordSnapshot(operation, edit.file, before) : undefined);
+    operation.changes.push({ file: toRelative(operation.config, edit.file), before, after });
+  }
+  return versions;
+}
+
+// Optimistic concurrency check: what the caller saw when it last read the file
+export interface ReadGuard {
+  expectedHash?: unknown;
+  expectedMtime?: unknown;
+}
+
+/**
+ * Hash and modification time reported by the read tools, for use as a ReadGuard later.
+ * Without content (a large file that is only streamed) there is no hash.
+ */
+export async function fileStamp(file: string, content?: string | Buffer): Promise<{ hash?: string; mtime: string }> {
+  const mtime = (await stat(file)).mtime.toISOString();
+  return content === undefined ? { mtime } : { hash: hashContent(content), mtime };
+}
+
+export function formatStamp(stamp: { hash?: string; mtime: string }): string {
+  return stamp.hash ?
+    `sha256: ${stamp.hash}  mtime: ${stamp.mtime} (pass as expectedHash/expectedMtime to edit tools)` :
+    `mtime: ${stamp.mtime} (pass as expectedMtime to edit tools; large files are not hashed)`;
+}
+
+/**
+ * Refuse to edit a file whose content or mtime no longer matches what the caller read.
+ * content is what was just read from disk, or null when the file does not exist.
+ */
+export async function assertUnchanged(file: string, label: string, content: string | null, guard: ReadGuard): Promise<void> {
+  const { expectedHash, expectedMtime } = guard;
+
+  if (expectedHash !== undefined && expectedHash !== '') {
+    const expected = String(expectedHash).replace(/^sha256:/, '');
+    const actual = content === null ? '(missing)' : hashContent(content);
+    if (actual !== expected) {
+      throw new Error(`File changed since read: ${label} has hash ${actual.slice(0, 12)}, expected ${expected.slice(0, 12)}. Read it again before editing.`);
+    }
+  }
+
+  if (expectedMtime !== undefined && expectedMtime !== '') {
+    const expectedMs = typeof expectedMtime === 'number' ? expectedMtime : Date.parse(String(expectedMtime));
+    if (Number.isNaN(expectedMs)) {
+      throw new Error(`Invalid expectedMtime: ${expectedMtime}`);
+    }
+    const actual = content === null ? undefined : (await stat(file)).mtime;
+    if (!actual || Math.floor(actual.getTime()) !== Math.floor(expectedMs)) {
+      throw new Error(`File changed since read: ${label} was modified at ${actual?.toISOString() ?? '(missing)'}, expected ${new Date(expectedMs).toISOString()}. Read it again before editing.`);
+    }
+  }
+}
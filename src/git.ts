@@ -0,0 +1,180 @@
+/**
+ * Local git integration
+ * git runs from the workspace root with argument arrays, like every other command. Paths
+ * are reported relative to the workspace root, which may be a subdirectory of the repository,
+ * and the server's own .smalledit directory is always left out.
+ */
+
+import { join, relative } from 'path';
+import { ServerConfig } from './config.js';
+import { run, RunResult } from './exec.js';
+
+const OWN_FILES = ':(exclude).smalledit';
+
+export interface GitFileStatus {
+  file: string;
+  // Porcelain status letters for the index and the working tree, e.g. "M", "A", "?"
+  index: string;
+  worktree: string;
+  // Where a renamed or copied file came from
+  from?: string;
+}
+
+export interface GitStatus {
+  branch: string;
+  files: GitFileStatus[];
+}
+
+const STATUS_WORDS: Record<string, string> = {
+  M: 'modified', A: 'added', D: 'deleted', R: 'renamed', C: 'copied', T: 'type changed', U: 'unmerged', '?': 'untracked'
+};
+
+export function git(config: ServerConfig, args: string[], okCodes?: number[]): Promise<RunResult> {
+  return run('git', args, { cwd: config.root, okCodes });
+}
+
+// Whether the workspace root is inside a git work tree; false when git is not installed either
+export async function isRepository(config: ServerConfig): Promise<boolean> {
+  try {
+    const { stdout } = await git(config, ['rev-parse', '--is-inside-work-tree']);
+    return stdout.trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+async function requireRepository(config: ServerConfig): Promise<string> {
+  if (!(await isRepository(config))) {
+    throw new Error(`The workspace root ${config.root} is not inside a git repository`);
+  }
+  return (await git(config, ['rev-parse', '--show-toplevel'])).stdout.trim();
+}
+
+// When HEAD was committed, to the second; undefined in a repository without commits yet
+export async function headCommitTime(config: ServerConfig): Promise<Date | undefined> {
+  const { stdout, code } = await git(config, ['log', '-1', '--format=%ct'], [0, 128]);
+  return code === 0 && stdout.trim() ? new Date(Number(stdout.trim()) * 1000) : undefined;
+}
+
+/**
+ * Files with uncommitted changes under the given paths (default: the whole workspace),
+ * untracked files included and ignored files left out.
+ */
+export async function gitStatus(config: ServerConfig, paths: string[] = ['.']): Promise<GitStatus> {
+  const top = await requireRepository(config);
+  const { stdout } = await git(config, ['status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all', '--', ...paths, OWN_FILES]);
+  // Porcelain paths are relative to the top of the repository
+  const local = (path: string) => relative(config.root, join(top, path)).split('\\').join('/');
+
+  const records = stdout.split('\0');
+  let branch = '';
+  const files: GitFileStatus[] = [];
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (record.startsWith('## ')) {
+      branch = record.slice(3);
+    } else if (record.length > 3) {
+      const entry: GitFileStatus = { file: local(record.slice(3)), index: record[0], worktree: record[1] };
+      // The original path of a rename or copy is the next record
+      if ('RC'.includes(entry.index)) {
+        entry.from = local(records[++i]);
+      }
+      files.push(entry);
+    }
+  }
+  return { branch, files };
+}
+
+// "modified, staged" style description of a status entry
+export function describeStatus(entry: GitFileStatus): string {
+  if (entry.index === '?') {
+    return 'untracked';
+  }
+  const words: string[] = [];
+  if (entry.index !== ' ') {
+    words.push(`${STATUS_WORDS[entry.index] ?? entry.index} (staged)`);
+  }
+  if (entry.worktree !== ' ' && entry.worktree !== entry.index) {
+    words.push(STATUS_WORDS[entry.worktree] ?? entry.worktree);
+  } else if (entry.worktree !== ' ') {
+    words.push('more changes not staged');
+  }
+  return words.join(', ') + (entry.from ? ` from ${entry.from}` : '');
+}
+
+/**
+ * Working tree changes (or staged ones) as git diff prints them, limited to the workspace.
+ * Paths in the diff are relative to the workspace root.
+ */
+export async function gitDiff(config: ServerConfig, options: { paths?: string[]; staged?: boolean; context?: number } = {}): Promise<string> {
+  await requireRepository(config);
+  // Fixed prefixes and unescaped UTF-8 names, whatever diff.noprefix and core.quotePath say
+  const args = ['-c', 'core.quotePath=false', 'diff', '--relative', '--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/'];
+  if (options.staged) args.push('--cached');
+  if (options.context !== undefined) args.push(`--unified=${options.context}`);
+  const { stdout } = await git(config, [...args, '--', ...(options.paths ?? ['.']), OWN_FILES]);
+  return stdout;
+}
+
+// A path from a diff header: git C-quotes names with quotes, backslashes or control characters
+function headerPath(value: string, prefix: string): string | undefined {
+  // Names with spaces get a trailing tab on the ---/+++ lines
+  let path = value.replace(/\t$/, '');
+  if (path.startsWith('"')) {
+    const escapes: Record<string, string> = { a: '\x07', b: '\b', t: '\t', n: '\n', v: '\v', f: '\f', r: '\r' };
+    // Octal escapes are single bytes of a UTF-8 sequence, so the name is decoded as bytes
+    const bytes = [...path.slice(1, -1).matchAll(/\\([0-7]{3}|.)|[^\\]+/gs)].map(([text, escape]) =>
+      escape === undefined ? Buffer.from(text) : /^[0-7]{3}$/.test(escape) ? Buffer.from([parseInt(escape, 8)]) : Buffer.from(escapes[escape] ?? escape));
+    path = Buffer.concat(bytes).toString('utf8');
+  }
+  return path.startsWith(prefix) ? path.slice(prefix.length) : undefined;
+}
+
+/**
+ * The file a section of gitDiff output is about: the new name, or the old one when the file
+ * was deleted. Undefined when no header can be read.
+ */
+export function diffSectionFile(section: string): string | undefined {
+  const added = /^\+\+\+ (.*)$/m.exec(section)?.[1];
+  if (added !== undefined && added !== '/dev/null') {
+    return headerPath(added, 'b/');
+  }
+  const removed = /^--- (.*)$/m.exec(section)?.[1];
+  if (removed !== undefined && removed !== '/dev/null') {
+    return headerPath(removed, 'a/');
+  }
+  // Renames, mode changes and binary files have no ---/+++ lines
+  const renamed = /^(?:rename|copy) to (.*)$/m.exec(section)?.[1];
+  if (renamed !== undefined) {
+    return headerPath(renamed, '');
+  }
+  const names = /^diff --git (.*)$/m.exec(section)?.[1] ?? '';
+  if (names.startsWith('"')) {
+    return headerPath(/^"(?:[^"\\]|\\.)*"/.exec(names)?.[0] ?? '', 'a/');
+  }
+  // Unquoted "a/<name> b/<name>" with the same name twice
+  const half = (names.length - 1) / 2;
+  const name = names.slice(0, half);
+  return Number.isInteger(half) && names.slice(half) === ` b/${name.slice(2)}` ? headerPath(name, 'a/') : undefined;
+}
+
+export interface GitCommit {
+  commit: string;
+  branch: string;
+  files: string[];
+}
+
+/**
+ * Commit the current content of the given paths, new and deleted files included. Only these
+ * paths go into the commit, even when other changes are staged.
+ */
+export async function gitCommit(config: ServerConfig, message: string, paths: string[]): Promise<GitCommit> {
+  await requireRepository(config);
+  await git(config, ['add', '--all', '--', ...paths, OWN_FILES]);
+  await git(config, ['commit', '--quiet', '--message', message, '--', ...paths, OWN_FILES]);
+
+  const commit = (await git(config, ['rev-parse', '--short', 'HEAD'])).stdout.trim();
+  const branch = (await git(config, ['rev-parse', '--abbrev-ref', 'HEAD'])).stdout.trim();
+  const { stdout } = await git(config, ['diff-tree', '-r', '--root', '--no-commit-id', '--name-only', '--relative', '-z', 'HEAD']);
+  return { commit, branch, files: stdout.split('\0').filter(Boolean) };
+}
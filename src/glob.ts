@@ -0,0 +1,140 @@
+/**
+ * Glob matching for workspace-relative paths
+ * Supports *, ?, **, [...] character classes and {a,b} brace sets
+ */
+
+// Expand {a,b} sets (including nested ones) into plain patterns
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        const options = splitTopLevel(pattern.slice(start + 1, i));
+        if (options.length < 2) {
+          continue;
+        }
+        const prefix = pattern.slice(0, start);
+        const suffix = pattern.slice(i + 1);
+        return options.flatMap((option) => expandBraces(prefix + option + suffix));
+      }
+    }
+  }
+  return [pattern];
+}
+
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\') {
+      current += ch + (body[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function segmentToRegExp(pattern: string): string {
+  let out = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) {
+      out += escapeRegExp(pattern[++i]);
+    } else if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything below
+        i++;
+        if (pattern[i + 1] === '/') {
+          i++;
+          out += '(?:[^/]+/)*';
+        } else {
+          out += '.*';
+        }
+      } else {
+        out += '[^/]*';
+      }
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        out += '\\[';
+        continue;
+      }
+      let body = pattern.slice(i + 1, end);
+      if (body.startsWith('!')) body = '^' + body.slice(1);
+      out += `[${body}]`;
+      i = end;
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+  return out;
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const sources = expandBraces(pattern).map((expanded) => {
+    // Patterns without a slash match the base name at any depth, like .gitignore
+    const anchored = expanded.includes('/');
+    const body = segmentToRegExp(expanded.replace(/^\.?\//, ''));
+    return anchored ? body : `(?:.*/)?${body}`;
+  });
+  return new RegExp(`^(?:${sources.join('|')})$`);
+}
+
+// Match a workspace-relative path (forward slashes, no leading "./")
+export function matchGlob(pattern: string, relativePath: string): boolean {
+  return globToRegExp(pattern).test(relativePath);
+}
+
+export interface GlobMatcher {
+  // The include pattern that selected the path, or undefined if none did or an exclude matched
+  match(relativePath: string): string | undefined;
+  excluded(relativePath: string): boolean;
+}
+
+/**
+ * Compile include and exclude patterns once. Include patterns starting with "!" are treated
+ * as excludes, so a single list like ["src/**", "!**\/*.test.ts"] works too.
+ */
+export function createMatcher(patterns: string[], exclude: string[] = []): GlobMatcher {
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!'))
+    .map((pattern) => ({ pattern, regex: globToRegExp(pattern) }));
+  const excludes = [...exclude, ...patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => pattern.slice(1))]
+    .map((pattern) => globToRegExp(pattern));
+
+  const excluded = (relativePath: string) => excludes.some((regex) => regex.test(relativePath));
+  return {
+    excluded,
+    match(relativePath) {
+      if (excluded(relativePath)) {
+        return undefined;
+      }
+      return includes.find(({ regex }) => regex.test(relativePath))?.pattern;
+    }
+  };
+}
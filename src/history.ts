@@ -0,0 +1,131 @@
+/**
+ * Versioned backup store
+ * Keeps a timestamped snapshot of a file before every edit under <root>/.smalledit/history/,
+ * one directory per file, together with the tool name and arguments that made the edit.
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import { ServerConfig } from './config.js';
+import { toRelative } from './sandbox.js';
+
+export const HISTORY_DIR = '.smalledit/history';
+
+export interface BackupVersion {
+  id: string;
+  // Workspace-relative path of the file the snapshot belongs to
+  file: string;
+  tool: string;
+  args: unknown;
+  createdAt: string;
+  size: number;
+}
+
+// What to record alongside a snapshot
+export interface SnapshotRequest {
+  config: ServerConfig;
+  tool: string;
+  args: unknown;
+}
+
+function historyRoot(config: ServerConfig): string {
+  return join(config.root, HISTORY_DIR);
+}
+
+function fileHistoryDir(config: ServerConfig, relativeFile: string): string {
+  return join(historyRoot(config), encodeURIComponent(relativeFile));
+}
+
+// Workspace-relative path of a version's snapshot file
+export function versionPath(version: BackupVersion): string {
+  return `${HISTORY_DIR}/${encodeURIComponent(version.file)}/${version.id}.snap`;
+}
+
+// Sortable id: compact UTC timestamp plus a random suffix for edits within the same millisecond
+function newVersionId(): string {
+  return `${new Date().toISOString().replace(/[-:.]/g, '')}-${randomBytes(2).toString('hex')}`;
+}
+
+async function readVersions(dir: string): Promise<BackupVersion[]> {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  const entries = await readdir(dir);
+  const versions: BackupVersion[] = [];
+  for (const entry of entries.filter((name) => name.endsWith('.json'))) {
+    try {
+      versions.push(JSON.parse(await readFile(join(dir, entry), 'utf-8')));
+    } catch {
+      // Ignore metadata that was partially written or edited by hand
+    }
+  }
+  // Newest first
+  return versions.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function listVersions(config: ServerConfig, absoluteFile: string): Promise<BackupVersion[]> {
+  return readVersions(fileHistoryDir(config, toRelative(config, absoluteFile)));
+}
+
+// Every file that has snapshots, with its versions newest first
+export async function listAllVersions(config: ServerConfig): Promise<Map<string, BackupVersion[]>> {
+  const result = new Map<string, BackupVersion[]>();
+  const root = historyRoot(config);
+  if (!existsSync(root)) {
+    return result;
+  }
+  for (const entry of (await readdir(root)).sort()) {
+    const versions = await readVersions(join(root, entry));
+    if (versions.length > 0) {
+      result.set(decodeURIComponent(entry), versions);
+    }
+  }
+  return result;
+}
+
+// Exact bytes of a snapshot
+export async function readVersion(config: ServerConfig, version: BackupVersion): Promise<Buffer> {
+  return readFile(join(fileHistoryDir(config, version.file), `${version.id}.snap`));
+}
+
+export async function deleteVersion(config: ServerConfig, version: BackupVersion): Promise<void> {
+  const dir = fileHistoryDir(config, version.file);
+  await rm(join(dir, `${version.id}.snap`), { force: true });
+  await rm(join(dir, `${version.id}.json`), { force: true });
+}
+
+// Store content as the newest version of a file and prune versions beyond the retention limit
+export async function recordSnapshot(request: SnapshotRequest, absoluteFile: string, content: Buffer): Promise<BackupVersion> {
+  const { config, tool, args } = request;
+  const file = toRelative(config, absoluteFile);
+  const dir = fileHistoryDir(config, file);
+  await mkdir(dir, { recursive: true });
+
+  const version: BackupVersion = {
+    id: newVersionId(),
+    file,
+    tool,
+    args,
+    createdAt: new Date().toISOString(),
+    size: Buffer.byteLength(content)
+  };
+  await writeFile(join(dir, `${version.id}.snap`), content);
+  await writeFile(join(dir, `${version.id}.json`), JSON.stringify(version, null, 2));
+
+  const versions = await readVersions(dir);
+  for (const old of versions.slice(config.historyLimit)) {
+    await deleteVersion(config, old);
+  }
+  return version;
+}
+
+// Find a version by id, or by how many steps back it is (1 = most recent snapshot)
+export async function findVersion(config: ServerConfig, absoluteFile: string, selector: { version?: string; steps?: number }): Promise<BackupVersion | undefined> {
+  const versions = await listVersions(config, absoluteFile);
+  if (selector.version) {
+    return versions.find((version) => version.id === selector.version);
+  }
+  return versions[(selector.steps ?? 1) - 1];
+}
@@ -0,0 +1,73 @@
+/**
+ * Ignore files
+ * .gitignore-style rules read from .gitignore, .ignore and .smalleditignore in every directory
+ * a walk passes through. Later rules win, so deeper files and negations can re-include paths.
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { globToRegExp } from './glob.js';
+
+// In increasing order of precedence
+export const IGNORE_FILES = ['.gitignore', '.ignore', '.smalleditignore'];
+
+export interface IgnoreRule {
+  // Absolute directory of the ignore file; the pattern is relative to it
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  // Where the rule came from, e.g. "src/.gitignore:3 (*.gen.ts)"
+  source: string;
+}
+
+export function parseIgnoreFile(content: string, base: string, label: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  content.split('\n').forEach((raw, index) => {
+    // Trailing spaces are dropped unless escaped with a backslash
+    let line = raw.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.replace(/\/+$/, '');
+    if (!line) {
+      return;
+    }
+
+    // Braces are literal in ignore files, unlike in tool globs
+    const pattern = line.replace(/[{}]/g, '\\$&');
+    rules.push({ base, regex: globToRegExp(pattern), negate, dirOnly, source: `${label}:${index + 1} (${raw.trim()})` });
+  });
+  return rules;
+}
+
+// Rules from the ignore files directly in dir; label is dir relative to the workspace root
+export async function loadIgnoreRules(dir: string, label: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  for (const name of IGNORE_FILES) {
+    const path = join(dir, name);
+    if (existsSync(path)) {
+      rules.push(...parseIgnoreFile(await readFile(path, 'utf-8'), dir, label ? `${label}/${name}` : name));
+    }
+  }
+  return rules;
+}
+
+// The rule that ignores a path, or undefined if no rule does or the last match is a negation
+export function findIgnoreRule(rules: IgnoreRule[], absolute: string, isDirectory: boolean): IgnoreRule | undefined {
+  let decisive: IgnoreRule | undefined;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    const rel = relative(rule.base, absolute).split(sep).join('/');
+    if (rel === '' || rel.startsWith('..')) continue;
+    if (rule.regex.test(rel)) {
+      decisive = rule;
+    }
+  }
+  return decisive?.negate ? undefined : decisive;
+}
@@ -12,86 +12,132 @@ import {
   ErrorCode,
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { readFile, writeFile } from 'fs/promises';
+import { readFile, stat, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
+import { resolve } from 'path';
+import {
+  awkTransform,
+  perlTransform,
+  transformWith
+} from './exec.js';
+import { diffPage, diffStats, FileDiff, renderDiffReport, splitLines, unifiedDiff } from './diff.js';
+import {
+  assertUnchanged,
+  commitAtomically,
+  fileStamp,
+  formatStamp,
+  hashContent,
+  readSample,
+  readText,
+  saveEdit,
+  StagedEdit
+} from './files.js';
+import { applySed, SedStats } from './sed.js';
+import {
+  deleteVersion,
+  findVersion,
+  listAllVersions,
+  listVersions,
+  readVersion,
+  versionPath
+} from './history.js';
+import { beginOperation, editedFiles, Operation, recordOperation, replay } from './journal.js';
+import { createMatcher } from './glob.js';
+import { DEFAULT_EXCLUDED_DIRS, describeSkipped, SkipReason, walkFiles } from './walk.js';
+import { buildSearchRegex, formatFileMatches, searchLines } from './search.js';
+import { arrayLines, collectLines, STREAM_THRESHOLD, streamLines } from './stream.js';
+import { hexDump, looksBinary } from './encoding.js';
+import {
+  applyHunks,
+  deletePlan,
+  formatPlanHunk,
+  loadPlan,
+  newPlanId,
+  planLines,
+  planPage,
+  ReplacePlan,
+  savePlan
+} from './plans.js';
+import { applyBatch, BatchEdit, checkEdit } from './batch.js';
+import {
+  editLines,
+  findOccurrences,
+  formatLocations,
+  parseLineRange,
+  replaceOccurrences
+} from './literal.js';
+import { loadConfig } from './config.js';
+import { editorFor } from './structured.js';
+import { planRename } from './rename.js';
+import { countSymbols, formatOutline, limitDepth, outlineOf } from './outline.js';
+import { describeStatus, diffSectionFile, gitCommit, gitDiff, gitStatus, headCommitTime } from './git.js';
+import { applyFilePatch, formatHunkStatus, HunkStatus, parsePatch } from './patch.js';
+import { DataValue, formatKeyPath, parseKeyPath } from './keypath.js';
+import { findViolation, resolvePath, toRelative } from './sandbox.js';
+import {
+  describeEdit,
+  EditResult,
+  failedEdit,
+  FileEditResult,
+  summarizeDiffs,
+  summarizeEdits,
+  ToolResultMap
+} from './results.js';
+import { toJsonSchema, validateArgs } from './schema.js';
+import { ToolArgs, ToolName, toolSchemas } from './tools.js';
 
 
-type ToolArgsMap = {
-  'sed_edit': {
-  file: string | boolean;
-  pattern: string | boolean;
-  backup?: string | boolean;
-  preview?: string | boolean;
-  };
-  'sed_multifile': {
-  pattern: string | boolean;
-  filePattern: string | boolean;
-  directory?: string | boolean;
-  backup?: string | boolean;
-  };
-  'quick_replace': {
-  file: string | boolean;
-  find: string | boolean;
-  replace: string | boolean;
-  all?: string | boolean;
-  };
-  'line_edit': {
-  file: string | boolean;
-  lineNumber: string | boolean;
-  lineRange: string | boolean;
-  action: string | boolean;
-  content: string | boolean;
-  };
-  'awk_process': {
-  file: string | boolean;
-  script: string | boolean;
-  outputFile: string | boolean;
-  };
-  'diff_preview': {
-  file: string | boolean;
-  script: string | boolean;
-  backup?: string | boolean;
-  multiline?: string | boolean;
-  };
-  'perl_edit': {
-  file: string | boolean;
-  command: string | boolean;
-  tool?: string | boolean;
-  };
-  'restore_backup': {
-  file: string | boolean;
-  keepBackup?: string | boolean;
-  };
-  'list_backups': {
-  directory?: string | boolean;
-  pattern?: string | boolean;
-  };
-  'read_file': {
-  file: string | boolean;
-  lines?: string | boolean;
-  search?: string | boolean;
-  context?: string | boolean;
-  };
-  'search_in_file': {
-  file: string | boolean;
-  pattern: string | boolean;
-  context?: string | boolean;
-  caseInsensitive?: string | boolean;
-  };
-  'show_around_line': {
-  file: string | boolean;
-  lineNumber: string | boolean;
-  context?: string | boolean;
-  };
-  'overview': {
-  tool?: string | boolean;
+const config = loadConfig();
+
+// Tools whose structured result is an EditResult
+type EditToolName = { [K in keyof ToolResultMap]: EditResult extends ToolResultMap[K] ? K : never }[keyof ToolResultMap];
+
+// Human-readable text plus the structured payload as a second, JSON content block
+function toolResult<T extends keyof ToolResultMap>(tool: T, text: string, payload: ToolResultMap[T]) {
+  return {
+    content: [
+      { type: 'text', text },
+      { type: 'text', text: JSON.stringify({ tool, ...payload }) }
+    ]
   };
-};
+}
 
-type ToolArg<T extends keyof ToolArgsMap> = ToolArgsMap[T];
-const execAsync = promisify(exec);
+// Add warnings collected while writing files to the text and the JSON payload of a result
+function withWarnings(result: ReturnType<typeof toolResult>, warnings: string[]) {
+  if (warnings.length === 0) {
+    return result;
+  }
+  const [text, payload] = result.content;
+  return {
+    content: [
+      { type: 'text', text: `${text.text}\n\n${warnings.map((warning) => `Warning: ${warning}`).join('\n')}` },
+      { type: 'text', text: JSON.stringify({ ...JSON.parse(payload.text), warnings }) }
+    ]
+  };
+}
+
+// Tool result for dry runs and previews: per-file diffs with a summary, one page at a time
+function diffResult(tool: EditToolName, title: string, diffs: FileDiff[], page: number, extra: { failures?: FileEditResult[]; replacements?: number } = {}) {
+  return toolResult(tool, renderDiffReport(title, diffs, page), summarizeDiffs(diffs, page, extra));
+}
+
+// "3.2 GB" for messages about large files
+function formatSize(bytes: number): string {
+  const units = ['bytes', 'KB', 'MB', 'GB', 'TB'];
+  const power = Math.min(Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)), units.length - 1);
+  return power === 0 ? `${bytes} bytes` : `${(bytes / 1024 ** power).toFixed(1)} ${units[power]}`;
+}
+
+// Validate a call's arguments against the tool's schema, filling in defaults
+function parseArgs<T extends ToolName>(tool: T, args: unknown): ToolArgs<T> {
+  return validateArgs(toolSchemas[tool], args) as ToolArgs<T>;
+}
+
+// Look up the hash a caller expects for one file of a multi-file edit, by workspace-relative path
+function hashFor(expectedHashes: Record<string, string>, file: string): string | undefined {
+  const entry = Object.entries(expectedHashes).find(([path]) => toRelative(config, resolve(config.root, path)) === file);
+  return entry?.[1];
+}
 
 // Initialize server
 const server = new Server(
@@ -109,325 +155,7 @@ const server = new Server(
 // Tool list handler
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: [
-      {
-        name: 'sed_edit',
-        description: 'Make small edits to files using sed patterns. Efficient for single-line changes, pattern replacements, and simple text transformations.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'Path to the file to edit'
-            },
-            pattern: {
-              type: 'string',
-              description: 'Sed pattern (e.g., "s/old/new/g" for substitution)'
-            },
-            backup: {
-              type: 'boolean',
-              default: true,
-              description: 'Create backup file before editing'
-            },
-            preview: {
-              type: 'boolean',
-              default: false,
-              description: 'Preview changes without modifying file'
-            }
-          },
-          required: ['file', 'pattern']
-        }
-      },
-      {
-        name: 'sed_multifile',
-        description: 'Apply sed pattern to multiple files matching a glob pattern',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            pattern: {
-              type: 'string',
-              description: 'Sed pattern to apply'
-            },
-            filePattern: {
-              type: 'string',
-              description: 'File glob pattern (e.g., "*.ts", "src/**/*.js")'
-            },
-            directory: {
-              type: 'string',
-              default: '.',
-              description: 'Starting directory for search'
-            },
-            backup: {
-              type: 'boolean',
-              default: true,
-              description: 'Create backup files'
-            }
-          },
-          required: ['pattern', 'filePattern']
-        }
-      },
-      {
-        name: 'awk_process',
-        description: 'Process files using AWK for more complex operations like column manipulation, calculations, or conditional processing',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'Input file path'
-            },
-            script: {
-              type: 'string',
-              description: 'AWK script to execute'
-            },
-            outputFile: {
-              type: 'string',
-              description: 'Output file path (optional, defaults to stdout)'
-            }
-          },
-          required: ['file', 'script']
-        }
-      },
-      {
-        name: 'quick_replace',
-        description: 'Simple find and replace across a file without regex',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'File to edit'
-            },
-            find: {
-              type: 'string',
-              description: 'Text to find (literal, not regex)'
-            },
-            replace: {
-              type: 'string',
-              description: 'Text to replace with'
-            },
-            all: {
-              type: 'boolean',
-              default: true,
-              description: 'Replace all occurrences (false = first only)'
-            }
-          },
-          required: ['file', 'find', 'replace']
-        }
-      },
-      {
-        name: 'line_edit',
-        description: 'Edit specific lines by number or range',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'File to edit'
-            },
-            lineNumber: {
-              type: 'number',
-              description: 'Line number to edit (1-based)'
-            },
-            lineRange: {
-              type: 'string',
-              description: 'Line range (e.g., "10,20" or "5,$")'
-            },
-            action: {
-              type: 'string',
-              enum: ['replace', 'delete', 'insert_after', 'insert_before'],
-              description: 'Action to perform'
-            },
-            content: {
-              type: 'string',
-              description: 'New content (for replace/insert actions)'
-            }
-          },
-          required: ['file', 'action']
-        }
-      },
-      {
-        name: 'perl_edit',
-        description: 'Edit files using Perl one-liners (more powerful than sed, better cross-platform support)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'File to edit'
-            },
-            script: {
-              type: 'string', 
-              description: 'Perl script (e.g., "s/old/new/g" or "$_ = uc" for uppercase)'
-            },
-            backup: {
-              type: 'boolean',
-              default: true,
-              description: 'Create backup file'
-            },
-            multiline: {
-              type: 'boolean',
-              default: false,
-              description: 'Enable multiline mode (-0777)'
-            }
-          },
-          required: ['file', 'script']
-        }
-      },
-      {
-        name: 'diff_preview', 
-        description: 'Preview what changes would be made by showing a diff',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'File to preview changes for'
-            },
-            command: {
-              type: 'string',
-              description: 'Command that would make changes (e.g., "s/old/new/g")'
-            },
-            tool: {
-              type: 'string',
-              enum: ['sed', 'perl', 'awk'],
-              default: 'perl',
-              description: 'Which tool to use for the preview'
-            }
-          },
-          required: ['file', 'command']
-        }
-      },
-      {
-        name: 'restore_backup',
-        description: 'Restore a file from its most recent backup (.bak)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'File to restore from backup'
-            },
-            keepBackup: {
-              type: 'boolean',
-              default: true,
-              description: 'Keep the backup file after restoring'
-            }
-          },
-          required: ['file']
-        }
-      },
-      {
-        name: 'list_backups',
-        description: 'List all backup files in a directory',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            directory: {
-              type: 'string',
-              default: '.',
-              description: 'Directory to search for backup files'
-            },
-            pattern: {
-              type: 'string',
-              default: '*.bak',
-              description: 'Backup file pattern'
-            }
-          }
-        }
-      },
-      {
-        name: 'read_file',
-        description: 'Read and examine file contents with options for line ranges, search patterns, or full file viewing',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'Path to the file to read'
-            },
-            lines: {
-              type: 'string',
-              description: 'Line range (e.g., "10-20", "1-5", "20-$")'
-            },
-            search: {
-              type: 'string',
-              description: 'Search pattern with context'
-            },
-            context: {
-              type: 'number',
-              default: 3,
-              description: 'Lines of context around search matches'
-            }
-          },
-          required: ['file']
-        }
-      },
-      {
-        name: 'search_in_file',
-        description: 'Search for patterns in a file and show results with context',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'Path to the file to search'
-            },
-            pattern: {
-              type: 'string',
-              description: 'Pattern to search for (can be regex)'
-            },
-            context: {
-              type: 'number',
-              default: 3,
-              description: 'Lines of context around matches'
-            },
-            caseInsensitive: {
-              type: 'boolean',
-              default: false,
-              description: 'Case insensitive search'
-            }
-          },
-          required: ['file', 'pattern']
-        }
-      },
-      {
-        name: 'show_around_line',
-        description: 'Show content around a specific line number for context verification',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            file: {
-              type: 'string',
-              description: 'Path to the file'
-            },
-            lineNumber: {
-              type: 'number',
-              description: 'Line number to center on'
-            },
-            context: {
-              type: 'number',
-              default: 5,
-              description: 'Lines before and after to show'
-            }
-          },
-          required: ['file', 'lineNumber']
-        }
-      },
-      {
-        name: 'help',
-        description: 'Get detailed help and examples for smalledit tools',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            tool: {
-              type: 'string',
-              description: 'Tool name for help (e.g., "sed_edit", "perl_edit") or "all" for overview'
-            }
-          }
-        }
-      }
-    ]
+    tools: Object.values(toolSchemas).map(toJsonSchema)
   };
 });
 
@@ -438,18 +166,28 @@ const helpContent = {
 Provides efficient tools for small, targeted file edits.
 
 Available tools:
-- sed_edit: Pattern-based file editing (uses perl backend)
+- sed_edit: Pattern-based file editing (built-in sed engine)
 - perl_edit: Direct perl one-liner execution
 - quick_replace: Simple find/replace without regex
+- replace_block: Replace an exact (multi-line) block that must be unique
+- set_value: Get, set, delete or append a JSON/YAML/TOML value by key path
 - line_edit: Edit specific lines by number
 - awk_process: AWK script processing
 - sed_multifile: Apply patterns to multiple files
 - diff_preview: Preview changes before applying
-- restore_backup: Restore files from .bak backups
-- list_backups: Find all backup files
+- restore_backup: Restore files from the backup history
+- list_backups: List backup versions per file
+- undo / redo: Revert or reapply the last operations across files
 - read_file: Read and examine file contents with ranges/search
 - search_in_file: Search for patterns in files with context
+- search_files: Search every file under a directory, grouped by file
+- plan_replace / apply_plan: Review a multi-file replace hunk by hunk, then apply some or all
+- apply_edits: Several edits to one or more files in one atomic call
+- apply_patch: Apply a unified diff (git diff or diff -u) to one or more files
+- rename_symbol: Rename a TypeScript/JavaScript symbol across the project
+- outline: List functions, classes, headings or keys with their line ranges
 - show_around_line: Show content around specific line numbers
+- git_status / git_diff / git_commit: See and commit uncommitted changes with local git
 - help: This help system
 
 🎯 WHEN TO USE SMALLEDIT vs FILESYSTEM TOOLS:
@@ -458,6 +196,7 @@ USE SMALLEDIT FOR:
 - Single line changes
 - Simple pattern replacements  
 - Version number updates
+- Config values in JSON, YAML and TOML files (set_value)
 - Removing debug statements
 - Quick find/replace operations
 - Bulk simple edits across files
@@ -472,13 +211,12 @@ USE FILESYSTEM TOOLS INSTEAD FOR:
 
 ⚠️ COMMON ISSUES TO AVOID:
 - Don't use smalledit for complex multi-line edits
-- Be careful with quotes in shell commands
+- The built-in sed engine has no !, y, n, q or w (flag or command); use
+  perl_edit for those
 - Always preview changes first with diff_preview
-- Clean up .bak files periodically
-- Remember perl syntax differs from sed
+- sed_edit/sed_multifile take sed syntax, perl_edit takes perl syntax
 
 💡 BETTER ALTERNATIVES:
-- Instead of sed → Use perl (more portable)
 - For JSON files → Consider jq instead
 - For YAML files → Consider yq instead  
 - For modern sed → Install 'sd' (brew install sd)
@@ -487,20 +225,31 @@ USE FILESYSTEM TOOLS INSTEAD FOR:
 💡 RECOMMENDED WORKFLOW:
 1. Use diff_preview first to check changes
 2. If it looks good, apply the edit
-3. If something goes wrong, use restore_backup
-4. Use list_backups to find and clean old backups
+3. If something goes wrong, use undo (or restore_backup for one file)
+4. Use list_backups to see every stored version of a file
 
 General tips:
 - Always use preview/diff_preview to test first
-- Backups are created by default (.bak files)
-- Perl patterns are more portable than sed
-- Use quotes carefully in patterns
+- Every tool that writes files accepts dryRun: true to return the diff instead
+- Every result is followed by a JSON block (filesChanged, linesAdded, linesRemoved,
+  replacements, backupPath, matches, diff, ...) for programmatic use
+- Backups are created by default (versioned, in .smalledit/history/)
+- The read tools report a sha256 hash; pass it as expectedHash so an edit is
+  refused if the file changed since you read it
+- Files keep their encoding (UTF-8, UTF-16, Latin-1), BOM, CRLF/LF line endings
+  and final newline; pass normalizeEol: "lf", "crlf" or "auto" to convert
+- An edit that breaks a JSON, YAML, TOML, TypeScript or JavaScript file that
+  parsed before is rolled back with the parser's line and column; pass
+  validate: false for deliberate intermediate states
+- With --require-clean, files with uncommitted git changes are only edited with
+  force: true; commit with git_commit so git history can undo every edit
 
 🛑 TROUBLESHOOTING:
 ================
 If you see errors like:
-- "undefined label 'ard/Code'" → macOS sed issue, use perl instead
-- "unterminated substitute" → Quote escaping problem
+- "unsupported command" (sed) → !, y, n, q and w are not built in; use perl_edit
+- "unterminated s command" → A delimiter in the pattern is not escaped; escape
+  it or pick another delimiter, e.g. s|a/b|c|
 - "extra characters at end" → Multi-line content issue, use filesystem tools
 - "division by zero" (awk) → Check field separators and data format
 
@@ -512,22 +261,35 @@ That's not a bug - it's a feature! Use filesystem:edit_file instead.
 `,
   sed_edit: `sed_edit - Pattern-based file editing
 ===================================
-Uses perl backend for cross-platform compatibility.
+Runs sed scripts with a built-in engine, so results are the same on every platform.
 
 Examples:
   // Simple replacement
   sed_edit({ file: "config.json", pattern: "s/localhost/production/g" })
   
   // Delete lines containing pattern
-  sed_edit({ file: "app.js", pattern: "$_ = '' if /console\\.log/" })
+  sed_edit({ file: "app.js", pattern: "/console\\.log/d" })
+  
+  // Groups and back-references (basic regex syntax)
+  sed_edit({ file: "names.txt", pattern: "s/\\([a-z]*\\) \\([a-z]*\\)/\\2 \\1/" })
+  
+  // Only inside a block, with an alternate delimiter
+  sed_edit({ file: "nginx.conf", pattern: "/^server {/,/^}/s|/var/www|/srv/www|g" })
   
   // Preview changes first
   sed_edit({ file: "test.txt", pattern: "s/old/new/g", preview: true })
   
   // Edit without backup
   sed_edit({ file: "temp.txt", pattern: "s/a/b/g", backup: false })
+  
+  // Second page of a long preview
+  sed_edit({ file: "big.txt", pattern: "s/a/b/g", preview: true, page: 2 })
 
-Note: Actually uses perl internally for better compatibility.
+Supported:
+- Addresses: 42, $, /regex/, \\%regex%, and ranges like 10,20 or /start/,/end/
+- Commands: s/regex/replacement/flags (g, i, N, p), d, a text, i text, c text
+- Several commands separated by ; or newlines
+Anything else (y, q, N, {...} blocks, ...) is rejected with an error; use perl_edit instead.
 
 WHEN NOT TO USE:
 - Multi-line replacements
@@ -572,12 +334,68 @@ Examples:
   // Replace only first occurrence  
   quick_replace({ file: "config.ini", find: "debug=true", replace: "debug=false", all: false })
   
-  // Replace with special characters
-  quick_replace({ file: "data.csv", find: "$price", replace: "\\$19.99" })
+  // Special characters need no escaping
+  quick_replace({ file: "data.csv", find: "$price", replace: "$19.99 & up" })
+  
+  // Text spanning lines
+  quick_replace({ file: "app.ts", find: "} else {\n  return;", replace: "}\nreturn;" })
+  
+  // See the diff without writing anything
+  quick_replace({ file: "doc.txt", find: "Version 1.0", replace: "Version 2.0", dryRun: true })
+
+Note: find and replace are exact strings: newlines, tabs, /, &, $ and backslashes
+are used as is. Nothing is written when find does not occur.
+`,
+  replace_block: `replace_block - Replace an exact, unique block
+=============================================
+Replace a block of text copied exactly from the file, newlines and indentation
+included. oldText must occur exactly once (or exactly expectedCount times);
+otherwise nothing changes and the error lists where it was found.
+
+Examples:
+  // Rewrite a function body
+  replace_block({
+    file: "src/app.ts",
+    oldText: "  if (!user) {\n    return null;\n  }",
+    newText: "  if (!user) {\n    throw new NotFoundError(id);\n  }"
+  })
+  
+  // A snippet that is known to appear twice
+  replace_block({ file: "Makefile", oldText: "\tnpm test", newText: "\tnpm run test:ci", expectedCount: 2 })
+
+Error when the block is ambiguous:
+  oldText occurs 3 times in src/app.ts (at 12:3, 40:3, 77:3), expected 1
 
-Note: Special regex characters are automatically escaped.
+Tip: add a neighbouring line to oldText to make it unique; safer than line numbers,
+which shift as the file changes.
 `,
-  line_edit: `line_edit - Line-specific operations
+  set_value: `set_value - Edit a value in a JSON, YAML or TOML file
+===============================================
+Address a value by key path and rewrite only its text. Comments, key order,
+quoting and indentation elsewhere in the file are kept. The format comes from the
+extension (.json, .jsonc, .yaml, .yml, .toml) unless format is given.
+
+Key paths: dotted keys, [n] for array elements, quotes for keys with dots:
+  version   compilerOptions.paths   jobs.build.steps[0].run   scripts["build:prod"]
+
+Actions:
+  set (default) - replace the value, or add it; missing parent keys are created
+  get           - return the value as JSON
+  delete        - remove the key or array element
+  append        - add value to the end of an array (created if missing)
+
+Examples:
+  set_value({ file: "package.json", path: "version", value: "1.2.3" })
+  set_value({ file: "tsconfig.json", path: "compilerOptions.strict", value: true })
+  set_value({ file: ".github/workflows/ci.yml", path: "jobs.test.strategy.matrix.node", action: "append", value: 22 })
+  set_value({ file: "pyproject.toml", path: "tool.poetry.dependencies.requests", value: "^2.31" })
+  set_value({ file: "package.json", path: "dependencies.left-pad", action: "delete" })
+
+Notes: new keys go after the last key of their object or table. Objects and arrays
+are written in the file's own syntax. TOML has no null, so use delete instead.
+Only the first document of a multi-document YAML file is edited.
+`,
+    line_edit: `line_edit - Line-specific operations
 ==================================
 Edit, delete, or insert at specific line numbers.
 
@@ -594,10 +412,19 @@ Examples:
   // Insert before last line
   line_edit({ file: "footer.html", lineRange: "$", action: "insert_before", content: "<!-- Updated -->" })
 
+  // Replace lines 3-5 with a two-line block
+  line_edit({ file: "app.ts", lineRange: "3,5", action: "replace", content: "const a = 1;\nconst b = 2;" })
+
 Ranges:
 - Single line: lineNumber: 42
 - Range: lineRange: "10,20" 
 - To end: lineRange: "5,$"
+- Pass exactly one of lineNumber and lineRange
+- replace swaps the whole range for content once; insert_after/insert_before go
+  after the last/before the first line of the range
+
+content is inserted exactly as given; use \n for several lines. replace and the
+inserts require it (pass "" for an empty line); delete ignores it.
 `,
   awk_process: `awk_process - AWK script processing
 =================================
@@ -642,8 +469,30 @@ Examples:
   
   // Without backups (careful!)
   sed_multifile({ filePattern: "*.tmp", pattern: "s/old/new/g", backup: false })
+  
+  // Diff of every file that would change, nothing written
+  sed_multifile({ filePattern: "*.ts", pattern: "s/oldName/newName/g", dryRun: true })
+  
+  // All-or-nothing: if any file fails, no file is changed
+  sed_multifile({ filePattern: "*.ts", pattern: "s/oldName/newName/g", atomic: true })
+  
+  // Several globs, minus tests and generated code
+  sed_multifile({
+    filePattern: ["src/**/*.{ts,tsx}", "!**/*.test.ts"],
+    exclude: ["src/generated/**"],
+    pattern: "s/oldName/newName/g"
+  })
 
-Note: Uses perl internally. Be careful with patterns affecting many files!
+Globs: *, ?, ** (any depth), [abc], {a,b}. Patterns are relative to directory;
+one without a / matches the file name at any depth, and ! excludes.
+node_modules and .git are skipped unless defaultExcludes: false.
+Every file in the result shows the pattern that matched it.
+
+Files matched by .gitignore, .ignore or .smalleditignore (nested ones and !negations
+included) are skipped, and the result says how many and by which rule.
+Pass ignoreFiles: false to include them.
+
+Note: Same sed syntax as sed_edit. Be careful with patterns affecting many files!
 `,
   diff_preview: `diff_preview - Preview changes
 ============================
@@ -660,20 +509,26 @@ Examples:
   diff_preview({ file: "log.csv", command: "BEGIN{FS=\",\"} {print $2}", tool: "awk" })
 
 Output:
-- Shows unified diff format
+- Shows unified diff format with a +added/-removed summary
 - No changes made to original file
-- Temp files are cleaned up
+- Long diffs are split into pages: pass page: 2, 3, ... for the rest
 `,
   restore_backup: `restore_backup - Restore from backup
 =================================
-Restore a file from its .bak backup file.
+Restore a file from its backup history. Every edit stores the previous
+content as a new version, so you can go back more than one step.
 
 Examples:
-  // Basic restore
+  // Undo the most recent edit
   restore_backup({ file: "config.json" })
-  // Looks for config.json.bak and restores it
   
-  // Restore and remove backup
+  // Go back three edits
+  restore_backup({ file: "config.json", steps: 3 })
+  
+  // Restore a specific version (ids come from list_backups)
+  restore_backup({ file: "config.json", version: "20250101T120000000Z-1a2b" })
+  
+  // Restore and remove that version from the history
   restore_backup({ file: "data.txt", keepBackup: false })
   
   // After a bad edit
@@ -681,35 +536,67 @@ Examples:
   restore_backup({ file: "app.js" }) // Fixed!
 
 Safety features:
-- Creates .before-restore backup of current file
-- Checks for alternative backup formats (.backup, .orig, ~)
+- The current content is saved as a new version before restoring
+- Points out legacy backups (.bak, .backup, .orig, ~) if the history is empty
 - Clear error if no backup found
 `,
-  list_backups: `list_backups - Find backup files
-==============================
-List all backup files in a directory.
+  list_backups: `list_backups - List backup versions
+=================================
+List the versions kept in the backup history (.smalledit/history/).
 
 Examples:
-  // List all .bak files in current directory
+  // Every file with backups
   list_backups({})
   
-  // Search specific directory
+  // Only files below a directory
   list_backups({ directory: "./src" })
   
-  // Find different backup patterns
-  list_backups({ pattern: "*.backup" })
-  list_backups({ pattern: "*~" })  // Emacs-style
+  // Only some files
+  list_backups({ pattern: "*.json" })
   
-  // Check entire project
-  list_backups({ directory: ".", pattern: "*.bak" })
+  // Several globs, relative to directory
+  list_backups({ directory: "src", pattern: ["**/*.{ts,tsx}", "!**/*.test.ts"] })
 
-Output shows:
-- Backup file path
-- File size
-- Modification date
-- Original file name (inferred)
+Output shows, per file and newest first:
+- [N] steps back (for restore_backup's steps option)
+- Version id (for restore_backup's version option)
+- Date and size
+- Tool and arguments of the edit that replaced it
 
-Useful for cleanup or finding old versions.
+Older versions are pruned beyond the retention limit (--history-limit, default 20 per file).
+`,
+  undo: `undo - Revert recent operations
+===============================
+Every call that writes files is recorded in an operation journal with the content
+hash of each file before and after: the sed, perl and line tools, awk_process with
+outputFile, replace_block, set_value, apply_edits, apply_plan, apply_patch,
+rename_symbol and restore_backup. undo walks that journal backwards.
+
+Examples:
+  // Revert the last operation, whatever files it touched
+  undo({})
+  
+  // Revert the last three operations
+  undo({ count: 3 })
+  
+  // Changed your mind
+  redo({})
+
+Conflicts:
+- If a file was changed outside smalledit since the operation, undo refuses
+  and lists each conflicting file with the expected and actual hash
+- Nothing is written unless every file matches
+`,
+  redo: `redo - Reapply undone operations
+================================
+Reapplies operations reverted with undo, most recently undone first.
+
+Examples:
+  redo({})
+  redo({ count: 2 })
+
+Any new edit clears the redo list. Like undo, redo refuses with a conflict
+report if a file changed outside smalledit in the meantime.
 `,
   read_file: `read_file - Read and examine file contents
 ===========================================
@@ -735,6 +622,19 @@ Modes:
 - Line range: Shows specific lines ("start-end" format)
 - Search: Shows matches with surrounding context
 
+Every result ends with the file's sha256 hash and mtime:
+  read_file({ file: "config.js" })  // ... sha256: 3f2a...  mtime: 2025-01-01T12:00:00.000Z
+  sed_edit({ file: "config.js", pattern: "s/8080/3000/", expectedHash: "3f2a..." })
+The edit fails with "File changed since read" if the file no longer has that hash.
+
+Large and binary files:
+- Files over 16 MB are streamed: line ranges and searches never load the whole
+  file, and an index of line offsets makes later reads of far lines fast
+  read_file({ file: "logs/app.log", lines: "5000000-5000020" })
+  Streamed files report only their mtime, not a hash
+- Binary files (NUL bytes, mostly invalid UTF-8) get a hex summary of their
+  first bytes; the other tools refuse to search or edit them
+
 Perfect for:
 - Verifying edits without using brain
 - Understanding file structure
@@ -773,6 +673,155 @@ Great for:
 - Finding where to make edits
 - Code review and debugging
 - Locating specific patterns
+`,
+  search_files: `search_files - Search across a project
+=====================================
+Walk a directory, search every matching file for a regex, and get results grouped
+by file. Use it to find edit targets before sed_edit or line_edit.
+
+Examples:
+  // Where is a function used?
+  search_files({ pattern: "loadConfig\\(" })
+  
+  // Only TypeScript sources, no tests, literal text
+  search_files({
+    pattern: "TODO(",
+    fixedStrings: true,
+    include: ["src/**/*.{ts,tsx}", "!**/*.test.ts"]
+  })
+  
+  // More context, fewer results
+  search_files({ pattern: "class \\w+Error", context: 5, maxResults: 20 })
+
+Output (ripgrep style):
+  src/config.ts (2 matches)
+  38-
+  39:17:export function loadConfig(argv: string[] = process.argv.slice(2)) {
+  40-  const rootFlag = ...
+
+- "line:column:text" for matches, "line-text" for context, "--" between groups
+- Per-file match counts; maxPerFile and maxResults cap what is shown
+- Skips node_modules, .git, binary files and anything in .gitignore/.ignore/.smalleditignore
+`,
+  plan_replace: `plan_replace / apply_plan - Reviewed multi-file replace
+=====================================================
+plan_replace finds every line a regex replacement would change under a directory and
+saves them as a plan of numbered hunks. Nothing is written until apply_plan.
+
+Examples:
+  // 1. Plan the rename
+  plan_replace({ find: "\\bgetUser\\b", replace: "fetchUser", include: "src/**/*.ts" })
+
+  // Output:
+  //   Plan plan-1a2b3c4d: 3 hunks in 2 files ...
+  //   #1 src/api.ts:14
+  //   - export function getUser(id: string) {
+  //   + export function fetchUser(id: string) {
+
+  // 2a. Apply everything
+  apply_plan({ planId: "plan-1a2b3c4d" })
+
+  // 2b. Or drop false positives by listing only the hunks to keep
+  apply_plan({ planId: "plan-1a2b3c4d", hunks: [1, 3] })
+
+Notes:
+- One hunk per changed line; $1 and $& work in replace unless fixedStrings is set
+- apply_plan refuses if any planned file changed since plan_replace
+- All files are written together and undo reverts them in one step
+- dryRun: true on apply_plan shows the diff of the chosen hunks
+- Plans are removed once applied, and unused ones after a day
+`,
+  apply_plan: `apply_plan - see help({ tool: "plan_replace" })
+`,
+  apply_edits: `apply_edits - Several edits in one call
+=======================================
+Apply an ordered list of edits to one or more files. Line numbers always refer to
+the file as it was before the call, so edits do not have to account for each other.
+
+Edit types:
+  replace_text   { find, replace, all? }         exact text, may span lines
+  substitute     { pattern, replace, flags? }    JavaScript regex, $1 in replace
+  replace_lines  { startLine, endLine?, content }
+  insert         { line, content }               after line; 0 = top of file
+  delete         { startLine, endLine? }
+
+Example:
+  apply_edits({
+    edits: [
+      { file: "src/app.ts", type: "insert", line: 0, content: "import { log } from './log';" },
+      { file: "src/app.ts", type: "replace_lines", startLine: 12, endLine: 14, content: "  return cached;" },
+      { file: "src/app.ts", type: "delete", startLine: 40 },
+      { file: "README.md", type: "replace_text", find: "v1.2.0", replace: "v1.3.0", all: true }
+    ],
+    dryRun: true
+  })
+
+Notes:
+- Everything is computed before anything is written; one failing edit changes no file
+- A line edit on lines an earlier edit already replaced is refused
+- One combined diff for dryRun, one backup per file and one undo for the whole call
+`,
+  apply_patch: `apply_patch - Apply a unified diff to one or more files
+=====================================================================
+Takes the output of git diff or diff -u and applies every hunk, like patch(1).
+A hunk that is not at the line its header names is searched for nearby, and with
+fuzz up to that many context lines at either end may differ (default 2).
+
+  apply_patch({ patch: "--- a/src/app.ts\\n+++ b/src/app.ts\\n@@ -10,3 +10,3 @@\\n ...", dryRun: true })
+
+  // Paths without a/ b/ prefixes to remove, or with more to remove
+  apply_patch({ patch: "...", strip: 0 })
+  apply_patch({ patch: "...", strip: 2 })
+
+  // Only exact matches, at any offset
+  apply_patch({ patch: "...", fuzz: 0 })
+
+Files created from /dev/null are created, and files patched to /dev/null deleted.
+Each hunk is reported with the line it applied at, its offset and the fuzz used.
+
+Notes: if any hunk fails nothing is written, and the report says which hunk and
+why, including hunks that look already applied. All files are written together,
+with one backup each, and undo reverts them as one step. Renames are not supported.
+`,
+  rename_symbol: `rename_symbol - Rename a symbol across a TypeScript/JavaScript project
+=====================================================================
+Uses the TypeScript language service with the nearest tsconfig.json (or
+jsconfig.json) to rename a variable, function, class, type, property or
+parameter and every real reference to it. Imports and re-exports follow the new
+name. Strings, comments and unrelated symbols with the same name are left alone,
+unlike a regex replace with sed_multifile.
+
+Locate the symbol by line and column (1-based), or by line and oldName:
+  rename_symbol({ file: "src/users.ts", line: 12, oldName: "getUser", newName: "fetchUser", dryRun: true })
+  rename_symbol({ file: "src/users.ts", line: 12, column: 17, newName: "fetchUser" })
+
+  // A project other than the nearest one
+  rename_symbol({ file: "packages/api/src/db.ts", line: 3, oldName: "pool", newName: "db", project: "packages/api/tsconfig.build.json" })
+
+Notes: the rename can start at any reference, including an import. Shorthand
+properties keep their name ({ getUser } becomes { getUser: fetchUser }). All
+files are written together, with one backup each, and undo reverts them as one step.
+`,
+  outline: `outline - Symbols of a file with their line ranges
+===========================================================
+Lists what a file defines, nested, with the first and last line of each, so a
+symbol can be read or edited without searching for it first.
+
+- TypeScript/JavaScript: functions, classes and their members, interfaces,
+  types, enums, namespaces and top-level variables (object literals included)
+- Markdown: headings, nested by level; each section runs to the next heading
+- JSON, YAML: top-level keys; TOML: top-level keys and [tables]
+- Other text: lines that open an indented block (def, func, class, ...), with
+  if/for/while and similar blocks left out
+
+Examples:
+  outline({ file: "src/users.ts" })
+  //   class UserService (lines 10-58)
+  //     method getUser (lines 12-20)
+  read_file({ file: "src/users.ts", lines: "12-20" })
+
+  // Top-level symbols only
+  outline({ file: "README.md", depth: 1 })
 `,
   show_around_line: `show_around_line - Show context around specific lines
 ===================================================
@@ -800,6 +849,41 @@ Perfect for:
 - Understanding code context
 - Quick inspection after changes
 - Debugging specific line issues
+`,
+  git_status: `git_status / git_diff / git_commit - Local git
+==============================================
+Run the workspace's own git, so changes can be reviewed and committed without a
+shell. Files that smalledit wrote after the last commit, in operations that have
+not been undone, are marked; a file edited before that is not, even if someone
+else changed it since.
+
+Examples:
+  // What changed, and what smalledit changed
+  git_status({})
+  git_status({ path: "src" })
+
+  // The uncommitted changes, of everything or one file
+  git_diff({})
+  git_diff({ file: "src/app.ts", context: 10 })
+  git_diff({ staged: true })
+
+  // Commit the files smalledit edited since the last commit (other staged
+  // changes stay out)
+  git_commit({ message: "Bump version to 1.3.0" })
+
+  // Or name the files, or take every change including untracked files
+  git_commit({ message: "Update docs", files: ["README.md", "docs/setup.md"] })
+  git_commit({ message: "WIP", all: true })
+
+Notes:
+- With --require-clean (or SMALLEDIT_REQUIRE_CLEAN=true) edits to files with
+  uncommitted changes are refused unless the call passes force: true, so every
+  edit can be undone with git; new files and restores are not affected
+- The .smalledit directory is never listed or committed
+`,
+  git_diff: `git_diff - see help({ tool: "git_status" })
+`,
+  git_commit: `git_commit - see help({ tool: "git_status" })
 `
 };
 
@@ -807,512 +891,1077 @@ Perfect for:
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
   
+  // Files written during this call are journaled as one operation for undo/redo
+  const operation = beginOperation(config, name, args);
+  
+  return withWarnings(await callTool(name, args, operation), operation.warnings);
+});
+
+async function callTool(name: string, args: unknown, operation: Operation) {
   try {
     switch (name) {
       case 'sed_edit': {
-        const { file, pattern, backup = true, preview = false } = args as ToolArg<'sed_edit'>;
+        const { file, pattern, backup, preview, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
+        const filePath = resolvePath(config, file);
         
-        // Check if file exists
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
-        }
+        const original = await readText(filePath);
+        await assertUnchanged(filePath, file, original, { expectedHash, expectedMtime });
         
-        // Build sed command - use perl for better compatibility
-        let sedCmd;
-        if (preview) {
-          // For preview, create a temp copy and diff
-          const tempFile = `${file}.preview.tmp`;
-          await execAsync(`rm -f .bak; cp '${file}' '${tempFile}'`);
-          
-          // Apply change to temp file
-          sedCmd = `perl -i -pe '${pattern}' '${tempFile}' && diff -u '${file}' '${tempFile}' | head -50; rm -f '${tempFile}'`;
-        } else {
-          // Use perl for actual edits (more portable than sed)
-          const backupExt = backup ? '.bak' : '';
-          sedCmd = `perl -i${backupExt} -pe '${pattern}' '${file}'`;
-        }
-        
-        const { stdout, stderr } = await execAsync(sedCmd);
+        // Run the sed script with the built-in engine; no external binary is involved
+        const stats: SedStats = { substitutions: 0 };
+        const updated = applySed(pattern, original, stats);
         
-        if (stderr) {
-          throw new Error(`Sed error: ${stderr}`);
+        if (preview || dryRun) {
+          return diffResult(name, 'Preview of changes:', [{ file: file, diff: unifiedDiff(file, original, updated) }], page, { replacements: stats.substitutions });
         }
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: preview ? 
-                `Preview of changes:\n${stdout || 'No changes would be made'}` :
-                `Successfully edited ${file}${backup ? ' (backup created as .bak)' : ''}`
-            }
-          ]
-        };
+        const version = await saveEdit(filePath, original, updated, operation, backup);
+        
+        return toolResult(name,
+          updated === original ?
+            `No changes to ${file}: the script changed nothing, so the file was not written` :
+            `Successfully edited ${file}${version ? ` (backup version ${version.id})` : ''}`,
+          summarizeEdits([describeEdit(file, original, updated, version, stats.substitutions)]));
       }
       
       case 'sed_multifile': {
-        const { pattern, filePattern, directory = '.', backup = true } = args as ToolArg<'sed_multifile'>;
+        const { pattern, filePattern, exclude = [], defaultExcludes, ignoreFiles, directory, backup, atomic, dryRun, page, expectedHashes = {} } = parseArgs(name, args);
         
-        // Use find to get files matching pattern
-        const findCmd = `find ${directory} -name "${filePattern}" -type f`;
-        const { stdout: files } = await execAsync(typeof findCmd === 'string' ? findCmd : '');
+        const searchDir = resolvePath(config, directory, 'directory');
+        const patterns = Array.isArray(filePattern) ? filePattern : [filePattern];
+        const { files: found, skipped } = await walkFiles(searchDir, createMatcher(patterns, exclude), {
+          skipDirs: defaultExcludes ? DEFAULT_EXCLUDED_DIRS : [],
+          ignoreFiles,
+          root: config.root
+        });
+        
+        // Files blocked by the path policy are left out rather than failing the whole run
+        const matchedBy = new Map(found
+          .filter((entry) => !findViolation(config, entry.path))
+          .map((entry) => [toRelative(config, entry.path), entry.pattern]));
+        const fileList = [...matchedBy.keys()];
+        
+        // Report the pattern that selected each file and what was skipped, in the text and the JSON payload
+        const label = (file: string) => `${file} [${matchedBy.get(file)}]`;
+        const skippedNote = skipped.length > 0 ? `\n\n${describeSkipped(skipped)}` : '';
+        const tagged = (result: EditResult): EditResult => ({
+          ...result,
+          files: result.files.map((entry) => ({ ...entry, pattern: matchedBy.get(entry.file) })),
+          skipped
+        });
+        
+        if (fileList.length === 0) {
+          return toolResult(name, `No files found matching pattern: ${patterns.join(', ')}${skippedNote}`, tagged(summarizeEdits([], dryRun)));
+        }
+        
+        if (dryRun) {
+          const diffs: FileDiff[] = [];
+          const failures: FileEditResult[] = [];
+          const stats: SedStats = { substitutions: 0 };
+          
+          for (const file of fileList) {
+            try {
+              const filePath = resolvePath(config, file);
+              const original = await readText(filePath);
+              await assertUnchanged(filePath, file, original, { expectedHash: hashFor(expectedHashes, file) });
+              diffs.push({ file, diff: unifiedDiff(file, original, applySed(pattern, original, stats)) });
+            } catch (error) {
+              failures.push(failedEdit(file, error));
+            }
+          }
+          
+          const failed = failures.map((entry) => `✗ ${label(entry.file)}: ${entry.error}`);
+          const counts = patterns.flatMap((entry) => {
+            const matched = fileList.filter((file) => matchedBy.get(file) === entry).length;
+            return matched > 0 ? [`${entry} (${matched})`] : [];
+          });
+          const title = `Dry run over ${fileList.length} files matched by ${counts.join(', ')}, no files were changed:${failed.length > 0 ? `\n${failed.join('\n')}` : ''}${skipped.length > 0 ? `\n${describeSkipped(skipped)}` : ''}`;
+          return toolResult(name, renderDiffReport(title, diffs, page), tagged(summarizeDiffs(diffs, page, { failures, replacements: stats.substitutions })));
+        }
         
-        if (!files.trim()) {
-          return {
-            content: [{
-              type: 'text',
-              text: `No files found matching pattern: ${filePattern}`
-            }]
-          };
+        if (atomic) {
+          // Compute every new version first; nothing is written unless all files succeed
+          const staged: StagedEdit[] = [];
+          const counts: number[] = [];
+          const failures: FileEditResult[] = [];
+          let unchanged = 0;
+          
+          for (const file of fileList) {
+            try {
+              const filePath = resolvePath(config, file);
+              const original = await readText(filePath);
+              await assertUnchanged(filePath, file, original, { expectedHash: hashFor(expectedHashes, file) });
+              const stats: SedStats = { substitutions: 0 };
+              const updated = applySed(pattern, original, stats);
+              if (updated !== original) {
+                staged.push({ file: filePath, original, updated });
+                counts.push(stats.substitutions);
+              } else {
+                unchanged++;
+              }
+            } catch (error) {
+              failures.push(failedEdit(file, error));
+            }
+          }
+          
+          let versions: Awaited<ReturnType<typeof commitAtomically>> = [];
+          let commitError = '';
+          if (failures.length === 0) {
+            try {
+              versions = await commitAtomically(staged, operation, backup);
+            } catch (error) {
+              commitError = error instanceof Error ? error.message : String(error);
+            }
+          }
+          
+          if (failures.length > 0 || commitError) {
+            const failed = failures.map((entry) => `✗ ${label(entry.file)}: ${entry.error}`);
+            if (commitError) failed.push(`✗ ${commitError}`);
+            return toolResult(name,
+              `Rolled back all ${fileList.length} files, no files were changed (${failed.length} failed):\n${failed.join('\n')}${skippedNote}`,
+              { ...tagged(summarizeEdits(failures)), committed: false });
+          }
+          
+          const edits = staged.map((edit, index) =>
+            describeEdit(toRelative(config, edit.file), edit.original, edit.updated, versions[index], counts[index])
+          );
+          return toolResult(name,
+            `Committed ${staged.length} files (${unchanged} unchanged):\n${edits.map((edit) => `✓ ${label(edit.file)}`).join('\n')}${skippedNote}`,
+            { ...tagged(summarizeEdits(edits)), committed: true });
         }
         
-        const fileList = files.trim().split('\n');
         const results = [];
+        const edits: FileEditResult[] = [];
         
         for (const file of fileList) {
           try {
-            const backupExt = backup ? '.bak' : '';
-            const sedCmd = `perl -i${backupExt} -pe '${pattern}' '${file}'`;
-            await execAsync(typeof sedCmd === 'string' ? sedCmd : '');
-            results.push(`✓ ${file}`);
+            const filePath = resolvePath(config, file);
+            const original = await readText(filePath);
+            await assertUnchanged(filePath, file, original, { expectedHash: hashFor(expectedHashes, file) });
+            const stats: SedStats = { substitutions: 0 };
+            const updated = applySed(pattern, original, stats);
+            const version = await saveEdit(filePath, original, updated, operation, backup);
+            edits.push(describeEdit(file, original, updated, version, stats.substitutions));
+            results.push(updated === original ? `- ${label(file)}: unchanged` : `✓ ${label(file)}`);
           } catch (error) {
-            results.push(`✗ ${file}: ${(error as any).message}`);
+            edits.push(failedEdit(file, error));
+            results.push(`✗ ${label(file)}: ${error instanceof Error ? error.message : String(error)}`);
           }
         }
         
-        return {
-          content: [{
-            type: 'text',
-            text: `Processed ${fileList.length} files:\n${results.join('\n')}`
-          }]
-        };
+        return toolResult(name, `Processed ${fileList.length} files:\n${results.join('\n')}${skippedNote}`, tagged(summarizeEdits(edits)));
       }
       
       case 'awk_process': {
-        const { file, script, outputFile } = args as ToolArg<'awk_process'>;
+        const { file, script, outputFile, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
         
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
-        }
+        const input = await readText(resolvePath(config, file));
+        const stdout = await awkTransform(script, input, { cwd: config.root });
         
-        let awkCmd = `awk '${script}' '${file}'`;
         if (outputFile) {
-          awkCmd += ` > '${outputFile}'`;
-        }
-        
-        const { stdout, stderr } = await execAsync(typeof awkCmd === 'string' ? awkCmd : '');
-        
-        if (stderr) {
-          throw new Error(`AWK error: ${stderr}`);
+          const outputPath = resolvePath(config, outputFile);
+          const previous = existsSync(outputPath) ? await readText(outputPath) : null;
+          await assertUnchanged(outputPath, outputFile, previous, { expectedHash, expectedMtime });
+          
+          if (dryRun) {
+            return diffResult(name, 'Dry run: no files were changed', [{ file: outputFile, diff: unifiedDiff(outputFile, previous ?? '', stdout) }], page);
+          }
+          const version = await saveEdit(outputPath, previous, stdout, operation);
+          
+          return toolResult(name,
+            `Processed ${file} -> ${outputFile}`,
+            summarizeEdits([describeEdit(outputFile, previous ?? '', stdout, version)]));
         }
         
-        return {
-          content: [{
-            type: 'text',
-            text: outputFile ? 
-              `Processed ${file} -> ${outputFile}` :
-              stdout || 'AWK processing complete'
-          }]
-        };
+        return toolResult(name, stdout || 'AWK processing complete', { ...summarizeEdits([]), output: stdout });
       }
       
       case 'quick_replace': {
-        const { file, find, replace, all = true } = args as ToolArg<'quick_replace'>;
+        const { file, find, replace, all, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
         
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+        if (!find) {
+          throw new McpError(ErrorCode.InvalidParams, 'find must not be empty');
         }
+        const filePath = resolvePath(config, file);
+        const original = await readText(filePath);
+        await assertUnchanged(filePath, file, original, { expectedHash, expectedMtime });
         
-        // Escape special characters for sed
-        const escapedFind = (typeof find === 'string' ? find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/'/g, "'\\''") : '');
-        const escapedReplace = (typeof replace === 'string' ? replace.replace(/[&/\\]/g, '\\$&').replace(/'/g, "'\\''") : '');
-
-        const pattern = all ?
-          `s/${escapedFind}/${escapedReplace}/g` :
-          `s/${escapedFind}/${escapedReplace}/`;
+        // find and replace are exact strings, newlines included
+        const occurrences = findOccurrences(original, find);
+        const chosen = all ? occurrences : occurrences.slice(0, 1);
+        const updated = replaceOccurrences(original, chosen, find, replace);
+        const replacements = chosen.length;
         
-        const sedCmd = `sed -i.bak '${pattern}' '${file}'`;
-        await execAsync(typeof sedCmd === 'string' ? sedCmd : '');
+        if (dryRun) {
+          return diffResult(name, 'Dry run: no files were changed', [{ file: file, diff: unifiedDiff(file, original, updated) }], page, { replacements });
+        }
+        if (replacements === 0) {
+          return toolResult(name, `No occurrences of "${find}" found in ${file}; nothing was changed`, summarizeEdits([describeEdit(file, original, updated, undefined, 0)]));
+        }
+        const version = await saveEdit(filePath, original, updated, operation);
         
-        return {
-          content: [{
-            type: 'text',
-            text: `Replaced "${find}" with "${replace}" in ${file}`
-          }]
-        };
+        return toolResult(name,
+          `Replaced ${replacements} occurrence(s) of "${find}" with "${replace}" in ${file}`,
+          summarizeEdits([describeEdit(file, original, updated, version, replacements)]));
       }
       
-      case 'line_edit': {
-        const { file, lineNumber, lineRange, action, content } = args as ToolArg<'line_edit'>;
+      case 'replace_block': {
+        const { file, oldText, newText, expectedCount, backup, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
         
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+        if (!oldText) {
+          throw new McpError(ErrorCode.InvalidParams, 'oldText must not be empty');
         }
+        const filePath = resolvePath(config, file);
+        const original = await readText(filePath);
+        await assertUnchanged(filePath, file, original, { expectedHash, expectedMtime });
         
-        let sedCmd = 'sed -i.bak ';
-        const range = lineRange || `${lineNumber}`;
-
-        // Escape single quotes in content for sed
-        const escapedContent = content ? String(content).replace(/'/g, "'\\''") : '';
-
-        switch (action) {
-          case 'replace':
-            sedCmd += `'${range}s/.*/${escapedContent}/' '${file}'`;
-            break;
-          case 'delete':
-            sedCmd += `'${range}d' '${file}'`;
-            break;
-          case 'insert_after':
-            sedCmd += `'${range}a\\
-${escapedContent}' '${file}'`;
-            break;
-          case 'insert_before':
-            sedCmd += `'${range}i\\
-${escapedContent}' '${file}'`;
-            break;
-          default:
-            throw new Error(`Unknown action: ${action}`);
+        const occurrences = findOccurrences(original, oldText);
+        if (occurrences.length === 0) {
+          throw new Error(`oldText not found in ${file}; nothing was changed`);
         }
+        if (occurrences.length !== expectedCount) {
+          throw new Error(`oldText occurs ${occurrences.length} times in ${file} (at ${formatLocations(occurrences)}), expected ${expectedCount}; nothing was changed. Include more surrounding lines to make it unique.`);
+        }
+        const updated = replaceOccurrences(original, occurrences, oldText, newText);
         
-        await execAsync(typeof sedCmd === 'string' ? sedCmd : '');
+        if (dryRun) {
+          return diffResult(name, 'Dry run: no files were changed', [{ file: file, diff: unifiedDiff(file, original, updated) }], page, { replacements: occurrences.length });
+        }
+        const version = await saveEdit(filePath, original, updated, operation, backup);
         
-        return {
-          content: [{
-            type: 'text',
-            text: `Successfully performed ${action} on line(s) ${range} in ${file}`
-          }]
-        };
+        return toolResult(name,
+          `Replaced ${occurrences.length} block(s) at ${formatLocations(occurrences)} in ${file}${version ? ` (backup version ${version.id})` : ''}`,
+          summarizeEdits([describeEdit(file, original, updated, version, occurrences.length)]));
       }
       
-      case 'perl_edit': {
-        const { file, script, backup = true, multiline = false } = args as ToolArg<'diff_preview'>;
+      case 'set_value': {
+        const { file, path, action, value, format, backup, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
+        
+        if (value === undefined && (action === 'set' || action === 'append')) {
+          throw new McpError(ErrorCode.InvalidParams, `value is required for action "${action}"`);
+        }
+        const editor = editorFor(file, format);
+        const keyPath = parseKeyPath(path);
+        const filePath = resolvePath(config, file);
+        const original = await readText(filePath);
         
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+        if (action === 'get') {
+          const current = editor.get(original, keyPath);
+          return toolResult(name, `${formatKeyPath(keyPath)} in ${file}:\n${JSON.stringify(current, null, 2)}`,
+            { ...summarizeEdits([]), value: current });
         }
+        await assertUnchanged(filePath, file, original, { expectedHash, expectedMtime });
         
-        const backupExt = backup ? '.bak' : '';
-        const multilineFlag = multiline ? '-0777 ' : '';
-        const perlCmd = `perl -i${backupExt} ${multilineFlag}-pe '${script}' '${file}'`;
+        // Arguments arrive as JSON, so the value is plain data
+        const data = value as DataValue;
+        const updated = action === 'delete' ? editor.remove(original, keyPath) :
+          action === 'append' ? editor.append(original, keyPath, data) :
+          editor.set(original, keyPath, data);
         
-        await execAsync(typeof perlCmd === 'string' ? perlCmd : '');
+        if (dryRun) {
+          return diffResult(name, 'Dry run: no files were changed', [{ file: file, diff: unifiedDiff(file, original, updated) }], page);
+        }
+        const version = await saveEdit(filePath, original, updated, operation, backup);
+        const done = action === 'delete' ? 'Deleted' : action === 'append' ? 'Appended to' : 'Set';
         
-        return {
-          content: [{
-            type: 'text',
-            text: `Successfully edited ${file} using Perl${backup ? ' (backup created as .bak)' : ''}`
-          }]
-        };
+        return toolResult(name,
+          `${done} ${formatKeyPath(keyPath)} in ${file}${version ? ` (backup version ${version.id})` : ''}`,
+          summarizeEdits([describeEdit(file, original, updated, version)]));
       }
       
-      case 'diff_preview': {
-        const { file, command, tool = 'perl' } = args as ToolArg<'perl_edit'>;
+      case 'line_edit': {
+        const { file, lineNumber, lineRange, action, content, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
         
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+        if (lineNumber === undefined && lineRange === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'Missing lineNumber or lineRange: line_edit needs the line(s) to edit');
         }
+        if (lineNumber !== undefined && lineRange !== undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'Pass either lineNumber or lineRange, not both');
+        }
+        if (action !== 'delete' && content === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing content: action "${action}" needs the text to write (pass "" for an empty line)`);
+        }
+        const filePath = resolvePath(config, file);
+        const original = await readText(filePath);
+        await assertUnchanged(filePath, file, original, { expectedHash, expectedMtime });
         
-        // Create temp file
-        const tempFile = `${file}.preview.tmp`;
-        await execAsync(`rm -f .bak; cp '${file}' '${tempFile}'`);
+        const range = lineRange ?? String(lineNumber);
+        const { start, end } = parseLineRange(range, splitLines(original).lines.length);
         
-        // Apply command to temp file
-        let editCmd;
-        switch (tool) {
-          case 'perl':
-            editCmd = `perl -i -pe '${command}' '${tempFile}'`;
-            break;
-          case 'sed':
-            editCmd = `sed -i.tmp '${command}' '${tempFile}' && rm -f '${tempFile}.tmp'`;
-            break;
-          case 'awk':
-            editCmd = `awk '${command}' '${tempFile}' > '${tempFile}.new' && mv '${tempFile}.new' '${tempFile}'`;
-            break;
+        // content is inserted exactly as given; a range is replaced by it once
+        const updated = editLines(original, start, end, action, content ?? '');
+        
+        if (dryRun) {
+          return diffResult(name, 'Dry run: no files were changed', [{ file: file, diff: unifiedDiff(file, original, updated) }], page);
         }
+        const version = await saveEdit(filePath, original, updated, operation);
+        
+        return toolResult(name,
+          `Successfully performed ${action} on line(s) ${range} in ${file}`,
+          summarizeEdits([describeEdit(file, original, updated, version)]));
+      }
+      
+      case 'perl_edit': {
+        const { file, script, backup, multiline, dryRun, page, expectedHash, expectedMtime } = parseArgs(name, args);
+        
+        const filePath = resolvePath(config, file);
+        const original = await readText(filePath);
+        await assertUnchanged(filePath, file, original, { expectedHash, expectedMtime });
+        const updated = await perlTransform(script, original, { multiline: multiline, cwd: config.root });
         
-        await execAsync(typeof editCmd === 'string' ? editCmd : '');
+        if (dryRun) {
+          return diffResult(name, 'Dry run: no files were changed', [{ file: file, diff: unifiedDiff(file, original, updated) }], page);
+        }
+        const version = await saveEdit(filePath, original, updated, operation, backup);
+        
+        return toolResult(name,
+          `Successfully edited ${file} using Perl${version ? ` (backup version ${version.id})` : ''}`,
+          summarizeEdits([describeEdit(file, original, updated, version)]));
+      }
+      
+      case 'diff_preview': {
+        const { file, command, tool, page } = parseArgs(name, args);
         
-        // Generate diff
-        const { stdout } = await execAsync(`diff -u '${file}' '${tempFile}' || true`);
+        const original = await readText(resolvePath(config, file));
         
-        // Cleanup
-        await execAsync(`rm -f '${tempFile}'`);
+        // Apply command to an in-memory copy; the original file is never touched
+        const updated = await transformWith(tool, command, original, config.root);
         
-        return {
-          content: [{
-            type: 'text',
-            text: stdout ? `Preview of changes:\n${stdout}` : 'No changes would be made'
-          }]
-        };
+        return diffResult(name, 'Preview of changes:', [{ file: file, diff: unifiedDiff(file, original, updated) }], page);
       }
       
       case 'help': {
-        const { tool = 'all' } = args as ToolArg<'perl_edit'>;
+        const { tool } = parseArgs(name, args);
         
         const helpKey = tool === 'all' ? 'overview' : tool;
-        const toolKey = String(helpKey) as keyof typeof helpContent;
+        const toolKey = helpKey as keyof typeof helpContent;
         const content = helpContent[toolKey] || `No help available for tool: ${tool}\n\nAvailable tools: ${Object.keys(helpContent).join(', ')}`;
 
-        return {
-          content: [{
-            type: 'text',
-            text: content
-          }]
-        };
+        return toolResult(name, content, { topic: helpKey, available: Object.keys(helpContent) });
       }
       
       case 'restore_backup': {
-        const { file, keepBackup = true } = args as ToolArg<'restore_backup'>;
+        const { file, version, steps, keepBackup, expectedHash, expectedMtime } = parseArgs(name, args);
         
-        const backupFile = `${file}.bak`;
+        const filePath = resolvePath(config, file);
+        const target = await findVersion(config, filePath, {
+          version,
+          steps: steps
+        });
         
-        // Check if backup exists
-        if (typeof backupFile === 'string' && !existsSync(backupFile)) {
-          // Look for other common backup patterns
+        if (!target) {
+          const versions = await listVersions(config, filePath);
+          if (versions.length > 0) {
+            throw new Error(version ?
+              `No backup version ${version} for ${file}` :
+              `Cannot go back ${steps} steps: ${file} has ${versions.length} backup versions`);
+          }
+          
+          // Look for backups made by older releases or other tools
           const alternatives = [
+            `${file}.bak`,
             `${file}~`,
             `${file}.backup`,
             `${file}.orig`
-          ].filter(existsSync);
+          ].filter((candidate) => existsSync(resolve(config.root, candidate)));
           
           if (alternatives.length > 0) {
-            throw new Error(`No .bak file found, but found: ${alternatives.join(', ')}`);
+            throw new Error(`No backup versions for ${file}, but found: ${alternatives.join(', ')}`);
           }
           throw new Error(`No backup file found for ${file}`);
         }
         
-        // Read backup content
-        const backupContent = await readFile(typeof backupFile === 'string' ? backupFile : '', 'utf-8');
-        
-        // Check if current file exists and create a safety backup
-        if (typeof file === 'string' && existsSync(file)) {
-          await writeFile(`${file}.before-restore`, await readFile(typeof file === 'string' ? file : '', 'utf-8'));
-        }
+        // Snapshots are exact bytes and are written back as they are
+        const backupContent = await readVersion(config, target);
         
-        // Restore the backup
-        await writeFile(typeof file === 'string' ? file : '', backupContent);
+        // Snapshot the current content first so the restore itself can be reverted
+        const current = existsSync(filePath) ? await readText(filePath) : null;
+        await assertUnchanged(filePath, file, current, { expectedHash, expectedMtime });
+        const unchanged = current !== null && (await readFile(filePath)).equals(backupContent);
+        const safety = await saveEdit(filePath, current, backupContent, operation);
         
         // Remove backup if requested
         if (!keepBackup) {
-          await execAsync(`rm -f '${backupFile}'`);
+          await deleteVersion(config, target);
         }
         
-        return {
-          content: [{
-            type: 'text',
-            text: `Successfully restored ${file} from backup${!keepBackup ? ' (backup removed)' : ''}\nSafety backup created: ${file}.before-restore`
-          }]
-        };
+        return toolResult(name,
+          `Successfully restored ${file} from version ${target.id} (${target.tool}, ${target.createdAt})${!keepBackup ? ' (backup removed)' : ''}` +
+            (safety ? `\nSafety backup created: version ${safety.id}` : ''),
+          {
+            file: target.file,
+            restoredVersion: target.id,
+            backupPath: versionPath(target),
+            ...(safety && { safetyBackupPath: versionPath(safety) }),
+            backupRemoved: !keepBackup,
+            filesChanged: unchanged ? [] : [target.file]
+          });
       }
       
       case 'list_backups': {
-        const { directory = '.', pattern = '*.bak' } = args as ToolArg<'sed_multifile'>;
+        const { directory, pattern, exclude = [] } = parseArgs(name, args);
         
-        // Find all backup files
-        const findCmd = `find ${directory} -name "${pattern}" -type f | head -100`;
-        const { stdout } = await execAsync(typeof findCmd === 'string' ? findCmd : '');
+        const searchDir = toRelative(config, resolvePath(config, directory, 'directory'));
+        const patterns = Array.isArray(pattern) ? pattern : [pattern];
+        const matcher = createMatcher(patterns, exclude);
+        const history = await listAllVersions(config);
         
-        if (!stdout.trim()) {
-          return {
-            content: [{
-              type: 'text',
-              text: `No backup files found matching pattern: ${pattern}`
-            }]
-          };
+        const sections = [];
+        const listed: ToolResultMap['list_backups']['files'] = [];
+        let total = 0;
+        for (const [file, versions] of history) {
+          // Patterns are relative to the directory, as in sed_multifile
+          if (searchDir && !file.startsWith(`${searchDir}/`)) {
+            continue;
+          }
+          const matched = matcher.match(searchDir ? file.slice(searchDir.length + 1) : file);
+          if (matched === undefined) {
+            continue;
+          }
+          total += versions.length;
+          listed.push({ file, pattern: matched, versions: versions.map((entry) => ({ ...entry, backupPath: versionPath(entry) })) });
+          
+          const lines = versions.map((entry, index) => {
+            const date = entry.createdAt.replace('T', ' ').slice(0, 19);
+            const argsSummary = JSON.stringify(entry.args);
+            const shortArgs = argsSummary.length > 80 ? `${argsSummary.slice(0, 77)}...` : argsSummary;
+            return `  [${index + 1}] ${entry.id}  ${date}  ${entry.size} bytes  ${entry.tool} ${shortArgs}`;
+          });
+          sections.push(`${file} (${versions.length} versions, matched ${matched})\n${lines.join('\n')}`);
         }
         
-        const files = stdout.trim().split('\n');
-        
-        // Get file info for each backup
-        const backupInfo = [];
-        for (const backupFile of files) {
-          try {
-            const stats = await execAsync(`stat -f "%m %z" '${backupFile}' 2>/dev/null || stat -c "%Y %s" '${backupFile}'`);
-            const [mtime, size] = stats.stdout.trim().split(' ');
-            const date = new Date(parseInt(mtime) * 1000).toISOString().split('T')[0];
-            const sizeKB = Math.round(parseInt(size) / 1024);
-            
-            // Infer original file name
-            const originalFile = (typeof backupFile === 'string' ? backupFile.replace(/\.(bak|backup|orig|~)$/, '') : '');
-            backupInfo.push(`${backupFile} (${sizeKB}KB, ${date}) -> ${originalFile}`);
-          } catch {
-            backupInfo.push(backupFile);
-          }
+        if (sections.length === 0) {
+          return toolResult(name, `No backup versions found in ${directory} matching pattern: ${patterns.join(', ')}`, { total, files: listed });
         }
         
-        return {
-          content: [{
-            type: 'text',
-            text: `Found ${files.length} backup files:\n\n${backupInfo.join('\n')}\n\nTip: Use restore_backup to restore any of these files`
-          }]
-        };
+        return toolResult(name,
+          `Found ${total} backup versions of ${sections.length} files ([N] = steps back):\n\n${sections.join('\n\n')}\n\n` +
+            'Tip: Use restore_backup with a version id or steps to restore any of these versions',
+          { total, files: listed });
       }
 
-      case 'read_file': {
-        const { file, lines, search, context = 3 } = args as ToolArg<'read_file'>;
+      case 'undo':
+      case 'redo': {
+        const { count } = parseArgs(name, args);
+        
+        const result = await replay(config, name, count);
+        const summary = result.operations.map((entry) =>
+          `  ${entry.id} ${entry.tool} (${entry.files.map((changed) => changed.file).join(', ')})`
+        );
+        
+        return toolResult(name,
+          `${name === 'undo' ? 'Undid' : 'Redid'} ${result.operations.length} operation(s), ${result.files.length} file(s) changed:\n${summary.join('\n')}`,
+          {
+            operations: result.operations.map((entry) => ({ id: entry.id, tool: entry.tool, files: entry.files.map((changed) => changed.file) })),
+            filesChanged: result.files
+          });
+      }
 
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+      case 'read_file': {
+        const { file, lines, search, context } = parseArgs(name, args);
+
+        const filePath = resolvePath(config, file);
+        const sample = await readSample(filePath);
+        const { size } = await stat(filePath);
+
+        if (looksBinary(sample)) {
+          const stamped = { file: file, ...await fileStamp(filePath, size > STREAM_THRESHOLD ? undefined : await readFile(filePath)) };
+          const preview = sample.subarray(0, 256);
+          return toolResult(name,
+            `${file} looks like a binary file (${size} bytes); first ${preview.length} bytes:\n${hexDump(preview)}\n\n${formatStamp(stamped)}`,
+            { ...stamped, lines: [], binary: true, size });
         }
 
-        const content = await readFile(typeof file === 'string' ? file : '', 'utf-8');
-        const fileLines = content.split('\n');
+        // Large files are streamed; only the lines asked for are read
+        const content = size > STREAM_THRESHOLD ? undefined : await readText(filePath);
+        const fileLines = content?.split('\n');
+        const source = (from = 1) => fileLines ? arrayLines(fileLines, from) : streamLines(filePath, from);
+        const stamped = { file: file, ...await fileStamp(filePath, content), totalLines: fileLines?.length };
+        const stamp = formatStamp(stamped);
 
         if (search) {
           // Search mode - find pattern and show with context
           const results: string[] = [];
-          const regex = new RegExp(String(search), 'gi');
-
-          fileLines.forEach((line, index) => {
-            if (regex.test(line)) {
-              const startLine = Math.max(0, index - Number(context));
-              const endLine = Math.min(fileLines.length - 1, index + Number(context));
-
-              results.push(`\n--- Match at line ${index + 1} ---`);
-              for (let i = startLine; i <= endLine; i++) {
-                const marker = i === index ? '>' : ' ';
-                results.push(`${marker} ${(i + 1).toString().padStart(4)}: ${fileLines[i]}`);
-              }
+          const shown: ToolResultMap['read_file']['lines'] = [];
+          const found = await searchLines(source(), new RegExp(search, 'i'), context, Infinity);
+
+          for (const match of found.matches) {
+            results.push(`\n--- Match at line ${match.line} ---`);
+            for (const entry of [...match.before, match, ...match.after]) {
+              const marker = entry === match ? '>' : ' ';
+              results.push(`${marker} ${entry.line.toString().padStart(4)}: ${entry.text}`);
+              shown.push({ line: entry.line, text: entry.text });
             }
-          });
+          }
 
-          return {
-            content: [{
-              type: 'text',
-              text: results.length > 0 ?
-                  `Search results for "${search}" in ${file}:\n${results.join('\n')}` :
-                  `No matches found for "${search}" in ${file}`
-            }]
-          };
+          return toolResult(name,
+            results.length > 0 ?
+              `Search results for "${search}" in ${file}:\n${results.join('\n')}\n\n${stamp}` :
+              `No matches found for "${search}" in ${file}\n\n${stamp}`,
+            { ...stamped, lines: shown, matches: found.matches.map(({ line, column, text }) => ({ line, column, text })) });
         }
 
         if (lines) {
-          // Support both string and array for lines
-          let startStr: string, endStr: string;
-          if (Array.isArray(lines)) {
-            [startStr, endStr] = lines;
-          } else if (typeof lines === 'string') {
-            [startStr, endStr] = lines.includes('-') ? lines.split('-') : [lines, lines];
-          } else {
-            startStr = endStr = String(lines);
-          }
-          const start = parseInt(startStr);
-          const end = endStr === '$' ? fileLines.length : parseInt(endStr);
-
-          const selectedLines = fileLines.slice(start - 1, end);
-          const numberedLines = selectedLines.map((line, index) =>
-              `${(start + index).toString().padStart(4)}: ${line}`
+          // "10-20" or ["10", "20"], checked like the line ranges of line_edit
+          const range = Array.isArray(lines) ? lines.join('-') : lines;
+          const { start, end: last } = parseLineRange(range, stamped.totalLines, '-');
+          const selected = await collectLines(source(start), last);
+          const totalLines = stamped.totalLines ?? selected.totalLines;
+          const end = last === Infinity ? totalLines ?? start : last;
+
+          const numberedLines = selected.lines.map((entry) =>
+              `${entry.line.toString().padStart(4)}: ${entry.text}`
           );
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Lines ${start}-${end === fileLines.length ? '$' : end} of ${file}:\n${numberedLines.join('\n')}`
-            }]
-          };
+          return toolResult(name,
+            `Lines ${start}-${end === totalLines ? '$' : end} of ${file}:\n${numberedLines.join('\n')}\n\n${stamp}`,
+            { ...stamped, totalLines, lines: selected.lines });
         }
 
         // Full file mode (limit for performance)
         const maxLines = 100;
-        const displayLines = fileLines.length > maxLines ?
-            fileLines.slice(0, maxLines) : fileLines;
+        const head = await collectLines(source(), maxLines);
+        const totalLines = stamped.totalLines ?? head.totalLines;
+        const truncated = totalLines === undefined || totalLines > maxLines;
 
-        const numberedLines = displayLines.map((line, index) =>
-            `${(index + 1).toString().padStart(4)}: ${line}`
+        const numberedLines = head.lines.map((entry) =>
+            `${entry.line.toString().padStart(4)}: ${entry.text}`
         );
 
-        const truncated = fileLines.length > maxLines ?
-            `\n... (showing first ${maxLines} of ${fileLines.length} lines)` : '';
-
-        return {
-          content: [{
-            type: 'text',
-            text: `Contents of ${file}:\n${numberedLines.join('\n')}${truncated}`
-          }]
-        };
+        const truncatedNote = !truncated ? '' : totalLines !== undefined ?
+            `\n... (showing first ${maxLines} of ${totalLines} lines)` :
+            `\n... (showing first ${maxLines} lines of a ${formatSize(size)} file; use lines or search to read more)`;
+
+        return toolResult(name,
+          `Contents of ${file}:\n${numberedLines.join('\n')}${truncatedNote}\n\n${stamp}`,
+          {
+            ...stamped,
+            totalLines,
+            lines: head.lines,
+            truncated
+          });
       }
 
       case 'search_in_file': {
-        const { file, pattern, context = 3, caseInsensitive = false } = args as ToolArg<'search_in_file'>;
+        const { file, pattern, context, caseInsensitive } = parseArgs(name, args);
 
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+        const filePath = resolvePath(config, file);
+        const { size } = await stat(filePath);
+        if (looksBinary(await readSample(filePath))) {
+          throw new Error(`${file} looks like a binary file; use read_file to see a hex summary`);
         }
-
-        const content = await readFile(typeof file === 'string' ? file : '', 'utf-8');
-        const fileLines = content.split('\n');
-        const flags = caseInsensitive ? 'gi' : 'g';
-        const regex = new RegExp(String(pattern), flags);
+        const content = size > STREAM_THRESHOLD ? undefined : await readText(filePath);
+        const regex = new RegExp(pattern, caseInsensitive ? 'i' : '');
+        const found = await searchLines(content !== undefined ? arrayLines(content.split('\n')) : streamLines(filePath), regex, context, Infinity);
 
         const results: string[] = [];
-        let matchCount = 0;
-
-        fileLines.forEach((line, index) => {
-          if (regex.test(line)) {
-            matchCount++;
-            const startLine = Math.max(0, index - Number(context));
-            const endLine = Math.min(fileLines.length - 1, index + Number(context));
-
-            results.push(`\n--- Match ${matchCount} at line ${index + 1} ---`);
-            for (let i = startLine; i <= endLine; i++) {
-              const marker = i === index ? '>' : ' ';
-              results.push(`${marker} ${(i + 1).toString().padStart(4)}: ${fileLines[i]}`);
-            }
+        const stamped = { file: file, ...await fileStamp(filePath, content) };
+        const stamp = formatStamp(stamped);
+
+        found.matches.forEach((match, index) => {
+          results.push(`\n--- Match ${index + 1} at line ${match.line} ---`);
+          for (const entry of [...match.before, match, ...match.after]) {
+            const marker = entry === match ? '>' : ' ';
+            results.push(`${marker} ${entry.line.toString().padStart(4)}: ${entry.text}`);
           }
         });
 
-        return {
-          content: [{
-            type: 'text',
-            text: results.length > 0 ?
-                `Found ${matchCount} matches for "${pattern}" in ${file}:\n${results.join('\n')}` :
-                `No matches found for "${pattern}" in ${file}`
-          }]
-        };
+        return toolResult(name,
+          results.length > 0 ?
+            `Found ${found.matchCount} matches for "${pattern}" in ${file}:\n${results.join('\n')}\n\n${stamp}` :
+            `No matches found for "${pattern}" in ${file}\n\n${stamp}`,
+          { ...stamped, matchCount: found.matchCount, matches: found.matches.map(({ line, column, text }) => ({ line, column, text })) });
       }
-      case 'show_around_line': {
-        const { file, lineNumber, context = 5 } = args as ToolArg<'show_around_line'>;
 
-        if (typeof file === 'string' && !existsSync(file)) {
-          throw new Error(`File not found: ${file}`);
+      case 'search_files': {
+        const { pattern, directory, include, exclude = [], defaultExcludes, ignoreFiles, caseInsensitive, fixedStrings, context, maxResults, maxPerFile } = parseArgs(name, args);
+
+        let regex: RegExp;
+        try {
+          regex = buildSearchRegex(pattern, { caseInsensitive, fixedStrings });
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid pattern: ${(error as Error).message}`);
         }
 
-        const content = await readFile(typeof file === 'string' ? file : '', 'utf-8');
-        const fileLines = content.split('\n');
-        const targetLine = typeof lineNumber === 'number' ? lineNumber : parseInt(String(lineNumber));
+        const searchDir = resolvePath(config, directory, 'directory');
+        const patterns = Array.isArray(include) ? include : [include];
+        const { files, skipped } = await walkFiles(searchDir, createMatcher(patterns, exclude), {
+          skipDirs: defaultExcludes ? DEFAULT_EXCLUDED_DIRS : [],
+          ignoreFiles,
+          root: config.root
+        });
+
+        const results: ToolResultMap['search_files']['files'] = [];
+        const binary: SkipReason = { reason: 'binary file', files: 0, directories: 0 };
+        let searched = 0;
+        let shown = 0;
+        let totalMatches = 0;
+        let limitReached = false;
 
-        if (targetLine < 1 || targetLine > fileLines.length) {
-          throw new Error(`Line number ${targetLine} is out of range (file has ${fileLines.length} lines)`);
+        for (const entry of files) {
+          if (findViolation(config, entry.path)) {
+            continue;
+          }
+          if (shown >= maxResults) {
+            limitReached = true;
+            break;
+          }
+          if (looksBinary(await readSample(entry.path))) {
+            binary.files++;
+            continue;
+          }
+          searched++;
+
+          // Large files are searched as a stream instead of being read whole
+          const source = (await stat(entry.path)).size > STREAM_THRESHOLD ?
+            streamLines(entry.path) :
+            arrayLines(splitLines(await readText(entry.path)).lines);
+          const found = await searchLines(source, regex, context, Math.min(maxPerFile, maxResults - shown));
+          if (found.matchCount > 0) {
+            results.push({ file: toRelative(config, entry.path), matchCount: found.matchCount, matches: found.matches });
+            totalMatches += found.matchCount;
+            shown += found.matches.length;
+          }
         }
 
-        const startLine = Math.max(1, targetLine - Number(context));
-        const endLine = Math.min(fileLines.length, targetLine + Number(context));
+        const allSkipped = binary.files > 0 ? [...skipped, binary] : skipped;
+        const sections = results.map((result) => {
+          const partial = result.matches.length < result.matchCount ? `, showing ${result.matches.length}` : '';
+          return `${result.file} (${result.matchCount} matches${partial})\n${formatFileMatches(result.matches)}`;
+        });
+        const notes = [
+          limitReached ? `Stopped after ${maxResults} matching lines (maxResults); narrow the search or raise the limit for more` : '',
+          describeSkipped(allSkipped)
+        ].filter(Boolean);
+
+        const summary = results.length > 0 ?
+          `Found ${totalMatches} matches in ${results.length} files (searched ${searched}) for "${pattern}":\n\n${sections.join('\n\n')}` :
+          `No matches found for "${pattern}" in ${searched} files`;
+
+        return toolResult(name,
+          [summary, ...notes].join('\n\n'),
+          { filesSearched: searched, filesMatched: results.length, totalMatches, limitReached, files: results, skipped: allSkipped });
+      }
 
-        const results: string[] = [];
-        for (let i = startLine; i <= endLine; i++) {
-          const marker = i === targetLine ? '>' : ' ';
-          results.push(`${marker} ${i.toString().padStart(4)}: ${fileLines[i - 1]}`);
+      case 'plan_replace': {
+        const { find, replace, directory, include, exclude = [], defaultExcludes, ignoreFiles, caseInsensitive, fixedStrings, page } = parseArgs(name, args);
+
+        let regex: RegExp;
+        try {
+          regex = buildSearchRegex(find, { caseInsensitive, fixedStrings, global: true });
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid pattern: ${(error as Error).message}`);
+        }
+        // Literal replacements must not expand $ references
+        const replacement = fixedStrings ? replace.replace(/\$/g, '$$$$') : replace;
+
+        const searchDir = resolvePath(config, directory, 'directory');
+        const patterns = Array.isArray(include) ? include : [include];
+        const { files, skipped } = await walkFiles(searchDir, createMatcher(patterns, exclude), {
+          skipDirs: defaultExcludes ? DEFAULT_EXCLUDED_DIRS : [],
+          ignoreFiles,
+          root: config.root
+        });
+
+        const plan: ReplacePlan = { id: newPlanId(), createdAt: new Date().toISOString(), find, replace, files: [], hunks: [] };
+        const binary: SkipReason = { reason: 'binary file', files: 0, directories: 0 };
+        let searched = 0;
+
+        for (const entry of files) {
+          if (findViolation(config, entry.path)) {
+            continue;
+          }
+          if (looksBinary(await readSample(entry.path))) {
+            binary.files++;
+            continue;
+          }
+          const content = await readText(entry.path);
+          searched++;
+
+          const file = toRelative(config, entry.path);
+          const lines = planLines(content, regex, replacement);
+          if (lines.length > 0) {
+            plan.files.push({ file, hash: hashContent(content) });
+            // Hunks are numbered across the whole plan
+            plan.hunks.push(...lines.map((line, index) => ({ id: plan.hunks.length + index + 1, file, ...line })));
+          }
+        }
+
+        const allSkipped = binary.files > 0 ? [...skipped, binary] : skipped;
+        const skippedNote = allSkipped.length > 0 ? `\n\n${describeSkipped(allSkipped)}` : '';
+        const payload = { planId: plan.id, filesSearched: searched, filesMatched: plan.files.length, totalHunks: plan.hunks.length, skipped: allSkipped };
+
+        if (plan.hunks.length === 0) {
+          return toolResult(name,
+            `No matches found for "${find}" in ${searched} files, no plan was saved${skippedNote}`,
+            { ...payload, planId: '', hunks: [], page: 1, pages: 1 });
+        }
+        await savePlan(config, plan);
+
+        const shown = planPage(plan.hunks, page);
+        const footer = shown.pages > 1 ? `\n\n(page ${shown.page} of ${shown.pages}; pass page: ${Math.min(shown.page + 1, shown.pages)} for more)` : '';
+        return toolResult(name,
+          `Plan ${plan.id}: ${plan.hunks.length} hunks in ${plan.files.length} files (searched ${searched}), nothing was written yet.\n` +
+            `Apply with apply_plan({ planId: "${plan.id}" }), or pass hunks: [ids] to apply only some.\n\n` +
+            `${shown.hunks.map(formatPlanHunk).join('\n\n')}${footer}${skippedNote}`,
+          { ...payload, hunks: shown.hunks, page: shown.page, pages: shown.pages });
+      }
+
+      case 'apply_plan': {
+        const { planId, hunks, backup, dryRun, page } = parseArgs(name, args);
+
+        const plan = await loadPlan(config, planId);
+        if (hunks?.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, 'hunks must list at least one hunk id (omit it to apply the whole plan)');
+        }
+        const unknown = (hunks ?? []).filter((id) => !plan.hunks.some((hunk) => hunk.id === id));
+        if (unknown.length > 0) {
+          throw new McpError(ErrorCode.InvalidParams, `Unknown hunk ids for ${planId}: ${unknown.join(', ')} (plan has hunks 1-${plan.hunks.length})`);
+        }
+        const selected = hunks ? plan.hunks.filter((hunk) => hunks.includes(hunk.id)) : plan.hunks;
+        const appliedHunks = selected.map((hunk) => hunk.id);
+
+        // Every file must still be exactly what was planned; otherwise nothing is written
+        const staged: StagedEdit[] = [];
+        for (const { file, hash } of plan.files) {
+          const fileHunks = selected.filter((hunk) => hunk.file === file);
+          if (fileHunks.length === 0) {
+            continue;
+          }
+          const filePath = resolvePath(config, file);
+          const original = await readText(filePath);
+          if (hashContent(original) !== hash) {
+            throw new Error(`File changed since plan: ${file}. Run plan_replace again.`);
+          }
+          staged.push({ file: filePath, original, updated: applyHunks(original, fileHunks) });
+        }
+
+        const count = (file: string) => selected.filter((hunk) => hunk.file === file).length;
+        if (dryRun) {
+          const diffs = staged.map((edit) => {
+            const file = toRelative(config, edit.file);
+            return { file, diff: unifiedDiff(file, edit.original, edit.updated) };
+          });
+          return toolResult(name,
+            renderDiffReport(`Dry run of ${selected.length} of ${plan.hunks.length} hunks from ${planId}, no files were changed:`, diffs, page),
+            { ...summarizeDiffs(diffs, page, { replacements: selected.length }), planId, appliedHunks });
         }
 
-        return {
-          content: [{
-            type: 'text',
-            text: `Context around line ${targetLine} in ${file}:\n${results.join('\n')}`
-          }]
-        };
+        const versions = await commitAtomically(staged, operation, backup);
+        await deletePlan(config, planId);
+
+        const edits = staged.map((edit, index) => {
+          const file = toRelative(config, edit.file);
+          return describeEdit(file, edit.original, edit.updated, versions[index], count(file));
+        });
+        return toolResult(name,
+          `Applied ${selected.length} of ${plan.hunks.length} hunks from ${planId} to ${edits.length} files:\n` +
+            edits.map((edit) => `✓ ${edit.file} (${edit.replacements} hunks)`).join('\n'),
+          { ...summarizeEdits(edits), planId, appliedHunks });
+      }
+
+      case 'apply_edits': {
+        const { edits, backup, expectedHashes = {}, dryRun, page } = parseArgs(name, args);
+
+        if (edits.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, 'edits must contain at least one edit');
+        }
+        edits.forEach(checkEdit);
+
+        // Group the edits by file, keeping their order and their position in the batch
+        const byFile = new Map<string, { edit: BatchEdit; index: number }[]>();
+        edits.forEach((edit, index) => {
+          const file = toRelative(config, resolvePath(config, edit.file));
+          byFile.set(file, [...(byFile.get(file) ?? []), { edit, index }]);
+        });
+
+        // Every file is edited in memory first; one failing edit means nothing is written
+        const staged: StagedEdit[] = [];
+        for (const [file, fileEdits] of byFile) {
+          const filePath = resolvePath(config, file);
+          const original = await readText(filePath);
+          await assertUnchanged(filePath, file, original, { expectedHash: hashFor(expectedHashes, file) });
+          staged.push({ file: filePath, original, updated: applyBatch(original, fileEdits) });
+        }
+
+        const changed = staged.filter((edit) => edit.updated !== edit.original);
+        if (dryRun) {
+          const diffs = staged.map((edit) => {
+            const file = toRelative(config, edit.file);
+            return { file, diff: unifiedDiff(file, edit.original, edit.updated) };
+          });
+          return diffResult(name, `Dry run of ${edits.length} edits in ${staged.length} files, no files were changed:`, diffs, page);
+        }
+
+        const versions = await commitAtomically(changed, operation, backup);
+        const results = changed.map((edit, index) =>
+          describeEdit(toRelative(config, edit.file), edit.original, edit.updated, versions[index])
+        );
+        const count = (file: string) => byFile.get(file)!.length;
+        return toolResult(name,
+          `Applied ${edits.length} edits to ${staged.length} files (${staged.length - changed.length} unchanged):\n` +
+            results.map((result) => `✓ ${result.file} (${count(result.file)} edits, +${result.linesAdded} -${result.linesRemoved})`).join('\n'),
+          summarizeEdits(results));
+      }
+
+      case 'apply_patch': {
+        const { patch, strip, fuzz, backup, expectedHashes = {}, dryRun, page } = parseArgs(name, args);
+
+        const filePatches = parsePatch(patch, strip);
+
+        // Every file is patched in memory first, in patch order; a file may appear more than once
+        const staged = new Map<string, StagedEdit>();
+        const statuses: HunkStatus[] = [];
+        for (const filePatch of filePatches) {
+          const { oldPath, newPath } = filePatch;
+          if (oldPath !== null && newPath !== null && oldPath !== newPath) {
+            throw new Error(`Renaming files is not supported (${oldPath} -> ${newPath}); patch the old path and move the file separately`);
+          }
+          const filePath = resolvePath(config, (newPath ?? oldPath)!);
+          const file = toRelative(config, filePath);
+          const previous = staged.get(filePath);
+          const exists = previous ? !previous.remove : existsSync(filePath);
+          if (oldPath === null && exists) {
+            throw new Error(`Cannot create ${file}: it already exists`);
+          }
+          if (oldPath !== null && !exists) {
+            throw new Error(`File not found: ${file}`);
+          }
+
+          const original = previous ? previous.updated : oldPath === null ? '' : await readText(filePath);
+          if (!previous && oldPath !== null) {
+            await assertUnchanged(filePath, file, original, { expectedHash: hashFor(expectedHashes, file) });
+          }
+          const { text, statuses: fileStatuses, finalNewline } = applyFilePatch(file, original, filePatch, fuzz);
+          statuses.push(...fileStatuses);
+          if (newPath === null && text !== '' && fileStatuses.every((status) => status.status === 'applied')) {
+            statuses.push({ file, status: 'failed', reason: `the patch deletes ${file}, but lines the patch does not remove are left` });
+          }
+          staged.set(filePath, {
+            file: filePath,
+            original: previous ? previous.original : original,
+            updated: text,
+            create: previous ? previous.create : oldPath === null,
+            remove: newPath === null,
+            finalNewline: finalNewline ?? previous?.finalNewline
+          });
+        }
+
+        const report = statuses.map(formatHunkStatus).join('\n');
+        const failed = statuses.filter((status) => status.status === 'failed');
+        if (failed.length > 0) {
+          return toolResult(name,
+            `Patch not applied: ${failed.length} of ${statuses.length} hunks failed, no files were changed:\n${report}`,
+            { ...summarizeEdits([], dryRun), committed: false, hunks: statuses });
+        }
+
+        // A file created and deleted again by the same patch is left out
+        const changed = [...staged.values()].filter((edit) => !(edit.create && edit.remove) &&
+          (edit.updated !== edit.original || edit.create || edit.remove));
+        if (dryRun) {
+          const diffs = changed.map((edit) => {
+            const file = toRelative(config, edit.file);
+            return { file, diff: unifiedDiff(file, edit.original, edit.updated) };
+          });
+          return toolResult(name,
+            renderDiffReport(`Dry run: all ${statuses.length} hunks apply, no files were changed:\n${report}\n`, diffs, page),
+            { ...summarizeDiffs(diffs, page), hunks: statuses });
+        }
+
+        const versions = await commitAtomically(changed, operation, backup);
+        const results = changed.map((edit, index) =>
+          describeEdit(toRelative(config, edit.file), edit.original, edit.updated, versions[index])
+        );
+        const created = changed.filter((edit) => edit.create).map((edit) => `\n  created ${toRelative(config, edit.file)}`);
+        const removed = changed.filter((edit) => edit.remove).map((edit) => `\n  deleted ${toRelative(config, edit.file)}`);
+        return toolResult(name,
+          `Applied ${statuses.length} hunks to ${changed.length} files:\n${report}${created.join('')}${removed.join('')}`,
+          { ...summarizeEdits(results), hunks: statuses });
+      }
+
+      case 'rename_symbol': {
+        const { file, line, column, oldName, newName, project, backup, expectedHashes = {}, dryRun, page } = parseArgs(name, args);
+
+        if (column === undefined && !oldName) {
+          throw new McpError(ErrorCode.InvalidParams, 'Pass column or oldName to locate the symbol on the line');
+        }
+        const filePath = resolvePath(config, file);
+        const plan = await planRename(config, filePath, {
+          file, line, column, oldName, newName,
+          project: project === undefined ? undefined : resolvePath(config, project)
+        });
+
+        for (const edit of plan.edits) {
+          const relative = toRelative(config, edit.file);
+          await assertUnchanged(edit.file, relative, edit.original, { expectedHash: hashFor(expectedHashes, relative) });
+        }
+        const changed = plan.edits.filter((edit) => edit.updated !== edit.original);
+        const title = `Rename ${plan.kind} ${plan.symbol} to ${newName} (${toRelative(config, plan.project)}): ${plan.locations} references in ${changed.length} files`;
+        if (dryRun) {
+          const diffs = changed.map((edit) => {
+            const relative = toRelative(config, edit.file);
+            return { file: relative, diff: unifiedDiff(relative, edit.original, edit.updated) };
+          });
+          return diffResult(name, `Dry run: ${title}, no files were changed:`, diffs, page);
+        }
+
+        const versions = await commitAtomically(changed, operation, backup);
+        const results = changed.map((edit, index) =>
+          describeEdit(toRelative(config, edit.file), edit.original, edit.updated, versions[index])
+        );
+        return toolResult(name,
+          `${title}:\n` + results.map((result) => `✓ ${result.file} (+${result.linesAdded} -${result.linesRemoved})`).join('\n'),
+          summarizeEdits(results));
+      }
+
+      case 'outline': {
+        const { file, depth } = parseArgs(name, args);
+
+        const filePath = resolvePath(config, file);
+        const outline = await outlineOf(filePath, await readText(filePath));
+        const symbols = depth === undefined ? outline.symbols : limitDepth(outline.symbols, depth);
+        const total = countSymbols(symbols);
+
+        const example = symbols.find((symbol) => symbol.endLine > symbol.line);
+        return toolResult(name,
+          total === 0 ?
+            `Outline of ${file} (${outline.language}): no symbols found` :
+            `Outline of ${file} (${outline.language}, ${total} symbols):\n${formatOutline(symbols).map((line) => `  ${line}`).join('\n')}` +
+              (example ? `\n\nRead one with read_file({ file: "${file}", lines: "${example.line}-${example.endLine}" })` : ''),
+          { file, language: outline.language, total, symbols });
+      }
+
+      case 'show_around_line': {
+        const { file, lineNumber, context } = parseArgs(name, args);
+
+        const filePath = resolvePath(config, file);
+        if (looksBinary(await readSample(filePath))) {
+          throw new Error(`${file} looks like a binary file; use read_file to see a hex summary`);
+        }
+        // Large files are streamed from the nearest indexed line instead of being read whole
+        const content = (await stat(filePath)).size > STREAM_THRESHOLD ? undefined : await readText(filePath);
+        const targetLine = lineNumber;
+        const startLine = Math.max(1, targetLine - context);
+        const { lines: shown, totalLines } = await collectLines(
+          content !== undefined ? arrayLines(content.split('\n'), startLine) : streamLines(filePath, startLine),
+          targetLine + context);
+
+        if (targetLine < 1 || !shown.some((entry) => entry.line === targetLine)) {
+          throw new Error(`Line number ${targetLine} is out of range (file has ${totalLines} lines)`);
+        }
+
+        const results = shown.map((entry) => {
+          const marker = entry.line === targetLine ? '>' : ' ';
+          return `${marker} ${entry.line.toString().padStart(4)}: ${entry.text}`;
+        });
+
+        const stamped = { file: file, ...await fileStamp(filePath, content) };
+        return toolResult(name,
+          `Context around line ${targetLine} in ${file}:\n${results.join('\n')}\n\n${formatStamp(stamped)}`,
+          { ...stamped, line: targetLine, lines: shown });
+      }
+      case 'git_status': {
+        const { path } = parseArgs(name, args);
+
+        const target = path === undefined ? '.' : toRelative(config, resolvePath(config, path, 'directory')) || '.';
+        const status = await gitStatus(config, [`:(literal)${target}`]);
+        const edited = await editedFiles(config, await headCommitTime(config));
+        // Denied paths stay hidden, as they are from every other tool
+        const files = status.files
+          .filter((entry) => !findViolation(config, resolve(config.root, entry.file)))
+          .map((entry) => ({ ...entry, status: describeStatus(entry), smalledit: edited.has(entry.file) }));
+
+        const lines = files.map((entry) => `  ${entry.index}${entry.worktree} ${entry.file}: ${entry.status}${entry.smalledit ? ' (edited by smalledit)' : ''}`);
+        return toolResult(name,
+          files.length === 0 ?
+            `On ${status.branch}: no uncommitted changes${path === undefined ? '' : ` in ${path}`}` :
+            `On ${status.branch}: ${files.length} file(s) with uncommitted changes, ${files.filter((entry) => entry.smalledit).length} edited by smalledit:\n${lines.join('\n')}`,
+          { branch: status.branch, files });
+      }
+
+      case 'git_diff': {
+        const { file, staged, context, page } = parseArgs(name, args);
+
+        const target = file === undefined ? '.' : toRelative(config, resolvePath(config, file, 'directory')) || '.';
+        const output = await gitDiff(config, { paths: [`:(literal)${target}`], staged, context });
+        // One entry per file; sections whose header cannot be read are left out
+        const diffs: FileDiff[] = output.split(/^(?=diff --git )/m)
+          .filter((section) => section.startsWith('diff --git '))
+          .flatMap((section) => {
+            const entry = diffSectionFile(section);
+            return entry === undefined ? [] : [{ file: entry, diff: section }];
+          })
+          .filter((entry) => !findViolation(config, resolve(config.root, entry.file)));
+
+        const { body, page: current, pages } = diffPage(diffs, page);
+        return toolResult(name,
+          renderDiffReport(`${staged ? 'Staged' : 'Unstaged'} changes${file === undefined ? '' : ` in ${file}`}:`, diffs, page).replace(/No changes would be made$/, 'No changes'),
+          {
+            files: diffs.map((entry) => {
+              const { added, removed } = diffStats(entry.diff);
+              return { file: entry.file, linesAdded: added, linesRemoved: removed };
+            }),
+            diff: body,
+            page: current,
+            pages
+          });
+      }
+
+      case 'git_commit': {
+        const { message, files, all } = parseArgs(name, args);
+
+        if (!message.trim()) {
+          throw new McpError(ErrorCode.InvalidParams, 'message must not be empty');
+        }
+        if (files && all) {
+          throw new McpError(ErrorCode.InvalidParams, 'Pass files or all, not both');
+        }
+        const status = await gitStatus(config);
+        const changed = status.files
+          .filter((entry) => !findViolation(config, resolve(config.root, entry.file)))
+          .map((entry) => entry.file);
+
+        let paths: string[];
+        if (files) {
+          paths = files.map((file) => toRelative(config, resolvePath(config, file)));
+          const unchanged = paths.filter((path) => !changed.includes(path));
+          if (unchanged.length > 0) {
+            throw new Error(`Nothing to commit for ${unchanged.join(', ')}: no uncommitted changes`);
+          }
+        } else if (all) {
+          paths = changed;
+        } else {
+          const edited = await editedFiles(config, await headCommitTime(config));
+          paths = changed.filter((file) => edited.has(file));
+        }
+        if (paths.length === 0) {
+          throw new Error(all ?
+            'Nothing to commit: the workspace has no uncommitted changes' :
+            'Nothing to commit: no file edited by smalledit has uncommitted changes; pass files or all: true to commit other changes');
+        }
+
+        const result = await gitCommit(config, message, paths.map((path) => `:(literal)${path}`));
+        return toolResult(name,
+          `Committed ${result.commit} on ${result.branch}: ${message.split('\n')[0]}\n` + result.files.map((file) => `  ${file}`).join('\n'),
+          result);
       }
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     }
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     throw new McpError(
       ErrorCode.InternalError,
       error instanceof Error ? error.message : 'Unknown error'
     );
+  } finally {
+    await recordOperation(operation);
   }
-});
+}
 
 // Start the server
 const transport = new StdioServerTransport();
 server.connect(transport);
-console.error('MCP SmallEdit server running on stdio');
+console.error(`MCP SmallEdit server running on stdio (workspace root: ${config.root})`);
@@ -0,0 +1,271 @@
+/**
+ * Operation journal
+ * Every tool call that writes files is appended to <root>/.smalledit/journal.jsonl as one
+ * operation with the before/after content hash of each file. The contents themselves are kept
+ * in a content-addressed blob store so undo and redo can walk the journal across files.
+ * Only the newest operations are kept (--journal-limit), with the blobs they refer to.
+ */
+
+import { appendFile, mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import { ServerConfig } from './config.js';
+import { hashContent } from './files.js';
+import { resolvePath } from './sandbox.js';
+
+const JOURNAL_FILE = '.smalledit/journal.jsonl';
+const BLOB_DIR = '.smalledit/blobs';
+
+// Bytes of one file before and after an operation; null means the file did not exist
+export interface FileChange {
+  file: string;
+  before: Buffer | null;
+  after: Buffer | null;
+}
+
+// A tool call in progress; files it writes are collected and journaled when it finishes
+export interface Operation {
+  config: ServerConfig;
+  tool: string;
+  args: unknown;
+  changes: FileChange[];
+  // Problems worth reporting with the result, such as an edit that mixed line endings
+  warnings: string[];
+}
+
+interface JournaledFile {
+  file: string;
+  beforeHash: string | null;
+  afterHash: string | null;
+}
+
+export interface JournalOperation {
+  type: 'operation';
+  id: string;
+  tool: string;
+  args: unknown;
+  createdAt: string;
+  files: JournaledFile[];
+}
+
+type JournalEntry =
+  | JournalOperation
+  | { type: 'undo' | 'redo'; target: string; createdAt: string };
+
+export function beginOperation(config: ServerConfig, tool: string, args: unknown): Operation {
+  return { config, tool, args, changes: [], warnings: [] };
+}
+
+async function storeBlob(config: ServerConfig, content: Buffer | null): Promise<string | null> {
+  if (content === null) {
+    return null;
+  }
+  const hash = hashContent(content);
+  const path = join(config.root, BLOB_DIR, hash);
+  if (!existsSync(path)) {
+    await mkdir(join(config.root, BLOB_DIR), { recursive: true });
+    await writeFile(path, content);
+  }
+  return hash;
+}
+
+async function loadBlob(config: ServerConfig, hash: string): Promise<Buffer> {
+  return readFile(join(config.root, BLOB_DIR, hash));
+}
+
+async function appendEntry(config: ServerConfig, entry: JournalEntry): Promise<void> {
+  await mkdir(join(config.root, '.smalledit'), { recursive: true });
+  await appendFile(join(config.root, JOURNAL_FILE), JSON.stringify(entry) + '\n');
+}
+
+// Journal the files an operation wrote; calls that wrote nothing leave no entry
+export async function recordOperation(operation: Operation): Promise<void> {
+  if (operation.changes.length === 0) {
+    return;
+  }
+
+  // A file written twice in one call is journaled once, from its first before to its last after
+  const merged = new Map<string, FileChange>();
+  for (const change of operation.changes) {
+    const previous = merged.get(change.file);
+    merged.set(change.file, previous ? { ...previous, after: change.after } : change);
+  }
+  // Files that ended up as they started have nothing to undo
+  const changed = [...merged.values()].filter(({ before, after }) =>
+    before === null || after === null ? before !== after : !before.equals(after));
+  if (changed.length === 0) {
+    return;
+  }
+
+  const files: JournaledFile[] = [];
+  for (const change of changed) {
+    files.push({
+      file: change.file,
+      beforeHash: await storeBlob(operation.config, change.before),
+      afterHash: await storeBlob(operation.config, change.after)
+    });
+  }
+
+  await appendEntry(operation.config, {
+    type: 'operation',
+    id: `${new Date().toISOString().replace(/[-:.]/g, '')}-${randomBytes(2).toString('hex')}`,
+    tool: operation.tool,
+    args: operation.args,
+    createdAt: new Date().toISOString(),
+    files
+  });
+  await pruneJournal(operation.config);
+}
+
+/**
+ * Keep the newest journalLimit operations. Older ones can no longer be undone: their entries,
+ * the undo/redo entries that name them and the blobs nothing else refers to are removed.
+ */
+async function pruneJournal(config: ServerConfig): Promise<void> {
+  const entries = await readEntries(config);
+  const operations = entries.filter((entry): entry is JournalOperation => entry.type === 'operation');
+  if (operations.length <= config.journalLimit) {
+    return;
+  }
+
+  const dropped = new Set(operations.slice(0, operations.length - config.journalLimit).map((operation) => operation.id));
+  const kept = entries.filter((entry) => !dropped.has(entry.type === 'operation' ? entry.id : entry.target));
+  const path = join(config.root, JOURNAL_FILE);
+  const temp = `${path}.${randomBytes(4).toString('hex')}.tmp`;
+  await writeFile(temp, kept.map((entry) => JSON.stringify(entry) + '\n').join(''));
+  await rename(temp, path);
+
+  const referenced = new Set<string>();
+  for (const entry of kept) {
+    if (entry.type !== 'operation') continue;
+    for (const file of entry.files) {
+      if (file.beforeHash) referenced.add(file.beforeHash);
+      if (file.afterHash) referenced.add(file.afterHash);
+    }
+  }
+  const blobDir = join(config.root, BLOB_DIR);
+  for (const blob of existsSync(blobDir) ? await readdir(blobDir) : []) {
+    if (!referenced.has(blob)) {
+      await rm(join(blobDir, blob), { force: true });
+    }
+  }
+}
+
+// Every readable journal entry, oldest first; a line cut short by a crash is skipped
+async function readEntries(config: ServerConfig): Promise<JournalEntry[]> {
+  const path = join(config.root, JOURNAL_FILE);
+  if (!existsSync(path)) {
+    return [];
+  }
+  const entries: JournalEntry[] = [];
+  for (const line of (await readFile(path, 'utf-8')).split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      continue;
+    }
+  }
+  return entries;
+}
+
+// Replay the journal into the stack of applied operations and the stack that can be redone
+async function readStacks(config: ServerConfig): Promise<{ done: JournalOperation[]; undone: JournalOperation[] }> {
+  const done: JournalOperation[] = [];
+  const undone: JournalOperation[] = [];
+  for (const entry of await readEntries(config)) {
+    if (entry.type === 'operation') {
+      done.push(entry);
+      undone.length = 0;
+    } else if (entry.type === 'undo' && done.at(-1)?.id === entry.target) {
+      undone.push(done.pop()!);
+    } else if (entry.type === 'redo' && undone.at(-1)?.id === entry.target) {
+      done.push(undone.pop()!);
+    }
+  }
+  return { done, undone };
+}
+
+/**
+ * Files written by the operations that are still applied, i.e. not undone, and recorded after
+ * the commit made at committedAt. Edits that are already committed do not count, even if someone
+ * else changed the file since. Commit times have whole seconds, so operations in the second of
+ * the commit are left out as well: they may be part of it.
+ */
+export async function editedFiles(config: ServerConfig, committedAt?: Date): Promise<Set<string>> {
+  const { done } = await readStacks(config);
+  const after = committedAt ? committedAt.getTime() + 1000 : -Infinity;
+  return new Set(done
+    .filter((operation) => Date.parse(operation.createdAt) >= after)
+    .flatMap((operation) => operation.files.map((entry) => entry.file)));
+}
+
+async function currentHash(config: ServerConfig, file: string): Promise<string | null> {
+  const path = resolvePath(config, file);
+  return existsSync(path) ? hashContent(await readFile(path)) : null;
+}
+
+function shortHash(hash: string | null): string {
+  return hash === null ? '(missing)' : hash.slice(0, 12);
+}
+
+export interface ReplayResult {
+  operations: JournalOperation[];
+  files: string[];
+}
+
+/**
+ * Undo or redo the latest count operations. Every file must still have the content the
+ * journal expects; otherwise nothing is written and the conflicts are reported.
+ * count is a positive integer, as the tool schema requires.
+ */
+export async function replay(config: ServerConfig, direction: 'undo' | 'redo', count: number): Promise<ReplayResult> {
+  const { done, undone } = await readStacks(config);
+  const stack = direction === 'undo' ? done : undone;
+  const operations = stack.slice(-count).reverse();
+
+  if (operations.length === 0) {
+    throw new Error(`Nothing to ${direction}`);
+  }
+  if (operations.length < count) {
+    throw new Error(`Cannot ${direction} ${count} operations: only ${operations.length} available`);
+  }
+
+  // Walk the operations in order, tracking the content each file should have at every step
+  const expected = new Map<string, string | null>();
+  const target = new Map<string, string | null>();
+  const conflicts: string[] = [];
+
+  for (const operation of operations) {
+    for (const entry of operation.files) {
+      const from = direction === 'undo' ? entry.afterHash : entry.beforeHash;
+      const to = direction === 'undo' ? entry.beforeHash : entry.afterHash;
+      const actual = expected.has(entry.file) ? expected.get(entry.file)! : await currentHash(config, entry.file);
+      if (actual !== from) {
+        conflicts.push(`  ${entry.file}: expected ${shortHash(from)}, found ${shortHash(actual)} (operation ${operation.id} ${operation.tool})`);
+      }
+      expected.set(entry.file, to);
+      target.set(entry.file, to);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new Error(`Cannot ${direction}: ${conflicts.length} file(s) changed outside smalledit since the operation, nothing was changed:\n${conflicts.join('\n')}`);
+  }
+
+  for (const [file, hash] of target) {
+    const path = resolvePath(config, file);
+    if (hash === null) {
+      await rm(path, { force: true });
+    } else {
+      await writeFile(path, await loadBlob(config, hash));
+    }
+  }
+
+  for (const operation of operations) {
+    await appendEntry(config, { type: direction, target: operation.id, createdAt: new Date().toISOString() });
+  }
+
+  return { operations, files: [...target.keys()] };
+}
@@ -0,0 +1,316 @@
+/**
+ * JSON and JSONC value editing
+ * The document is parsed into nodes that remember where their text starts and ends, with
+ * comments and trailing commas allowed. Edits splice new text into those spans and copy the
+ * indentation of the surrounding members.
+ */
+
+import { arrayIndex, DataValue, formatKeyPath, isCollection, KeyPath, kindOf, lineOfOffset, nest, notFound, ValueEditor } from './keypath.js';
+
+interface JsonNode {
+  kind: 'object' | 'array' | 'scalar';
+  // Offsets of the value's text
+  start: number;
+  end: number;
+  value?: DataValue;
+  children: JsonChild[];
+}
+
+interface JsonChild {
+  // Undefined for array elements
+  key?: string;
+  // Offset of the key, or of the value for array elements
+  start: number;
+  node: JsonNode;
+  // Offset of the comma after the member, when there is one
+  comma?: number;
+}
+
+const STRING = /"(?:[^"\\\n]|\\.)*"/y;
+const LITERAL = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+
+function parseJson(text: string): JsonNode {
+  let pos = 0;
+
+  const fail = (message: string) => {
+    const before = text.slice(0, pos).split('\n');
+    return new Error(`Cannot parse JSON at line ${before.length}, column ${before[before.length - 1].length + 1}: ${message}`);
+  };
+
+  // Whitespace and comments
+  const skip = () => {
+    for (;;) {
+      while (/\s/.test(text[pos] ?? '')) pos++;
+      if (text.startsWith('//', pos)) {
+        const end = text.indexOf('\n', pos);
+        pos = end < 0 ? text.length : end;
+      } else if (text.startsWith('/*', pos)) {
+        const end = text.indexOf('*/', pos + 2);
+        if (end < 0) throw fail('unclosed comment');
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    STRING.lastIndex = pos;
+    const match = STRING.exec(text);
+    if (!match) throw fail('unterminated string');
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const parseValue = (): JsonNode => {
+    skip();
+    const start = pos;
+    const open = text[pos];
+    if (open === '{' || open === '[') {
+      const close = open === '{' ? '}' : ']';
+      const children: JsonChild[] = [];
+      pos++;
+      skip();
+      while (text[pos] !== close) {
+        if (pos >= text.length) throw fail(`unclosed ${open}`);
+        const child: JsonChild = { start: pos, node: undefined! };
+        if (open === '{') {
+          if (text[pos] !== '"') throw fail('expected a quoted key');
+          child.key = readString();
+          skip();
+          if (text[pos] !== ':') throw fail('expected ":"');
+          pos++;
+        }
+        child.node = parseValue();
+        children.push(child);
+        skip();
+        if (text[pos] === ',') {
+          child.comma = pos++;
+          skip();
+        } else if (text[pos] !== close) {
+          throw fail(`expected "," or "${close}"`);
+        }
+      }
+      pos++;
+      return { kind: open === '{' ? 'object' : 'array', start, end: pos, children };
+    }
+    if (open === '"') {
+      const value = readString();
+      return { kind: 'scalar', start, end: pos, value, children: [] };
+    }
+    LITERAL.lastIndex = pos;
+    const literal = LITERAL.exec(text);
+    if (!literal) throw fail(open === undefined ? 'unexpected end of file' : `unexpected ${JSON.stringify(open)}`);
+    pos += literal[0].length;
+    return { kind: 'scalar', start, end: pos, value: JSON.parse(literal[0]), children: [] };
+  };
+
+  const root = parseValue();
+  skip();
+  if (pos < text.length) throw fail('unexpected text after the document');
+  return root;
+}
+
+function toData(node: JsonNode): DataValue {
+  if (node.kind === 'object') {
+    const data: { [key: string]: DataValue } = {};
+    for (const child of node.children) {
+      Object.defineProperty(data, child.key!, { value: toData(child.node), enumerable: true, writable: true, configurable: true });
+    }
+    return data;
+  }
+  return node.kind === 'array' ? node.children.map((child) => toData(child.node)) : node.value!;
+}
+
+// Member named by a path segment; the last one wins when a key is repeated, as in JSON.parse
+function childOf(node: JsonNode, segment: string): JsonChild | undefined {
+  if (node.kind === 'object') {
+    return node.children.filter((child) => child.key === segment).pop();
+  }
+  if (node.kind === 'array') {
+    const index = arrayIndex(node.children, segment);
+    return index === undefined ? undefined : node.children[index];
+  }
+  return undefined;
+}
+
+// The node a path names, or how far the path got
+function resolve(root: JsonNode, path: KeyPath): { node: JsonNode; parent?: JsonNode; depth: number } {
+  let node = root;
+  let parent: JsonNode | undefined;
+  for (let depth = 0; depth < path.length; depth++) {
+    const child = childOf(node, path[depth]);
+    if (!child) {
+      return { node, parent, depth };
+    }
+    parent = node;
+    node = child.node;
+  }
+  return { node, parent, depth: path.length };
+}
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+function lineIndent(text: string, offset: number): string {
+  return /^[ \t]*/.exec(text.slice(text.lastIndexOf('\n', offset - 1) + 1))![0];
+}
+
+// The first indented line is a member of the top-level value, so its indentation is one level
+function indentUnit(text: string): string {
+  return /^[ \t]+(?=\S)/m.exec(text)?.[0] ?? '  ';
+}
+
+function isMultiline(text: string, node: JsonNode): boolean {
+  return text.slice(node.start, node.end).includes('\n');
+}
+
+function renderInline(value: DataValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderInline).join(', ')}]`;
+  }
+  if (isCollection(value)) {
+    const entries = Object.entries(value);
+    return entries.length === 0 ? '{}' : `{ ${entries.map(([key, item]) => `${JSON.stringify(key)}: ${renderInline(item)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+function render(value: DataValue, indent: string, unit: string, multiline: boolean): string {
+  return multiline ? JSON.stringify(value, null, unit).replace(/\n/g, `\n${indent}`) : renderInline(value);
+}
+
+/**
+ * Where a member's line content ends: after its comma and a // comment on the same line.
+ * When something else follows on the line, the offset right after the member.
+ */
+function memberEnd(text: string, child: JsonChild): number {
+  const after = child.comma !== undefined ? child.comma + 1 : child.node.end;
+  let pos = after;
+  while (text[pos] === ' ' || text[pos] === '\t') pos++;
+  if (text.startsWith('//', pos)) {
+    const end = text.indexOf('\n', pos);
+    return end < 0 ? text.length : end;
+  }
+  return pos === text.length || text[pos] === '\n' ? pos : after;
+}
+
+function replaceNode(text: string, node: JsonNode, parent: JsonNode | undefined, value: DataValue): string {
+  const multiline = node.kind === 'scalar' ? (parent ? isMultiline(text, parent) : true) : isMultiline(text, node);
+  return splice(text, node.start, node.end, render(value, lineIndent(text, node.start), indentUnit(text), multiline));
+}
+
+function insertChild(text: string, container: JsonNode, key: string | undefined, value: DataValue): string {
+  const unit = indentUnit(text);
+  const member = (indent: string, multiline: boolean) =>
+    `${key === undefined ? '' : `${JSON.stringify(key)}: `}${render(value, indent, unit, multiline)}`;
+  const last = container.children[container.children.length - 1];
+
+  if (!last) {
+    // An empty container is opened up when the document is laid out over several lines
+    if (!text.trim().includes('\n')) {
+      return splice(text, container.start + 1, container.end - 1, member('', false));
+    }
+    const indent = lineIndent(text, container.start);
+    return splice(text, container.start + 1, container.end - 1, `\n${indent}${unit}${member(indent + unit, true)}\n${indent}`);
+  }
+
+  if (!isMultiline(text, container)) {
+    return last.comma !== undefined ?
+      splice(text, last.comma + 1, last.comma + 1, ` ${member('', false)},`) :
+      splice(text, last.node.end, last.node.end, `, ${member('', false)}`);
+  }
+
+  const indent = lineIndent(text, last.start);
+  const at = memberEnd(text, last);
+  if (last.comma !== undefined) {
+    return splice(text, at, at, `\n${indent}${member(indent, true)},`);
+  }
+  return splice(splice(text, at, at, `\n${indent}${member(indent, true)}`), last.node.end, last.node.end, ',');
+}
+
+function removeChild(text: string, container: JsonNode, index: number): string {
+  const { children } = container;
+  const child = children[index];
+  if (children.length === 1) {
+    return splice(text, container.start + 1, container.end - 1, '');
+  }
+
+  const lineStart = text.lastIndexOf('\n', child.start - 1) + 1;
+  const end = memberEnd(text, child);
+  // A member on its own line goes with its line; the comma before it goes if it was the last one
+  if (/^[ \t]*$/.test(text.slice(lineStart, child.start)) && text[end] === '\n') {
+    const removed = splice(text, lineStart, end + 1, '');
+    const previous = children[index - 1];
+    return child.comma === undefined && previous?.comma !== undefined ? splice(removed, previous.comma, previous.comma + 1, '') : removed;
+  }
+  if (child.comma !== undefined) {
+    let next = child.comma + 1;
+    while (text[next] === ' ' || text[next] === '\t') next++;
+    return splice(text, child.start, next, '');
+  }
+  return splice(text, children[index - 1].comma!, child.node.end, '');
+}
+
+export const jsonEditor: ValueEditor = {
+  get(text, path) {
+    const { node, depth } = resolve(parseJson(text), path);
+    if (depth < path.length) {
+      throw notFound(path, depth);
+    }
+    return toData(node);
+  },
+
+  set(text, path, value) {
+    const { node, parent, depth } = resolve(parseJson(text), path);
+    if (depth === path.length) {
+      return replaceNode(text, node, parent, value);
+    }
+    const created = nest(path.slice(depth + 1), value);
+    if (node.kind === 'object') {
+      return insertChild(text, node, path[depth], created);
+    }
+    if (node.kind === 'array' && arrayIndex(node.children, path[depth], true) === node.children.length) {
+      return insertChild(text, node, undefined, created);
+    }
+    throw node.kind === 'array' ?
+      new Error(`No element ${path[depth]} in ${formatKeyPath(path.slice(0, depth))}, which has ${node.children.length}`) :
+      new Error(`Cannot set ${formatKeyPath(path)}: ${formatKeyPath(path.slice(0, depth))} is ${kindOf(node.value)}`);
+  },
+
+  remove(text, path) {
+    if (path.length === 0) {
+      throw new Error('Cannot delete the whole document');
+    }
+    const { node, depth } = resolve(parseJson(text), path.slice(0, -1));
+    const child = depth === path.length - 1 ? childOf(node, path[depth]) : undefined;
+    if (!child) {
+      throw notFound(path, depth);
+    }
+    return removeChild(text, node, node.children.indexOf(child));
+  },
+
+  append(text, path, value) {
+    const { node, parent, depth } = resolve(parseJson(text), path);
+    if (depth < path.length) {
+      return this.set(text, path, [value]);
+    }
+    if (node.kind === 'array') {
+      return insertChild(text, node, undefined, value);
+    }
+    if (node.kind === 'scalar' && node.value === null) {
+      return replaceNode(text, node, parent, [value]);
+    }
+    throw new Error(`Cannot append to ${formatKeyPath(path)}: it is ${kindOf(toData(node))}, not an array`);
+  },
+
+  keys(text) {
+    const root = parseJson(text);
+    return root.kind !== 'object' ? [] : root.children.map((child) => ({
+      key: child.key!,
+      line: lineOfOffset(text, child.start),
+      endLine: lineOfOffset(text, memberEnd(text, child))
+    }));
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * Key paths into structured documents
+ * Parsing and printing of paths such as dependencies.typescript or jobs.build.steps[0].name,
+ * and the plain-data operations the format editors share
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export type DataValue = string | number | boolean | null | DataValue[] | { [key: string]: DataValue };
+
+// Segments of a key path; array indices are kept as digit strings and resolved against the document
+export type KeyPath = string[];
+
+export interface ValueEditor {
+  get(text: string, path: KeyPath): DataValue;
+  // Missing parents are created as objects
+  set(text: string, path: KeyPath, value: DataValue): string;
+  remove(text: string, path: KeyPath): string;
+  // Missing or empty arrays are created
+  append(text: string, path: KeyPath, value: DataValue): string;
+  // Top-level keys (and TOML tables) in document order, for outlines
+  keys(text: string): KeyLines[];
+}
+
+// A key and the 1-based lines its entry spans
+export interface KeyLines {
+  key: string;
+  line: number;
+  endLine: number;
+}
+
+// 1-based line of a text offset
+export function lineOfOffset(text: string, offset: number): number {
+  let line = 1;
+  for (let index = text.indexOf('\n'); index >= 0 && index < offset; index = text.indexOf('\n', index + 1)) line++;
+  return line;
+}
+
+/**
+ * Split "a.b[0].c", 'scripts["build:prod"]' or 'a."x.y"' into segments. Brackets and quotes
+ * are only needed for keys that contain dots or brackets.
+ */
+export function parseKeyPath(path: string): KeyPath {
+  const segments: KeyPath = [];
+  const invalid = (reason: string) => new McpError(ErrorCode.InvalidParams, `Invalid key path "${path}": ${reason}`);
+  let index = 0;
+
+  while (index < path.length) {
+    if (path[index] === '[') {
+      const close = path.indexOf(']', index);
+      if (close < 0) throw invalid('unclosed [');
+      const inner = path.slice(index + 1, close).trim();
+      segments.push(/^["']/.test(inner) ? unquoteKey(inner, invalid) : inner);
+      index = close + 1;
+    } else if (path[index] === '"' || path[index] === '\'') {
+      const close = path.indexOf(path[index], index + 1);
+      if (close < 0) throw invalid('unclosed quote');
+      segments.push(path.slice(index + 1, close));
+      index = close + 1;
+    } else {
+      const end = path.slice(index).search(/[.[]/);
+      const segment = end < 0 ? path.slice(index) : path.slice(index, index + end);
+      if (!segment) throw invalid('empty key');
+      segments.push(segment);
+      index += segment.length;
+    }
+    if (path[index] === '.') {
+      index++;
+      if (index === path.length) throw invalid('ends with a dot');
+    } else if (index < path.length && path[index] !== '[') {
+      throw invalid(`unexpected "${path[index]}" at position ${index + 1}`);
+    }
+  }
+  return segments;
+}
+
+function unquoteKey(quoted: string, invalid: (reason: string) => Error): string {
+  if (quoted.length < 2 || quoted[quoted.length - 1] !== quoted[0]) {
+    throw invalid('unclosed quote');
+  }
+  return quoted.slice(1, -1);
+}
+
+// The path as written back in messages: a.b[0]
+export function formatKeyPath(path: KeyPath): string {
+  return path.map((segment, index) =>
+    /^\d+$/.test(segment) ? `[${segment}]` :
+    /^[\w$@/:-]+$/.test(segment) ? `${index > 0 ? '.' : ''}${segment}` :
+    `[${JSON.stringify(segment)}]`
+  ).join('') || '(root)';
+}
+
+export function notFound(path: KeyPath, depth: number): Error {
+  const parent = depth === 0 ? 'the document' : formatKeyPath(path.slice(0, depth));
+  return new Error(`Key path not found: ${formatKeyPath(path)} (${parent} has no "${path[depth]}")`);
+}
+
+export function kindOf(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+export function isCollection(value: unknown): value is DataValue[] | { [key: string]: DataValue } {
+  return typeof value === 'object' && value !== null;
+}
+
+// Index into an array for a path segment; length itself is allowed where noted, to add an element
+export function arrayIndex(items: unknown[], segment: string, allowEnd = false): number | undefined {
+  if (!/^\d+$/.test(segment)) return undefined;
+  const index = Number(segment);
+  return index < items.length || (allowEnd && index === items.length) ? index : undefined;
+}
+
+// Value at a path inside plain data, or undefined when some segment is missing
+export function lookup(data: DataValue, path: KeyPath): { value: DataValue } | undefined {
+  let current = data;
+  for (const segment of path) {
+    if (Array.isArray(current)) {
+      const index = arrayIndex(current, segment);
+      if (index === undefined) return undefined;
+      current = current[index];
+    } else if (isCollection(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return { value: current };
+}
+
+/**
+ * Plain-data version of an edit, for values written inline (flow collections, inline tables)
+ * that are rewritten whole. Returns the changed copy of data.
+ */
+export function editData(data: DataValue, path: KeyPath, action: 'set' | 'remove' | 'append', value?: DataValue): DataValue {
+  if (path.length === 0) {
+    if (action === 'set') return value!;
+    if (action === 'append' && Array.isArray(data)) return [...data, value!];
+    throw new Error(action === 'remove' ? 'Cannot delete the whole document' : `Cannot append to ${kindOf(data)}`);
+  }
+  const [segment, ...rest] = path;
+  if (Array.isArray(data)) {
+    const index = arrayIndex(data, segment, action === 'set' && rest.length === 0);
+    if (index === undefined) throw new Error(`No element ${segment} in an array of ${data.length}`);
+    const copy = [...data];
+    if (action === 'remove' && rest.length === 0) {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = editData(copy[index] ?? null, rest, action, value);
+    }
+    return copy;
+  }
+  if (isCollection(data)) {
+    const copy = { ...data };
+    if (action === 'remove' && rest.length === 0) {
+      if (!(segment in copy)) throw new Error(`No key "${segment}"`);
+      delete copy[segment];
+    } else {
+      const child = Object.prototype.hasOwnProperty.call(copy, segment) ? copy[segment] : undefined;
+      if (child === undefined && action === 'remove') throw new Error(`No key "${segment}"`);
+      copy[segment] = child === undefined ? nest(rest, action === 'append' ? [value!] : value!) : editData(child, rest, action, value);
+    }
+    return copy;
+  }
+  if (action === 'remove') throw new Error(`No key "${segment}" in ${kindOf(data)}`);
+  throw new Error(`Cannot set "${segment}" inside ${kindOf(data)}`);
+}
+
+// {a: {b: value}} for path a.b
+export function nest(path: KeyPath, value: DataValue): DataValue {
+  return path.reduceRight<DataValue>((inner, key) => ({ [key]: inner }), value);
+}
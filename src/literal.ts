@@ -0,0 +1,101 @@
+/**
+ * Literal text edits
+ * Exact-string find and replace and line edits done in-process, so multi-line text and
+ * characters that are special to sed or regexes need no escaping
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { splitLines } from './diff.js';
+import { Match } from './results.js';
+
+export type LineAction = 'replace' | 'delete' | 'insert_after' | 'insert_before';
+
+export interface Occurrence extends Match {
+  // Character offset into the text
+  offset: number;
+}
+
+// Non-overlapping occurrences of needle, with the 1-based line and column where each starts
+export function findOccurrences(text: string, needle: string): Occurrence[] {
+  const found: Occurrence[] = [];
+  if (!needle) {
+    return found;
+  }
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+  for (let offset = text.indexOf(needle); offset >= 0; offset = text.indexOf(needle, offset + needle.length)) {
+    for (let index = text.indexOf('\n', scanned); index >= 0 && index < offset; index = text.indexOf('\n', index + 1)) {
+      line++;
+      lineStart = index + 1;
+    }
+    scanned = offset;
+    const lineEnd = text.indexOf('\n', offset);
+    found.push({ offset, line, column: offset - lineStart + 1, text: text.slice(lineStart, lineEnd < 0 ? undefined : lineEnd) });
+  }
+  return found;
+}
+
+// Replace the given occurrences of find; the replacement is inserted as is
+export function replaceOccurrences(text: string, occurrences: Occurrence[], find: string, replace: string): string {
+  let result = '';
+  let last = 0;
+  for (const { offset } of occurrences) {
+    result += text.slice(last, offset) + replace;
+    last = offset + find.length;
+  }
+  return result + text.slice(last);
+}
+
+// "3:5, 10:1" for error messages
+export function formatLocations(occurrences: Occurrence[]): string {
+  return occurrences.map((entry) => `${entry.line}:${entry.column}`).join(', ');
+}
+
+// Content becomes lines; one trailing newline only ends the last line
+export function contentLines(content: string): string[] {
+  return (content.endsWith('\n') ? content.slice(0, -1) : content).split('\n');
+}
+
+/**
+ * 1-based bounds of a line range such as "10", "10,20", "5,$" or "$" (read_file separates with
+ * "-"). Without lineCount, for a large file that is only streamed, "$" is open-ended and the
+ * range is not checked against the end of the file.
+ */
+export function parseLineRange(range: string, lineCount?: number, separator: ',' | '-' = ','): { start: number; end: number } {
+  const parsed = new RegExp(`^(\\d+|\\$)(?:${separator}(\\d+|\\$))?$`).exec(range);
+  if (!parsed) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid line range: ${range}`);
+  }
+  const toLine = (value: string) => value === '$' ? lineCount ?? Infinity : Number(value);
+  const start = toLine(parsed[1]);
+  const end = parsed[2] === undefined ? start : toLine(parsed[2]);
+  if (start < 1 || end < start || (lineCount !== undefined && end > lineCount)) {
+    throw new Error(`Line range ${range} is out of range (file has ${lineCount} lines)`);
+  }
+  return { start, end };
+}
+
+/**
+ * Apply a line_edit action to lines start-end. A replaced range becomes the content once;
+ * inserts go after the last or before the first line of the range.
+ */
+export function editLines(text: string, start: number, end: number, action: LineAction, content: string): string {
+  const { lines, trailingNewline } = splitLines(text);
+  const block = contentLines(content);
+  switch (action) {
+    case 'replace':
+      lines.splice(start - 1, end - start + 1, ...block);
+      break;
+    case 'delete':
+      lines.splice(start - 1, end - start + 1);
+      break;
+    case 'insert_after':
+      lines.splice(end, 0, ...block);
+      break;
+    case 'insert_before':
+      lines.splice(start - 1, 0, ...block);
+      break;
+  }
+  return lines.length === 0 ? '' : lines.join('\n') + (trailingNewline ? '\n' : '');
+}
@@ -0,0 +1,246 @@
+/**
+ * File outlines for the outline tool
+ * TypeScript and JavaScript go through the TypeScript parser, Markdown is split at its
+ * headings, JSON, YAML and TOML list their top-level keys, and any other text is outlined
+ * from its indentation: a line followed by more indented lines opens a block.
+ */
+
+import { extname } from 'path';
+import type { Node, SourceFile } from 'typescript';
+import { editorFor, formatOf } from './structured.js';
+import { loadTypeScript } from './validate.js';
+
+export interface OutlineSymbol {
+  name: string;
+  // function, class, method, h2, key, block, ...
+  kind: string;
+  // 1-based and inclusive
+  line: number;
+  endLine: number;
+  children: OutlineSymbol[];
+}
+
+export interface Outline {
+  language: string;
+  symbols: OutlineSymbol[];
+}
+
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'typescript', '.mts': 'typescript', '.cts': 'typescript',
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript'
+};
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown', '.mdx']);
+
+async function scriptOutline(file: string, text: string): Promise<OutlineSymbol[]> {
+  const ts = await loadTypeScript();
+  const source: SourceFile = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true);
+
+  const symbol = (node: Node, name: string, kind: string, children: OutlineSymbol[] = []): OutlineSymbol => ({
+    name,
+    kind,
+    // Leading comments and JSDoc are not part of the range
+    line: source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1,
+    endLine: source.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    children
+  });
+  const nameOf = (node: { name?: Node }, fallback: string) => node.name ? node.name.getText(source) : fallback;
+
+  // as const, satisfies and parentheses around an initializer
+  const unwrap = (node: Node): Node =>
+    ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node) ? unwrap(node.expression) : node;
+
+  const classMembers = (members: readonly Node[]): OutlineSymbol[] => members.flatMap((member) => {
+    if (ts.isConstructorDeclaration(member)) return [symbol(member, 'constructor', 'constructor')];
+    if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) return [symbol(member, nameOf(member, '(method)'), 'method')];
+    if (ts.isGetAccessorDeclaration(member)) return [symbol(member, nameOf(member, '(getter)'), 'getter')];
+    if (ts.isSetAccessorDeclaration(member)) return [symbol(member, nameOf(member, '(setter)'), 'setter')];
+    if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) return [symbol(member, nameOf(member, '(property)'), 'property')];
+    if (ts.isEnumMember(member)) return [symbol(member, nameOf(member, '(member)'), 'member')];
+    return [];
+  });
+
+  // Declarations whose value has an outline of its own: functions, classes and object literals
+  const valueSymbol = (node: Node, initializer: Node | undefined, name: string, fallbackKind: string): OutlineSymbol => {
+    const value = initializer && unwrap(initializer);
+    if (!value) return symbol(node, name, fallbackKind);
+    if (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) return symbol(node, name, 'function');
+    if (ts.isClassExpression(value)) return symbol(node, name, 'class', classMembers(value.members));
+    if (ts.isObjectLiteralExpression(value)) return symbol(node, name, fallbackKind, objectMembers(value.properties));
+    return symbol(node, name, fallbackKind);
+  };
+
+  const objectMembers = (properties: readonly Node[]): OutlineSymbol[] => properties.flatMap((property) => {
+    if (ts.isMethodDeclaration(property)) return [symbol(property, nameOf(property, '(method)'), 'method')];
+    if (ts.isPropertyAssignment(property)) return [valueSymbol(property, property.initializer, nameOf(property, '(property)'), 'property')];
+    if (ts.isShorthandPropertyAssignment(property)) return [symbol(property, nameOf(property, '(property)'), 'property')];
+    return [];
+  });
+
+  const statements = (nodes: readonly Node[]): OutlineSymbol[] => nodes.flatMap((node): OutlineSymbol[] => {
+    if (ts.isFunctionDeclaration(node)) return [symbol(node, nameOf(node, 'default'), 'function')];
+    if (ts.isClassDeclaration(node)) return [symbol(node, nameOf(node, 'default'), 'class', classMembers(node.members))];
+    if (ts.isInterfaceDeclaration(node)) return [symbol(node, nameOf(node, ''), 'interface', classMembers(node.members))];
+    if (ts.isTypeAliasDeclaration(node)) return [symbol(node, nameOf(node, ''), 'type')];
+    if (ts.isEnumDeclaration(node)) return [symbol(node, nameOf(node, ''), 'enum', classMembers(node.members))];
+    if (ts.isModuleDeclaration(node)) {
+      const body = node.body && ts.isModuleBlock(node.body) ? statements(node.body.statements) : [];
+      return [symbol(node, nameOf(node, ''), 'namespace', body)];
+    }
+    if (ts.isExportAssignment(node)) return [valueSymbol(node, node.expression, 'default', 'export')];
+    if (ts.isVariableStatement(node)) {
+      const { flags } = node.declarationList;
+      const kind = flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var';
+      const { declarations } = node.declarationList;
+      // A single declaration covers its whole statement, export keyword included
+      return declarations.map((declaration) =>
+        valueSymbol(declarations.length === 1 ? node : declaration, declaration.initializer, declaration.name.getText(source), kind));
+    }
+    return [];
+  });
+
+  return statements(source.statements);
+}
+
+// ATX (# Title) and setext (Title over === or ---) headings, outside fenced code blocks
+function markdownOutline(lines: string[]): OutlineSymbol[] {
+  const headings: { level: number; symbol: OutlineSymbol }[] = [];
+  let fence: string | undefined;
+  // YAML front matter is not a heading
+  const frontMatterEnd = lines[0] === '---' ? lines.indexOf('---', 1) : -1;
+  lines.forEach((line, index) => {
+    if (index <= frontMatterEnd) return;
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+      fence = fence ? undefined : marker;
+      return;
+    }
+    if (fence) return;
+
+    const atx = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/.exec(line);
+    if (atx) {
+      const level = atx[1].length;
+      headings.push({ level, symbol: { name: atx[2] ?? '', kind: `h${level}`, line: index + 1, endLine: 0, children: [] } });
+      return;
+    }
+    // The underlined line must be plain paragraph text, not a heading, list item, quote or rule
+    const title = lines[index - 1] ?? '';
+    const underline = /^ {0,3}(=+|-+)[ \t]*$/.exec(line);
+    if (underline && index - 1 > frontMatterEnd && /\S/.test(title) && !/^ {0,3}(#|[-*+>]|\d+[.)]|```|~~~)/.test(title) &&
+      !/^\s*([-*_]\s*){3,}$/.test(title)) {
+      const level = underline[1][0] === '=' ? 1 : 2;
+      headings.push({ level, symbol: { name: title.trim(), kind: `h${level}`, line: index, endLine: 0, children: [] } });
+    }
+  });
+
+  // A section ends before the next heading of the same or a higher level
+  const symbols: OutlineSymbol[] = [];
+  const open: { level: number; symbol: OutlineSymbol }[] = [];
+  const lastLine = lines.length - (lines.at(-1) === '' ? 1 : 0);
+  for (const heading of headings) {
+    while (open.length > 0 && open.at(-1)!.level >= heading.level) {
+      open.pop()!.symbol.endLine = heading.symbol.line - 1;
+    }
+    (open.at(-1)?.symbol.children ?? symbols).push(heading.symbol);
+    open.push(heading);
+  }
+  for (const heading of open) {
+    heading.symbol.endLine = lastLine;
+  }
+  return symbols;
+}
+
+// Lines that open control flow rather than a definition; what they contain is still outlined
+const CONTROL_FLOW = /^(if|else|elif|elsif|unless|for|foreach|while|until|do|try|catch|except|finally|with|switch|case|select|when|loop|begin|rescue|ensure)\b/;
+const COMMENT = /^(#|\/\/|\/\*|\*|--|;|%|<!--)/;
+// Closing lines at a block's own indentation still belong to it: }, ), end, fi, done, esac
+const CLOSING = /^([\]})]+[;,)]*|end|fi|done|esac|endif|endfunction)$/;
+
+function indentOf(line: string): number {
+  return /^[ \t]*/.exec(line.replace(/\t/g, '    '))![0].length;
+}
+
+function indentationOutline(lines: string[]): OutlineSymbol[] {
+  const content = lines.map((line) => line.trim() !== '');
+  const nextContent = (from: number) => {
+    let index = from;
+    while (index < lines.length && !content[index]) index++;
+    return index;
+  };
+
+  const symbols: OutlineSymbol[] = [];
+  const open: { indent: number; symbol: OutlineSymbol }[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    if (!content[index]) continue;
+    const indent = indentOf(lines[index]);
+    const text = lines[index].trim();
+    const next = nextContent(index + 1);
+    if (next >= lines.length || indentOf(lines[next]) <= indent) continue;
+
+    // The block runs until the next line at its indentation or less, plus closing lines there
+    let end = next;
+    for (let scan = nextContent(next + 1); scan < lines.length && indentOf(lines[scan]) > indent; scan = nextContent(scan + 1)) {
+      end = scan;
+    }
+    const after = nextContent(end + 1);
+    if (after < lines.length && indentOf(lines[after]) === indent && CLOSING.test(lines[after].trim())) {
+      end = after;
+    }
+
+    while (open.length > 0 && (open.at(-1)!.symbol.endLine < index + 1 || open.at(-1)!.indent >= indent)) open.pop();
+    if (CONTROL_FLOW.test(text) || COMMENT.test(text) || /^[\]})]/.test(text)) continue;
+
+    const symbol: OutlineSymbol = {
+      name: text.length > 80 ? `${text.slice(0, 77)}...` : text,
+      kind: 'block',
+      line: index + 1,
+      endLine: end + 1,
+      children: []
+    };
+    (open.at(-1)?.symbol.children ?? symbols).push(symbol);
+    open.push({ indent, symbol });
+  }
+  return symbols;
+}
+
+export async function outlineOf(file: string, text: string): Promise<Outline> {
+  const extension = extname(file).toLowerCase();
+  const language = SCRIPT_LANGUAGES[extension];
+  if (language) {
+    return { language, symbols: await scriptOutline(file, text) };
+  }
+  if (MARKDOWN_EXTENSIONS.has(extension)) {
+    return { language: 'markdown', symbols: markdownOutline(text.split('\n')) };
+  }
+  const format = formatOf(file);
+  if (format) {
+    const symbols = editorFor(file).keys(text).map(({ key, line, endLine }) => ({
+      name: key,
+      kind: key.startsWith('[') && format === 'toml' ? 'table' : 'key',
+      line,
+      endLine,
+      children: []
+    }));
+    return { language: format, symbols };
+  }
+  return { language: 'text', symbols: indentationOutline(text.split('\n')) };
+}
+
+// Symbols nested no deeper than depth levels (1 = top level only)
+export function limitDepth(symbols: OutlineSymbol[], depth: number): OutlineSymbol[] {
+  return depth <= 1 ?
+    symbols.map((symbol) => ({ ...symbol, children: [] })) :
+    symbols.map((symbol) => ({ ...symbol, children: limitDepth(symbol.children, depth - 1) }));
+}
+
+export function countSymbols(symbols: OutlineSymbol[]): number {
+  return symbols.reduce((sum, symbol) => sum + 1 + countSymbols(symbol.children), 0);
+}
+
+// One line per symbol, indented by nesting: "  method getUser (12-20)"
+export function formatOutline(symbols: OutlineSymbol[], level = 0): string[] {
+  return symbols.flatMap((symbol) => [
+    `${'  '.repeat(level)}${symbol.kind} ${symbol.name} (${symbol.line === symbol.endLine ? `line ${symbol.line}` : `lines ${symbol.line}-${symbol.endLine}`})`,
+    ...formatOutline(symbol.children, level + 1)
+  ]);
+}
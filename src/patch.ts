@@ -0,0 +1,211 @@
+/**
+ * Unified diff parsing and hunk application for apply_patch
+ * Hunks are matched like patch(1) does: at the line the hunk header names, shifted by the
+ * offset earlier hunks needed, then at growing distances from there. With fuzz, up to that many
+ * context lines at either end of a hunk may be ignored when it does not match in full.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { NO_NEWLINE, splitLines } from './diff.js';
+
+export interface PatchHunk {
+  // Header line numbers; a hunk with no old lines inserts after line oldStart
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Body lines prefixed with ' ', '-' or '+'
+  lines: string[];
+  // The last old or new line has no newline ("\ No newline at end of file")
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export interface FilePatch {
+  // null for /dev/null: the file is created (old) or deleted (new)
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface HunkStatus {
+  file: string;
+  // 1-based, in the order of the patch; absent for a problem with the file as a whole
+  hunk?: number;
+  status: 'applied' | 'failed';
+  // Line the hunk was applied at, how far that is from where its header put it, and the fuzz used
+  line?: number;
+  offset?: number;
+  fuzz?: number;
+  reason?: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function invalid(lineNumber: number, message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Invalid patch at line ${lineNumber}: ${message}`);
+}
+
+// Path from a ---/+++ header, without a trailing timestamp; null for /dev/null
+function headerPath(line: string): string | null {
+  const path = line.slice(4).split('\t')[0].trim();
+  return path === '/dev/null' ? null : path.replace(/^"(.*)"$/, '$1');
+}
+
+function stripPath(path: string | null, components: number): string | null {
+  return path === null ? null : path.split('/').slice(components).join('/');
+}
+
+/**
+ * Split a multi-file unified diff into per-file patches. Text around the file sections
+ * (commit messages, "diff --git" and "index" lines) is skipped. strip removes leading path
+ * components like patch -p; by default a/ and b/ prefixes are removed when both sides have them.
+ */
+export function parsePatch(text: string, strip?: number): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) {
+      if (HUNK_HEADER.test(lines[i])) {
+        throw invalid(i + 1, 'hunk without ---/+++ file headers');
+      }
+      continue;
+    }
+    const patch: FilePatch = { oldPath: headerPath(lines[i]), newPath: headerPath(lines[i + 1]), hunks: [] };
+    i += 2;
+
+    while (i < lines.length && HUNK_HEADER.test(lines[i])) {
+      const [, oldStart, oldLines = '1', newStart, newLines = '1'] = HUNK_HEADER.exec(lines[i])!;
+      const hunk: PatchHunk = {
+        oldStart: Number(oldStart), oldLines: Number(oldLines), newStart: Number(newStart), newLines: Number(newLines),
+        lines: [], oldNoNewline: false, newNoNewline: false
+      };
+      let oldCount = 0;
+      let newCount = 0;
+      for (i++; i < lines.length && (oldCount < hunk.oldLines || newCount < hunk.newLines); i++) {
+        // Editors that trim trailing whitespace turn an empty context line into an empty line
+        const line = lines[i] === '' ? ' ' : lines[i];
+        const kind = line[0];
+        if (kind !== ' ' && kind !== '-' && kind !== '+') {
+          throw invalid(i + 1, `hunk ${formatRange(hunk)} has ${oldCount} of ${hunk.oldLines} old and ${newCount} of ${hunk.newLines} new lines`);
+        }
+        hunk.lines.push(line);
+        if (kind !== '+') oldCount++;
+        if (kind !== '-') newCount++;
+        // The marker follows the line it applies to
+        if (lines[i + 1] === NO_NEWLINE) {
+          if (kind !== '+') hunk.oldNoNewline = true;
+          if (kind !== '-') hunk.newNoNewline = true;
+          i++;
+        }
+      }
+      if (oldCount < hunk.oldLines || newCount < hunk.newLines) {
+        throw invalid(i, `hunk ${formatRange(hunk)} ends early`);
+      }
+      patch.hunks.push(hunk);
+    }
+    i--;
+
+    if (patch.hunks.length === 0 && (patch.oldPath === null) === (patch.newPath === null)) {
+      throw invalid(i + 1, `no hunks for ${patch.newPath ?? patch.oldPath}`);
+    }
+    patches.push(patch);
+  }
+
+  if (patches.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid patch: no "--- file" / "+++ file" headers found');
+  }
+
+  const components = strip ?? (patches.every(({ oldPath, newPath }) =>
+    (oldPath === null || oldPath.startsWith('a/')) && (newPath === null || newPath.startsWith('b/'))) ? 1 : 0);
+  return patches.map((patch) => ({ ...patch, oldPath: stripPath(patch.oldPath, components), newPath: stripPath(patch.newPath, components) }));
+}
+
+function formatRange(hunk: PatchHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  return at >= 0 && at + expected.length <= lines.length && expected.every((line, index) => lines[at + index] === line);
+}
+
+// Nearest position to start, at or after min, where expected occurs
+function search(lines: string[], expected: string[], start: number, min: number): number | undefined {
+  const last = lines.length - expected.length;
+  for (let distance = 0; start - distance >= min || start + distance <= last; distance++) {
+    if (start + distance >= min && matchesAt(lines, expected, start + distance)) return start + distance;
+    if (distance > 0 && start - distance >= min && matchesAt(lines, expected, start - distance)) return start - distance;
+  }
+  return undefined;
+}
+
+/**
+ * Apply the hunks of one file patch to its text, in order. Each hunk is reported; the text is
+ * only meaningful when every hunk applied. original is '' for a file the patch creates.
+ * finalNewline is set when a hunk at the end of the file adds or removes the last newline.
+ */
+export function applyFilePatch(file: string, original: string, patch: FilePatch, maxFuzz: number): { text: string; statuses: HunkStatus[]; finalNewline?: boolean } {
+  const { lines, trailingNewline } = splitLines(original);
+  let finalNewline: boolean | undefined;
+  const statuses: HunkStatus[] = [];
+  // Lines added or removed by the hunks so far, and where the next hunk may start
+  let offset = 0;
+  let min = 0;
+
+  patch.hunks.forEach((hunk, index) => {
+    const before = hunk.lines.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+    const after = hunk.lines.filter((line) => line[0] !== '-').map((line) => line.slice(1));
+    // Context lines before the first and after the last change, the ones fuzz may drop
+    const leading = Math.max(hunk.lines.findIndex((line) => line[0] !== ' '), 0);
+    const trailing = Math.max([...hunk.lines].reverse().findIndex((line) => line[0] !== ' '), 0);
+    // Header line numbers are 1-based; an insertion-only hunk goes after oldStart
+    const expected = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const head = Math.min(fuzz, leading);
+      const tail = Math.min(fuzz, trailing);
+      if (fuzz > 0 && head === 0 && tail === 0) break;
+      const pattern = before.slice(head, before.length - tail);
+      // Fuzz never leaves a hunk with nothing to match
+      if (pattern.length === 0 && before.length > 0) break;
+      const at = pattern.length === 0 ?
+        Math.min(Math.max(expected + head, min), lines.length) :
+        search(lines, pattern, expected + head, min);
+      if (at === undefined) continue;
+
+      const replacement = after.slice(head, after.length - tail);
+      lines.splice(at, pattern.length, ...replacement);
+      statuses.push({ file, hunk: index + 1, status: 'applied', line: at - head + 1, offset: at - head - expected, fuzz });
+      offset += replacement.length - pattern.length;
+      min = at + replacement.length;
+      // A hunk that reaches the end of the file decides whether it ends with a newline
+      if (at + replacement.length === lines.length && (hunk.oldNoNewline || hunk.newNoNewline)) {
+        finalNewline = !hunk.newNoNewline;
+      }
+      return;
+    }
+
+    const applied = after.length > 0 && search(lines, after, Math.max(expected, 0), 0) !== undefined && before.length > 0 &&
+      search(lines, before, Math.max(expected, 0), 0) === undefined;
+    statuses.push({
+      file, hunk: index + 1, status: 'failed',
+      reason: applied ?
+        `${formatRange(hunk)} looks already applied: its new lines are in the file and its old lines are not` :
+        `${formatRange(hunk)} does not match the file near line ${expected + 1}${maxFuzz > 0 ? `, even with fuzz ${maxFuzz}` : ''}`
+    });
+  });
+
+  const text = lines.length === 0 ? '' : lines.join('\n') + (finalNewline ?? trailingNewline ? '\n' : '');
+  return { text, statuses, finalNewline };
+}
+
+export function formatHunkStatus(status: HunkStatus): string {
+  const label = status.hunk === undefined ? status.file : `${status.file} hunk ${status.hunk}`;
+  if (status.status === 'failed') {
+    return `✗ ${label}: ${status.reason}`;
+  }
+  const offset = status.offset ? `, offset ${status.offset > 0 ? '+' : ''}${status.offset} lines` : '';
+  const fuzz = status.fuzz ? `, fuzz ${status.fuzz}` : '';
+  return `✓ ${label} at line ${status.line}${offset}${fuzz}`;
+}
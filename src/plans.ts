@@ -0,0 +1,112 @@
+/**
+ * Replace plans
+ * plan_replace stores every line it would change as a numbered hunk under <root>/.smalledit/plans/,
+ * and apply_plan later writes all of them or a chosen subset
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import { ServerConfig } from './config.js';
+
+const PLAN_DIR = '.smalledit/plans';
+
+// Plans that were never applied are removed after a day
+const PLAN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanHunk {
+  id: number;
+  file: string;
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface ReplacePlan {
+  id: string;
+  createdAt: string;
+  find: string;
+  replace: string;
+  // Content hash of every file with hunks when the plan was made
+  files: { file: string; hash: string }[];
+  hunks: PlanHunk[];
+}
+
+function planPath(config: ServerConfig, id: string): string {
+  return join(config.root, PLAN_DIR, `${id}.json`);
+}
+
+export function newPlanId(): string {
+  return `plan-${randomBytes(4).toString('hex')}`;
+}
+
+// One hunk per line the regex changes, numbered later across all files
+export function planLines(content: string, regex: RegExp, replacement: string): Omit<PlanHunk, 'id' | 'file'>[] {
+  const hunks: Omit<PlanHunk, 'id' | 'file'>[] = [];
+  content.split('\n').forEach((before, index) => {
+    regex.lastIndex = 0;
+    const after = before.replace(regex, replacement);
+    if (after !== before) {
+      hunks.push({ line: index + 1, before, after });
+    }
+  });
+  return hunks;
+}
+
+// Apply a file's chosen hunks; every target line must still read as planned
+export function applyHunks(content: string, hunks: PlanHunk[]): string {
+  const lines = content.split('\n');
+  for (const hunk of hunks) {
+    if (lines[hunk.line - 1] !== hunk.before) {
+      throw new Error(`Hunk ${hunk.id} no longer matches ${hunk.file}:${hunk.line}`);
+    }
+    lines[hunk.line - 1] = hunk.after;
+  }
+  return lines.join('\n');
+}
+
+// Hunks listed per plan_replace response
+export const PLAN_PAGE_SIZE = 50;
+
+export function planPage(hunks: PlanHunk[], page: number): { hunks: PlanHunk[]; page: number; pages: number } {
+  const pages = Math.max(1, Math.ceil(hunks.length / PLAN_PAGE_SIZE));
+  const current = Math.min(Math.max(1, Math.floor(page)), pages);
+  return { hunks: hunks.slice((current - 1) * PLAN_PAGE_SIZE, current * PLAN_PAGE_SIZE), page: current, pages };
+}
+
+// "#3 src/app.ts:12" followed by the line before and after
+export function formatPlanHunk(hunk: PlanHunk): string {
+  return `#${hunk.id} ${hunk.file}:${hunk.line}\n- ${hunk.before}\n+ ${hunk.after}`;
+}
+
+async function pruneStalePlans(config: ServerConfig): Promise<void> {
+  const dir = join(config.root, PLAN_DIR);
+  if (!existsSync(dir)) {
+    return;
+  }
+  for (const entry of await readdir(dir)) {
+    const path = join(dir, entry);
+    if (Date.now() - (await stat(path)).mtimeMs > PLAN_MAX_AGE_MS) {
+      await rm(path, { force: true });
+    }
+  }
+}
+
+export async function savePlan(config: ServerConfig, plan: ReplacePlan): Promise<void> {
+  await pruneStalePlans(config);
+  await mkdir(join(config.root, PLAN_DIR), { recursive: true });
+  await writeFile(planPath(config, plan.id), JSON.stringify(plan));
+}
+
+export async function loadPlan(config: ServerConfig, id: string): Promise<ReplacePlan> {
+  // Plan ids are generated by newPlanId; anything else cannot name a plan file
+  if (!/^plan-[0-9a-f]+$/.test(id) || !existsSync(planPath(config, id))) {
+    throw new Error(`No replace plan ${id} (plans are removed once applied or after a day)`);
+  }
+  return JSON.parse(await readFile(planPath(config, id), 'utf-8'));
+}
+
+export async function deletePlan(config: ServerConfig, id: string): Promise<void> {
+  await rm(planPath(config, id), { force: true });
+}
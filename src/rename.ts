@@ -0,0 +1,166 @@
+/**
+ * Symbol renames through the TypeScript language service
+ * The project is loaded from the tsconfig.json (or jsconfig.json) nearest to the file, with
+ * every source read the way the edit tools read it, so the offsets the service reports apply
+ * to the text that is edited. Nothing is written here: the caller gets one staged edit per file.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { LanguageServiceHost, RenameLocation } from 'typescript';
+import { ServerConfig } from './config.js';
+import { decodeText } from './encoding.js';
+import { StagedEdit } from './files.js';
+import { describeViolation, findViolation, toRelative } from './sandbox.js';
+import { loadTypeScript } from './validate.js';
+
+export interface RenameRequest {
+  file: string;
+  line: number;
+  column?: number;
+  oldName?: string;
+  newName: string;
+  // Absolute path of the tsconfig.json or jsconfig.json to load instead of the nearest one
+  project?: string;
+}
+
+export interface RenamePlan {
+  symbol: string;
+  kind: string;
+  project: string;
+  locations: number;
+  edits: StagedEdit[];
+}
+
+const CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+// Nearest project file from the file's directory up to the workspace root
+function findProject(config: ServerConfig, file: string): string {
+  for (let dir = dirname(file); ; dir = dirname(dir)) {
+    const found = CONFIG_NAMES.map((name) => join(dir, name)).find((candidate) => existsSync(candidate));
+    if (found) {
+      return found;
+    }
+    if (dir === config.root || dir === dirname(dir)) {
+      throw new Error(`No tsconfig.json or jsconfig.json between ${toRelative(config, dirname(file))} and the workspace root; pass project`);
+    }
+  }
+}
+
+// Offset of a 1-based line and column; without a column, of the first whole-word oldName on the line
+function offsetOf(text: string, request: RenameRequest): number {
+  const lines = text.split('\n');
+  if (request.line < 1 || request.line > lines.length) {
+    throw new Error(`Line ${request.line} is out of range (${request.file} has ${lines.length} lines)`);
+  }
+  const lineStart = lines.slice(0, request.line - 1).reduce((sum, line) => sum + line.length + 1, 0);
+  const lineText = lines[request.line - 1];
+  if (request.column !== undefined) {
+    if (request.column < 1 || request.column > lineText.length + 1) {
+      throw new Error(`Column ${request.column} is out of range (line ${request.line} has ${lineText.length} characters)`);
+    }
+    return lineStart + request.column - 1;
+  }
+  const escaped = request.oldName!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(lineText);
+  if (!match) {
+    throw new Error(`"${request.oldName}" does not occur on line ${request.line} of ${request.file}`);
+  }
+  return lineStart + match.index;
+}
+
+// An identifier or a contextual keyword such as type or of; reserved words are refused
+function isValidName(ts: typeof import('typescript'), name: string): boolean {
+  const { SyntaxKind } = ts;
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, name);
+  const kind = scanner.scan();
+  const reserved = kind >= SyntaxKind.FirstReservedWord && kind <= SyntaxKind.LastReservedWord;
+  const word = kind === SyntaxKind.Identifier || (kind >= SyntaxKind.FirstKeyword && kind <= SyntaxKind.LastKeyword && !reserved);
+  return word && scanner.getTextPos() === name.length;
+}
+
+export async function planRename(config: ServerConfig, absoluteFile: string, request: RenameRequest): Promise<RenamePlan> {
+  const ts = await loadTypeScript();
+
+  if (!isValidName(ts, request.newName)) {
+    throw new Error(`"${request.newName}" is not a valid identifier`);
+  }
+
+  const project = request.project ?? findProject(config, absoluteFile);
+  const read = ts.readConfigFile(project, ts.sys.readFile);
+  if (read.error) {
+    throw new Error(`Cannot read ${toRelative(config, project)}: ${ts.flattenDiagnosticMessageText(read.error.messageText, ' ')}`);
+  }
+  const parsed = ts.parseJsonConfigFileContent(read.config, ts.sys, dirname(project), undefined, project);
+  const fileNames = parsed.fileNames.includes(absoluteFile) ? parsed.fileNames : [...parsed.fileNames, absoluteFile];
+
+  // Sources decoded like readText does, so CRLF files and BOMs give the same offsets
+  const texts = new Map<string, string | undefined>();
+  const textOf = (file: string) => {
+    if (!texts.has(file)) {
+      texts.set(file, existsSync(file) ? decodeText(readFileSync(file)).text : undefined);
+    }
+    return texts.get(file);
+  };
+  const host: LanguageServiceHost = {
+    getScriptFileNames: () => fileNames,
+    getScriptVersion: () => '0',
+    getScriptSnapshot: (file) => {
+      const text = textOf(file);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => dirname(project),
+    getCompilationSettings: () => parsed.options,
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: ts.sys.fileExists,
+    readFile: (file) => textOf(file),
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories
+  };
+  const service = ts.createLanguageService(host);
+
+  const source = textOf(absoluteFile)!;
+  const position = offsetOf(source, request);
+  const info = service.getRenameInfo(absoluteFile, position, { allowRenameOfImportPath: false });
+  if (!info.canRename) {
+    throw new Error(`Cannot rename at ${request.file}:${request.line}: ${info.localizedErrorMessage}`);
+  }
+  if (request.oldName !== undefined && info.displayName !== request.oldName) {
+    throw new Error(`The symbol at ${request.file}:${request.line} is "${info.displayName}", not "${request.oldName}"`);
+  }
+
+  // Imports and re-exports take the new name too. Shorthand properties ({ foo } becoming
+  // { foo: bar }) keep their property name, using the texts the service suggests for them
+  // when the rename starts at the declaration; started at an import, it would only rename locally.
+  const locations = service.findRenameLocations(absoluteFile, position, false, false, { providePrefixAndSuffixTextForRename: false }) ?? [];
+  const [definition] = service.getDefinitionAtPosition(absoluteFile, position) ?? [];
+  const origin = definition ? { file: definition.fileName, position: definition.textSpan.start } : { file: absoluteFile, position };
+  const shorthand = new Map<string, RenameLocation>();
+  for (const location of service.findRenameLocations(origin.file, origin.position, false, false, { providePrefixAndSuffixTextForRename: true }) ?? []) {
+    if (location.prefixText?.endsWith(': ') || location.suffixText?.startsWith(': ')) {
+      shorthand.set(`${location.fileName}:${location.textSpan.start}`, location);
+    }
+  }
+
+  const byFile = new Map<string, RenameLocation[]>();
+  for (const location of locations) {
+    const violation = findViolation(config, location.fileName);
+    if (violation) {
+      throw new Error(`Renaming ${info.displayName} would change a file that cannot be edited: ${describeViolation(location.fileName, violation)}`);
+    }
+    byFile.set(location.fileName, [...(byFile.get(location.fileName) ?? []), shorthand.get(`${location.fileName}:${location.textSpan.start}`) ?? location]);
+  }
+
+  const edits: StagedEdit[] = [];
+  for (const [file, fileLocations] of byFile) {
+    const original = textOf(file)!;
+    // Back to front, so earlier offsets stay valid
+    const updated = [...fileLocations]
+      .sort((a, b) => b.textSpan.start - a.textSpan.start)
+      .reduce((text, { textSpan, prefixText = '', suffixText = '' }) =>
+        text.slice(0, textSpan.start) + prefixText + request.newName + suffixText + text.slice(textSpan.start + textSpan.length), original);
+    edits.push({ file, original, updated });
+  }
+  return { symbol: info.displayName, kind: info.kind, project, locations: locations.length, edits };
+}
@@ -0,0 +1,258 @@
+/**
+ * Structured tool results
+ * Every tool returns its human-readable text plus one JSON block with the payload typed here,
+ * so clients do not have to parse the prose.
+ */
+
+import { diffPage, diffStats, FileDiff, unifiedDiff } from './diff.js';
+import { GitCommit, GitFileStatus } from './git.js';
+import { BackupVersion, versionPath } from './history.js';
+import { OutlineSymbol } from './outline.js';
+import { HunkStatus } from './patch.js';
+import { PlanHunk } from './plans.js';
+import { SkipReason } from './walk.js';
+
+export interface Match {
+  // 1-based line and column of the first match on the line
+  line: number;
+  column: number;
+  text: string;
+}
+
+export interface NumberedLine {
+  line: number;
+  text: string;
+}
+
+export interface FileEditResult {
+  file: string;
+  status: 'changed' | 'unchanged' | 'failed';
+  linesAdded: number;
+  linesRemoved: number;
+  replacements?: number;
+  // Workspace-relative snapshot of the previous content, when a backup was made
+  backupPath?: string;
+  // Glob pattern that selected the file, for multi-file edits
+  pattern?: string;
+  error?: string;
+}
+
+export interface EditResult {
+  dryRun: boolean;
+  filesChanged: string[];
+  linesAdded: number;
+  linesRemoved: number;
+  replacements?: number;
+  backupPath?: string;
+  files: FileEditResult[];
+  // Only for dry runs and previews: the requested page of the unified diff
+  diff?: string;
+  page?: number;
+  pages?: number;
+  // Only for atomic multi-file edits: false when every file was rolled back
+  committed?: boolean;
+  // Only for multi-file edits: files and directories left out by ignore files and default excludes
+  skipped?: SkipReason[];
+  // Problems noticed while writing, such as an edit that mixed line endings
+  warnings?: string[];
+}
+
+export interface AwkResult extends EditResult {
+  // Script output when no outputFile was given
+  output?: string;
+}
+
+export interface PatchResult extends EditResult {
+  // Outcome of every hunk, in patch order
+  hunks?: HunkStatus[];
+}
+
+export interface ValueResult extends EditResult {
+  // Only for action "get": the value at the key path
+  value?: unknown;
+}
+
+export interface FileStamp {
+  file: string;
+  // Not computed for large files, which are streamed rather than read whole
+  hash?: string;
+  mtime: string;
+}
+
+export interface ReadResult extends FileStamp {
+  // Unknown when a large file was only streamed up to the requested lines
+  totalLines?: number;
+  lines: NumberedLine[];
+  truncated?: boolean;
+  matches?: Match[];
+  // Only for binary files, which are summarized instead of shown as lines
+  binary?: boolean;
+  size?: number;
+}
+
+export interface SearchResult extends FileStamp {
+  matchCount: number;
+  matches: Match[];
+}
+
+// A search match with the lines around it
+export interface ContextMatch extends Match {
+  before: NumberedLine[];
+  after: NumberedLine[];
+}
+
+export interface SearchFilesResult {
+  filesSearched: number;
+  filesMatched: number;
+  // Matching lines in the files searched; the search stops early when limitReached is true
+  totalMatches: number;
+  limitReached: boolean;
+  files: { file: string; matchCount: number; matches: ContextMatch[] }[];
+  skipped: SkipReason[];
+}
+
+export interface PlanResult {
+  planId: string;
+  filesSearched: number;
+  filesMatched: number;
+  totalHunks: number;
+  // The requested page of hunks
+  hunks: PlanHunk[];
+  page: number;
+  pages: number;
+  skipped: SkipReason[];
+}
+
+export interface ApplyPlanResult extends EditResult {
+  planId: string;
+  appliedHunks: number[];
+}
+
+export interface AroundLineResult extends FileStamp {
+  line: number;
+  lines: NumberedLine[];
+}
+
+export interface RestoreResult {
+  file: string;
+  restoredVersion: string;
+  backupPath: string;
+  safetyBackupPath?: string;
+  backupRemoved: boolean;
+  filesChanged: string[];
+}
+
+export interface BackupListResult {
+  total: number;
+  files: { file: string; pattern: string; versions: (BackupVersion & { backupPath: string })[] }[];
+}
+
+export interface ReplayPayload {
+  operations: { id: string; tool: string; files: string[] }[];
+  filesChanged: string[];
+}
+
+export interface OutlineResult {
+  file: string;
+  language: string;
+  // Symbols listed, counting every nesting level
+  total: number;
+  symbols: OutlineSymbol[];
+}
+
+export interface GitStatusResult {
+  branch: string;
+  // smalledit is true for files written by operations that have not been undone
+  files: (GitFileStatus & { status: string; smalledit: boolean })[];
+}
+
+export interface GitDiffResult {
+  files: { file: string; linesAdded: number; linesRemoved: number }[];
+  diff: string;
+  page: number;
+  pages: number;
+}
+
+export interface HelpResult {
+  topic: string;
+  available: string[];
+}
+
+export interface ToolResultMap {
+  'sed_edit': EditResult;
+  'sed_multifile': EditResult;
+  'awk_process': AwkResult;
+  'quick_replace': EditResult;
+  'replace_block': EditResult;
+  'set_value': ValueResult;
+  'line_edit': EditResult;
+  'perl_edit': EditResult;
+  'diff_preview': EditResult;
+  'restore_backup': RestoreResult;
+  'list_backups': BackupListResult;
+  'undo': ReplayPayload;
+  'redo': ReplayPayload;
+  'read_file': ReadResult;
+  'search_in_file': SearchResult;
+  'search_files': SearchFilesResult;
+  'plan_replace': PlanResult;
+  'apply_plan': ApplyPlanResult;
+  'apply_edits': EditResult;
+  'rename_symbol': EditResult;
+  'apply_patch': PatchResult;
+  'outline': OutlineResult;
+  'show_around_line': AroundLineResult;
+  'git_status': GitStatusResult;
+  'git_diff': GitDiffResult;
+  'git_commit': GitCommit;
+  'help': HelpResult;
+}
+
+// Outcome of editing one file, with line counts taken from its diff
+export function describeEdit(file: string, original: string, updated: string, version?: BackupVersion, replacements?: number): FileEditResult {
+  const { added, removed } = diffStats(unifiedDiff(file, original, updated));
+  return {
+    file,
+    status: original === updated ? 'unchanged' : 'changed',
+    linesAdded: added,
+    linesRemoved: removed,
+    ...(replacements !== undefined && { replacements }),
+    ...(version && { backupPath: versionPath(version) })
+  };
+}
+
+export function failedEdit(file: string, error: unknown): FileEditResult {
+  return { file, status: 'failed', linesAdded: 0, linesRemoved: 0, error: error instanceof Error ? error.message : String(error) };
+}
+
+// Totals over the files of one call
+export function summarizeEdits(files: FileEditResult[], dryRun = false): EditResult {
+  const changed = files.filter((entry) => entry.status === 'changed');
+  const counted = files.filter((entry) => entry.replacements !== undefined);
+  const backups = files.flatMap((entry) => entry.backupPath ? [entry.backupPath] : []);
+  return {
+    dryRun,
+    filesChanged: changed.map((entry) => entry.file),
+    linesAdded: changed.reduce((sum, entry) => sum + entry.linesAdded, 0),
+    linesRemoved: changed.reduce((sum, entry) => sum + entry.linesRemoved, 0),
+    ...(counted.length > 0 && { replacements: counted.reduce((sum, entry) => sum + entry.replacements!, 0) }),
+    ...(backups.length === 1 && { backupPath: backups[0] }),
+    files
+  };
+}
+
+// Dry-run payload: the same page of the diff the text shows
+export function summarizeDiffs(diffs: FileDiff[], page: number, extra: { failures?: FileEditResult[]; replacements?: number } = {}): EditResult {
+  const files = diffs.map(({ file, diff }): FileEditResult => {
+    const { added, removed } = diffStats(diff);
+    return { file, status: diff ? 'changed' : 'unchanged', linesAdded: added, linesRemoved: removed };
+  });
+  const { body, page: current, pages } = diffPage(diffs, page);
+  return {
+    ...summarizeEdits([...files, ...(extra.failures ?? [])], true),
+    ...(extra.replacements !== undefined && { replacements: extra.replacements }),
+    diff: body,
+    page: current,
+    pages
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Workspace sandbox
+ * Resolves tool paths against the configured root and enforces the allow/deny glob policy
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { realpathSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { ServerConfig } from './config.js';
+import { matchGlob } from './glob.js';
+
+export type PathKind = 'file' | 'directory';
+
+// The server's own state (backup history etc.) is never exposed to the tools
+const INTERNAL_DENY = '.smalledit/**';
+
+export interface PathViolation {
+  rule: 'root' | 'allow' | 'deny';
+  pattern?: string;
+  path: string;
+}
+
+// Workspace-relative path with forward slashes ('' for the root itself)
+export function toRelative(config: ServerConfig, absolute: string): string {
+  return relative(config.root, absolute).split(sep).join('/');
+}
+
+function isInside(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+// Follow symlinks on the longest existing prefix so paths that do not exist yet can be checked too
+function realTarget(absolute: string): string {
+  let existing = absolute;
+  const rest: string[] = [];
+  while (true) {
+    try {
+      return join(realpathSync(existing), ...rest);
+    } catch {
+      const parent = dirname(existing);
+      if (parent === existing) {
+        return absolute;
+      }
+      rest.unshift(existing.slice(parent.length).replace(/^[\\/]/, ''));
+      existing = parent;
+    }
+  }
+}
+
+let realRootCache: { root: string; real: string } | undefined;
+
+function realRoot(config: ServerConfig): string {
+  if (realRootCache?.root !== config.root) {
+    realRootCache = { root: config.root, real: realTarget(config.root) };
+  }
+  return realRootCache.real;
+}
+
+// Check a workspace-relative path against the allow/deny lists
+export function checkPolicy(config: ServerConfig, relativePath: string, kind: PathKind = 'file'): PathViolation | undefined {
+  const denied = [INTERNAL_DENY, ...config.deny].find((pattern) => matchGlob(pattern, relativePath));
+  if (denied) {
+    return { rule: 'deny', pattern: denied, path: relativePath };
+  }
+  // Allow lists name files, so directories are only checked for containment and deny rules
+  if (kind === 'file' && config.allow.length > 0 && !config.allow.some((pattern) => matchGlob(pattern, relativePath))) {
+    return { rule: 'allow', path: relativePath };
+  }
+  return undefined;
+}
+
+// Return the violation that blocks an absolute path, if any
+export function findViolation(config: ServerConfig, absolute: string, kind: PathKind = 'file'): PathViolation | undefined {
+  if (!isInside(config.root, absolute)) {
+    return { rule: 'root', path: absolute };
+  }
+
+  const real = realTarget(absolute);
+  if (!isInside(realRoot(config), real)) {
+    return { rule: 'root', path: real };
+  }
+
+  return checkPolicy(config, toRelative(config, absolute), kind) ??
+    checkPolicy(config, relative(realRoot(config), real).split(sep).join('/'), kind);
+}
+
+export function describeViolation(input: string, violation: PathViolation): string {
+  switch (violation.rule) {
+    case 'root':
+      return `Path "${input}" is outside the workspace root (resolves to ${violation.path})`;
+    case 'deny':
+      return `Path "${input}" is blocked by deny rule "${violation.pattern}"`;
+    case 'allow':
+      return `Path "${input}" does not match any allow rule`;
+  }
+}
+
+// Resolve a tool argument to an absolute path inside the workspace, or throw InvalidParams
+export function resolvePath(config: ServerConfig, input: string, kind: PathKind = 'file'): string {
+  const absolute = resolve(config.root, input);
+  const violation = findViolation(config, absolute, kind);
+  if (violation) {
+    throw new McpError(ErrorCode.InvalidParams, describeViolation(input, violation), violation);
+  }
+  return absolute;
+}
@@ -0,0 +1,186 @@
+/**
+ * Tool argument schemas
+ * Each tool's arguments are declared once, as a JSON Schema subset. The same declaration is
+ * advertised in tools/list, checked at runtime and mapped to the TypeScript type handlers read.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface FieldSchema {
+  type: FieldType | readonly FieldType[];
+  description?: string;
+  default?: unknown;
+  enum?: readonly string[];
+  // Smallest value a number or integer may have
+  minimum?: number;
+  // Element schema for arrays
+  items?: FieldSchema;
+  // Value schema for objects used as maps
+  additionalProperties?: FieldSchema;
+  // Fields of objects with a fixed shape
+  properties?: Readonly<Record<string, FieldSchema>>;
+  required?: readonly string[];
+}
+
+// Named fields, some of them required: a tool's arguments or a nested object
+interface ObjectShape {
+  properties: Readonly<Record<string, FieldSchema>>;
+  required?: readonly string[];
+}
+
+export interface ToolSchema extends ObjectShape {
+  name: string;
+  description: string;
+}
+
+type ValueOf<N, F> =
+  N extends 'string' ? (F extends { enum: readonly (infer E)[] } ? E : string) :
+  N extends 'number' | 'integer' ? number :
+  N extends 'boolean' ? boolean :
+  N extends 'null' ? null :
+  N extends 'array' ? (F extends { items: infer I } ? FieldValue<I>[] : unknown[]) :
+  N extends 'object' ? (
+    F extends ObjectShape ? ObjectOf<F> :
+    F extends { additionalProperties: infer A } ? Record<string, FieldValue<A>> :
+    Record<string, unknown>
+  ) :
+  never;
+
+// TypeScript type of the value a field accepts
+export type FieldValue<F> = F extends { type: infer T } ?
+  (T extends readonly (infer N)[] ? ValueOf<N, F> : ValueOf<T, F>) :
+  never;
+
+type RequiredKeys<S extends ObjectShape> = S['required'] extends readonly (infer R)[] ? R : never;
+
+// Fields that always have a value after validation: required ones and ones with a default
+type PresentKeys<S extends ObjectShape> = {
+  [K in keyof S['properties']]: K extends RequiredKeys<S> ? K : S['properties'][K] extends { default: unknown } ? K : never
+}[keyof S['properties']];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type ObjectOf<S extends ObjectShape> = Flatten<
+  { [K in PresentKeys<S>]: FieldValue<S['properties'][K]> } &
+  { [K in Exclude<keyof S['properties'], PresentKeys<S>>]?: FieldValue<S['properties'][K]> }
+>;
+
+// Validated arguments of a tool, with defaults filled in
+export type ArgsOf<S extends ToolSchema> = S extends ToolSchema ? ObjectOf<S> : never;
+
+export function toJsonSchema(schema: ToolSchema) {
+  return {
+    name: schema.name,
+    description: schema.description,
+    inputSchema: {
+      type: 'object',
+      properties: schema.properties,
+      ...(schema.required && { required: schema.required }),
+      additionalProperties: false
+    }
+  };
+}
+
+function typeOf(value: unknown): FieldType | 'other' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'other';
+}
+
+// Problem with one value, or undefined when it is valid
+function checkField(field: FieldSchema, value: unknown, path: string): string | undefined {
+  const allowed: readonly FieldType[] = Array.isArray(field.type) ? field.type : [field.type as FieldType];
+  const actual = typeOf(value);
+
+  // An integer is a number too; whether it is whole is checked below
+  if (!allowed.includes(actual as FieldType) && !(actual === 'number' && allowed.includes('integer'))) {
+    return `"${path}" must be ${allowed.map((type) => type === 'null' ? 'null' : type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`).join(' or ')}, got ${actual}`;
+  }
+  if (actual === 'number' && !Number.isFinite(value)) {
+    return `"${path}" must be a finite number`;
+  }
+  if (actual === 'number' && !allowed.includes('number') && !Number.isInteger(value)) {
+    return `"${path}" must be an integer, got ${value}`;
+  }
+  if (actual === 'number' && field.minimum !== undefined && (value as number) < field.minimum) {
+    return `"${path}" must be at least ${field.minimum}, got ${value}`;
+  }
+  if (field.enum && !field.enum.includes(value as string)) {
+    return `"${path}" must be one of: ${field.enum.join(', ')}`;
+  }
+  if (actual === 'array' && field.items) {
+    for (const [index, item] of (value as unknown[]).entries()) {
+      const problem = checkField(field.items, item, `${path}[${index}]`);
+      if (problem) return problem;
+    }
+  }
+  if (actual === 'object' && field.properties) {
+    const entries = value as Record<string, unknown>;
+    const unknown = Object.keys(entries).find((key) => !(key in field.properties!));
+    if (unknown !== undefined) {
+      return `unknown argument "${path}.${unknown}"`;
+    }
+    for (const [key, item] of Object.entries(field.properties)) {
+      if (entries[key] === undefined) {
+        if (field.required?.includes(key)) return `"${path}.${key}" is required`;
+        continue;
+      }
+      const problem = checkField(item, entries[key], `${path}.${key}`);
+      if (problem) return problem;
+    }
+  }
+  if (actual === 'object' && field.additionalProperties) {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const problem = checkField(field.additionalProperties, item, `${path}.${key}`);
+      if (problem) return problem;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check call arguments against a tool schema and fill in defaults. Missing, wrongly typed
+ * and unknown arguments throw InvalidParams naming the field.
+ */
+export function validateArgs<S extends ToolSchema>(schema: S, args: unknown): ArgsOf<S> {
+  const input = args ?? {};
+  if (typeOf(input) !== 'object') {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${schema.name}: expected an object`);
+  }
+
+  const problems: string[] = [];
+  const values = input as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(values)) {
+    if (!(key in schema.properties)) {
+      problems.push(`unknown argument "${key}"`);
+    }
+  }
+
+  for (const [key, field] of Object.entries(schema.properties)) {
+    const value = values[key];
+    if (value === undefined) {
+      if (schema.required?.includes(key)) {
+        problems.push(`"${key}" is required`);
+      } else if (field.default !== undefined) {
+        result[key] = field.default;
+      }
+      continue;
+    }
+    const problem = checkField(field, value, key);
+    if (problem) {
+      problems.push(problem);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${schema.name}: ${problems.join('; ')}`);
+  }
+  return result as ArgsOf<S>;
+}
@@ -0,0 +1,86 @@
+/**
+ * Line search
+ * Finds regex matches line by line and collects the surrounding context, for the search tools
+ */
+
+import { ContextMatch, NumberedLine } from './results.js';
+import { LineSource } from './stream.js';
+
+export interface LineSearch {
+  matches: ContextMatch[];
+  // Matching lines, including ones past the limit
+  matchCount: number;
+}
+
+// Regex for a search_files or plan_replace pattern; fixed strings are escaped so every character is literal
+export function buildSearchRegex(pattern: string, options: { caseInsensitive?: boolean; fixedStrings?: boolean; global?: boolean } = {}): RegExp {
+  const source = options.fixedStrings ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+  return new RegExp(source, `${options.global ? 'g' : ''}${options.caseInsensitive ? 'i' : ''}`);
+}
+
+/**
+ * Search a line source in one pass, keeping only the last context lines in memory. Only the
+ * first limit matching lines are returned with their context; matchCount keeps counting so
+ * callers can say how many were left out.
+ */
+export async function searchLines(source: LineSource, regex: RegExp, context: number, limit: number): Promise<LineSearch> {
+  const matches: ContextMatch[] = [];
+  // Lines before the current one, and matches still collecting the lines after them
+  const recent: NumberedLine[] = [];
+  let open: ContextMatch[] = [];
+  let matchCount = 0;
+
+  for await (const entry of source) {
+    for (const match of open) {
+      match.after.push(entry);
+    }
+    open = open.filter((match) => match.after.length < context);
+
+    regex.lastIndex = 0;
+    const found = regex.exec(entry.text);
+    if (found) {
+      matchCount++;
+      if (matches.length < limit) {
+        const match = { line: entry.line, column: found.index + 1, text: entry.text, before: [...recent], after: [] };
+        matches.push(match);
+        if (context > 0) {
+          open.push(match);
+        }
+      }
+    }
+
+    recent.push(entry);
+    if (recent.length > context) {
+      recent.shift();
+    }
+  }
+  return { matches, matchCount };
+}
+
+/**
+ * ripgrep-style listing of one file's matches: "12:5:text" for matching lines, "13-text" for
+ * context, and "--" between groups that are not adjacent
+ */
+export function formatFileMatches(matches: ContextMatch[]): string {
+  const out: string[] = [];
+  const matchLines = new Set(matches.map((match) => match.line));
+  let lastLine = 0;
+  for (const match of matches) {
+    const first = match.before[0]?.line ?? match.line;
+    if (lastLine > 0 && first > lastLine + 1) {
+      out.push('--');
+    }
+    for (const entry of match.before) {
+      if (entry.line > lastLine) out.push(`${entry.line}-${entry.text}`);
+    }
+    out.push(`${match.line}:${match.column}:${match.text}`);
+    lastLine = match.line;
+    for (const entry of match.after) {
+      // The next match prints itself, with its own context
+      if (matchLines.has(entry.line)) break;
+      out.push(`${entry.line}-${entry.text}`);
+      lastLine = entry.line;
+    }
+  }
+  return out.join('\n');
+}
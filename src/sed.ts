@@ -0,0 +1,517 @@
+/**
+ * Built-in sed engine
+ * Parses the commonly used sed subset and runs it with JavaScript regular expressions:
+ *
+ *   addresses   N, $, /regex/, \cregexc and ranges addr1,addr2 (including GNU 0,/regex/)
+ *   commands    s/regex/replacement/[g|i|I|N|p], d, a, i, c
+ *
+ * Regular expressions use POSIX basic syntax with the usual GNU extensions (\+, \?, \|, \w, \s, \b, \< and \>).
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+type Address =
+  | { type: 'line'; line: number }
+  | { type: 'last' }
+  | { type: 'regex'; regex: RegExp };
+
+type ReplacementPart = string | { group: number };
+
+interface SedCommand {
+  name: 's' | 'd' | 'a' | 'i' | 'c';
+  start?: Address;
+  end?: Address;
+  // s command
+  regex?: RegExp;
+  replacement?: ReplacementPart[];
+  global?: boolean;
+  occurrence?: number;
+  print?: boolean;
+  // a, i and c commands
+  text?: string;
+}
+
+function syntaxError(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `sed: ${message}`);
+}
+
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: ' \\t\\n\\r\\f\\v',
+  blank: ' \\t',
+  punct: '!-\\/:-@\\[-`{-~',
+  xdigit: '0-9A-Fa-f',
+  cntrl: '\\x00-\\x1f\\x7f',
+  print: '\\x20-\\x7e',
+  graph: '\\x21-\\x7e'
+};
+
+// Translate a bracket expression starting at src[start] === '['; returns the JS class and the index after it
+function translateBracket(src: string, start: number): [string, number] {
+  let i = start + 1;
+  let out = '[';
+  if (src[i] === '^') {
+    out += '^';
+    i++;
+  }
+  if (src[i] === ']') {
+    out += '\\]';
+    i++;
+  }
+  while (i < src.length && src[i] !== ']') {
+    if (src.startsWith('[:', i)) {
+      const close = src.indexOf(':]', i + 2);
+      const name = close === -1 ? '' : src.slice(i + 2, close);
+      if (!(name in POSIX_CLASSES)) {
+        throw syntaxError(`invalid character class in "${src}"`);
+      }
+      out += POSIX_CLASSES[name];
+      i = close + 2;
+    } else if (src.startsWith('[.', i) || src.startsWith('[=', i)) {
+      throw syntaxError(`collating elements and equivalence classes are not supported: "${src}"`);
+    } else if (src[i] === '\\' && (src[i + 1] === 'n' || src[i + 1] === 't')) {
+      out += `\\${src[i + 1]}`;
+      i += 2;
+    } else {
+      out += /[\\\][^]/.test(src[i]) ? `\\${src[i]}` : src[i];
+      i++;
+    }
+  }
+  if (i >= src.length) {
+    throw syntaxError(`unterminated bracket expression in "${src}"`);
+  }
+  return [out + ']', i + 1];
+}
+
+// Translate a POSIX basic regular expression (with GNU extensions) into JavaScript syntax
+export function translateBre(src: string): string {
+  let out = '';
+  // True where a following "*" is literal and "^" is an anchor
+  let atStart = true;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    const wasStart = atStart;
+    atStart = false;
+
+    if (ch === '\\') {
+      const next = src[++i];
+      if (next === undefined) {
+        throw syntaxError(`trailing backslash in "${src}"`);
+      }
+      if (next === '(' || next === '|') {
+        out += next;
+        atStart = true;
+      } else if (next === ')' || next === '+' || next === '?') {
+        out += next;
+      } else if (next === '{') {
+        const close = src.indexOf('\\}', i);
+        if (close === -1) {
+          throw syntaxError(`unterminated \\{ in "${src}"`);
+        }
+        out += `{${src.slice(i + 1, close)}}`;
+        i = close + 1;
+      } else if (/[1-9]/.test(next)) {
+        out += `\\${next}`;
+      } else if (next === 'n') {
+        out += '\\n';
+      } else if (next === 't') {
+        out += '\\t';
+      } else if ('wWsSbB'.includes(next)) {
+        out += `\\${next}`;
+      } else if (next === '<') {
+        out += '\\b(?=\\w)';
+      } else if (next === '>') {
+        out += '\\b(?<=\\w)';
+      } else {
+        out += next.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      }
+    } else if (ch === '[') {
+      const [cls, end] = translateBracket(src, i);
+      out += cls;
+      i = end - 1;
+    } else if (ch === '*') {
+      out += wasStart ? '\\*' : '*';
+    } else if (ch === '^') {
+      if (wasStart) {
+        out += '^';
+        atStart = true;
+      } else {
+        out += '\\^';
+      }
+    } else if (ch === '$') {
+      const atEnd = i === src.length - 1 || src.startsWith('\\)', i + 1) || src.startsWith('\\|', i + 1);
+      out += atEnd ? '$' : '\\$';
+    } else if ('+?(){}|/'.includes(ch)) {
+      out += `\\${ch}`;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+class ScriptReader {
+  pos = 0;
+
+  constructor(readonly src: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  peek(): string {
+    return this.src[this.pos];
+  }
+
+  skipSpaces(): void {
+    while (!this.done && /[ \t]/.test(this.peek())) this.pos++;
+  }
+
+  // Read up to an unescaped delimiter; "\delim" becomes a literal delimiter
+  readDelimited(delim: string, what: string): string {
+    let out = '';
+    while (!this.done) {
+      const ch = this.src[this.pos++];
+      if (ch === delim) {
+        return out;
+      }
+      if (ch === '\\' && !this.done) {
+        const next = this.src[this.pos++];
+        if (next === delim) {
+          out += delim === '&' || /[.*[\]^$\\]/.test(delim) ? `\\${delim}` : delim;
+        } else if (next === '\n') {
+          out += '\\n';
+        } else {
+          out += ch + next;
+        }
+      } else if (ch === '\n') {
+        out += '\\n';
+      } else {
+        out += ch;
+      }
+    }
+    throw syntaxError(`unterminated ${what} in "${this.src}"`);
+  }
+}
+
+function parseReplacement(src: string): ReplacementPart[] {
+  const parts: ReplacementPart[] = [];
+  let literal = '';
+  const flush = () => {
+    if (literal) parts.push(literal);
+    literal = '';
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '&') {
+      flush();
+      parts.push({ group: 0 });
+    } else if (ch === '\\' && i + 1 < src.length) {
+      const next = src[++i];
+      if (/[0-9]/.test(next)) {
+        flush();
+        parts.push({ group: Number(next) });
+      } else if (next === 'n') {
+        literal += '\n';
+      } else if (next === 't') {
+        literal += '\t';
+      } else if ('ULulE'.includes(next)) {
+        throw syntaxError(`case conversion (\\${next}) in replacements is not supported`);
+      } else {
+        literal += next;
+      }
+    } else {
+      literal += ch;
+    }
+  }
+  flush();
+  return parts;
+}
+
+export function parseSedScript(script: string): SedCommand[] {
+  const reader = new ScriptReader(script);
+  const commands: SedCommand[] = [];
+  let lastRegex: RegExp | undefined;
+
+  const compile = (source: string, flags: string): RegExp => {
+    if (source === '') {
+      if (!lastRegex) {
+        throw syntaxError('no previous regular expression');
+      }
+      return new RegExp(lastRegex.source, flags);
+    }
+    try {
+      lastRegex = new RegExp(translateBre(source), flags);
+      return lastRegex;
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      throw syntaxError(`invalid regular expression "${source}": ${(error as Error).message}`);
+    }
+  };
+
+  const readAddress = (): Address | undefined => {
+    const ch = reader.peek();
+    if (ch !== undefined && /[0-9]/.test(ch)) {
+      const match = /^[0-9]+/.exec(script.slice(reader.pos))![0];
+      reader.pos += match.length;
+      return { type: 'line', line: Number(match) };
+    }
+    if (ch === '$') {
+      reader.pos++;
+      return { type: 'last' };
+    }
+    if (ch === '/' || ch === '\\') {
+      reader.pos++;
+      const delim = ch === '/' ? '/' : script[reader.pos++];
+      if (delim === undefined || delim === '\n' || delim === '\\') {
+        throw syntaxError(`invalid address delimiter in "${script}"`);
+      }
+      const source = reader.readDelimited(delim, 'address regex');
+      let flags = '';
+      if (reader.peek() === 'I') {
+        reader.pos++;
+        flags = 'i';
+      }
+      return { type: 'regex', regex: compile(source, flags) };
+    }
+    return undefined;
+  };
+
+  // Text for a, i and c: "a\<newline>text", GNU "a\text" or "a text"
+  const readText = (): string => {
+    reader.skipSpaces();
+    if (reader.peek() === '\\') {
+      reader.pos++;
+      if (reader.peek() === '\n') reader.pos++;
+    }
+    let text = '';
+    while (!reader.done) {
+      const ch = script[reader.pos++];
+      if (ch === '\n') break;
+      if (ch === '\\' && !reader.done) {
+        text += script[reader.pos++];
+      } else {
+        text += ch;
+      }
+    }
+    return text;
+  };
+
+  while (true) {
+    while (!reader.done && /[\s;]/.test(reader.peek())) reader.pos++;
+    if (reader.done) break;
+
+    const command: Partial<SedCommand> = {};
+    command.start = readAddress();
+    if (command.start) {
+      reader.skipSpaces();
+      if (reader.peek() === ',') {
+        reader.pos++;
+        reader.skipSpaces();
+        command.end = readAddress();
+        if (!command.end) {
+          throw syntaxError(`missing end of address range in "${script}"`);
+        }
+      }
+      // Line 0 only exists as the start of 0,/regex/
+      if (command.start.type === 'line' && command.start.line === 0 && command.end?.type !== 'regex') {
+        throw syntaxError(`line 0 is only valid as the start of a 0,/regex/ range in "${script}"`);
+      }
+    }
+    reader.skipSpaces();
+    if (reader.done) {
+      throw syntaxError(`missing command in "${script}"`);
+    }
+
+    const name = script[reader.pos++];
+    switch (name) {
+      case 's': {
+        const delim = script[reader.pos++];
+        if (delim === undefined || delim === '\n' || delim === '\\') {
+          throw syntaxError(`invalid delimiter for s command in "${script}"`);
+        }
+        const source = reader.readDelimited(delim, 's command');
+        const replacement = reader.readDelimited(delim, 's command');
+        let flags = '';
+        command.global = false;
+        command.print = false;
+        while (!reader.done && !/[\s;}]/.test(reader.peek())) {
+          const flag = script[reader.pos];
+          if (flag === 'g') {
+            command.global = true;
+            reader.pos++;
+          } else if (flag === 'i' || flag === 'I') {
+            flags = 'i';
+            reader.pos++;
+          } else if (flag === 'p') {
+            command.print = true;
+            reader.pos++;
+          } else if (/[0-9]/.test(flag)) {
+            const match = /^[0-9]+/.exec(script.slice(reader.pos))![0];
+            command.occurrence = Number(match);
+            if (command.occurrence === 0) {
+              throw syntaxError('number option to s command may not be zero');
+            }
+            reader.pos += match.length;
+          } else {
+            throw syntaxError(`unsupported s command flag "${flag}" (supported: g, i, I, p, N)`);
+          }
+        }
+        command.regex = compile(source, flags + 'g');
+        command.replacement = parseReplacement(replacement);
+        const groups = new RegExp(`${command.regex.source}|`).exec('')!.length - 1;
+        for (const part of command.replacement) {
+          if (typeof part !== 'string' && part.group > groups) {
+            throw syntaxError(`invalid reference \\${part.group} on s command's RHS`);
+          }
+        }
+        break;
+      }
+      case 'd':
+        break;
+      case 'a':
+      case 'i':
+      case 'c':
+        command.text = readText();
+        break;
+      default:
+        throw syntaxError(`unsupported command "${name}" (supported: s, d, a, i, c)`);
+    }
+    command.name = name;
+    commands.push(command as SedCommand);
+
+    reader.skipSpaces();
+    if (!reader.done && !/[\n;]/.test(reader.peek()) && name !== 'a' && name !== 'i' && name !== 'c') {
+      throw syntaxError(`extra characters after command in "${script}"`);
+    }
+  }
+
+  return commands;
+}
+
+function matches(address: Address, lineNo: number, line: string, isLast: boolean): boolean {
+  switch (address.type) {
+    case 'line':
+      return lineNo === address.line;
+    case 'last':
+      return isLast;
+    case 'regex':
+      address.regex.lastIndex = 0;
+      return address.regex.test(line);
+  }
+}
+
+function substitute(command: SedCommand, line: string, stats?: SedStats): string | undefined {
+  const first = command.occurrence ?? 1;
+  let count = 0;
+  let changed = false;
+  let previousEnd = -1;
+  const regex = command.regex!;
+  regex.lastIndex = 0;
+
+  const result = line.replace(regex, (...match) => {
+    const offset: number = match[match.length - 2];
+    // POSIX does not allow an empty match right after the previous match
+    if (match[0] === '' && offset === previousEnd) {
+      return '';
+    }
+    previousEnd = offset + match[0].length;
+    count++;
+    if (count < first || (!command.global && count > first)) {
+      return match[0];
+    }
+    changed = true;
+    if (stats) stats.substitutions++;
+    return command.replacement!
+      .map((part) => typeof part === 'string' ? part : (match[part.group] ?? ''))
+      .join('');
+  });
+  return changed ? result : undefined;
+}
+
+export interface SedStats {
+  substitutions: number;
+}
+
+// Run a sed script over text and return the output; stats, if given, counts the substitutions made
+export function applySed(script: string, input: string, stats?: SedStats): string {
+  const commands = parseSedScript(script);
+  const hasTrailingNewline = input.endsWith('\n');
+  const lines = input === '' ? [] : (hasTrailingNewline ? input.slice(0, -1) : input).split('\n');
+  // 0,/regex/ is open before the first line, so the regex can close it on line 1
+  const activeRanges = new Set<SedCommand>(commands.filter((command) => command.start?.type === 'line' && command.start.line === 0));
+  const out: string[] = [];
+
+  lines.forEach((line, index) => {
+    const lineNo = index + 1;
+    const isLast = index === lines.length - 1;
+    let patternSpace = line;
+    let deleted = false;
+    const appended: string[] = [];
+
+    for (const command of commands) {
+      let selected = true;
+      let rangeEnds = true;
+
+      if (command.start && !command.end) {
+        selected = matches(command.start, lineNo, patternSpace, isLast);
+      } else if (command.start && command.end) {
+        const end = command.end;
+        if (activeRanges.has(command)) {
+          if (end.type === 'line' ? lineNo >= end.line : matches(end, lineNo, patternSpace, isLast)) {
+            activeRanges.delete(command);
+          }
+        } else if (matches(command.start, lineNo, patternSpace, isLast)) {
+          // A regex end address is only checked from the next line on
+          const closesNow = (end.type === 'line' && end.line <= lineNo) || (end.type === 'last' && isLast);
+          if (!closesNow) {
+            activeRanges.add(command);
+          }
+        } else {
+          selected = false;
+        }
+        rangeEnds = !activeRanges.has(command);
+      }
+
+      if (!selected) {
+        continue;
+      }
+
+      if (command.name === 's') {
+        const result = substitute(command, patternSpace, stats);
+        if (result !== undefined) {
+          patternSpace = result;
+          if (command.print) out.push(patternSpace);
+        }
+      } else if (command.name === 'd') {
+        deleted = true;
+        break;
+      } else if (command.name === 'a') {
+        appended.push(command.text!);
+      } else if (command.name === 'i') {
+        out.push(command.text!);
+      } else if (command.name === 'c') {
+        // With a range the text replaces the whole range, so it is printed once at its end
+        if (rangeEnds) out.push(command.text!);
+        deleted = true;
+        break;
+      }
+    }
+
+    if (!deleted) {
+      out.push(patternSpace);
+    }
+    out.push(...appended);
+  });
+
+  if (out.length === 0) {
+    return '';
+  }
+  return out.join('\n') + (hasTrailingNewline ? '\n' : '');
+}
@@ -0,0 +1,122 @@
+/**
+ * Line sources for the read tools
+ * Small files are split in memory. Files over STREAM_THRESHOLD are never loaded whole: their
+ * lines are streamed, and a sparse index of line start offsets lets later reads seek close to
+ * the lines they ask for instead of scanning from the top again.
+ */
+
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { detectEncoding, TextEncoding } from './encoding.js';
+import { readSample } from './files.js';
+import { NumberedLine } from './results.js';
+
+// Files larger than this are streamed by the read and search tools
+export const STREAM_THRESHOLD = 16 * 1024 * 1024;
+
+// Byte offset of every INDEX_STEP-th line is kept
+const INDEX_STEP = 10000;
+
+// Longer lines are cut short, so one huge line cannot fill memory
+const MAX_LINE_BYTES = 1024 * 1024;
+
+// Numbered lines in order; the return value is the file's line count once the end is reached
+export type LineSource = Generator<NumberedLine, number> | AsyncGenerator<NumberedLine, number>;
+
+interface LineIndex {
+  size: number;
+  mtimeMs: number;
+  // offsets[k] is where line k * INDEX_STEP + 1 starts
+  offsets: number[];
+}
+
+// Indexes of the large files read so far, dropped when the file's size or mtime changes
+const lineIndexes = new Map<string, LineIndex>();
+
+export function* arrayLines(lines: string[], from = 1): Generator<NumberedLine, number> {
+  for (let index = Math.max(from, 1) - 1; index < lines.length; index++) {
+    yield { line: index + 1, text: lines[index] };
+  }
+  return lines.length;
+}
+
+function decodeLine(bytes: Buffer, encoding: TextEncoding): string {
+  const text = bytes.subarray(0, MAX_LINE_BYTES).toString(encoding === 'latin1' ? 'latin1' : 'utf-8');
+  return text.endsWith('\r') ? text.slice(0, -1) : text;
+}
+
+/**
+ * Stream the lines of a file from line from on, without holding more than one line in memory.
+ * A trailing newline does not start another line, and CRLF endings are dropped like LF ones.
+ */
+export async function* streamLines(file: string, from = 1): AsyncGenerator<NumberedLine, number> {
+  const { encoding, bom } = detectEncoding(await readSample(file), true);
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    throw new Error(`${file} is UTF-16 encoded and too large to read; only UTF-8 and Latin-1 files are streamed`);
+  }
+
+  const { size, mtimeMs } = await stat(file);
+  let index = lineIndexes.get(file);
+  if (!index || index.size !== size || index.mtimeMs !== mtimeMs) {
+    index = { size, mtimeMs, offsets: [bom ? 3 : 0] };
+    lineIndexes.set(file, index);
+  }
+
+  const slot = Math.min(Math.floor((Math.max(from, 1) - 1) / INDEX_STEP), index.offsets.length - 1);
+  let line = slot * INDEX_STEP + 1;
+  let position = index.offsets[slot];
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  for await (const chunk of createReadStream(file, { start: position, highWaterMark: 1024 * 1024 }) as AsyncIterable<Buffer>) {
+    let lineStart = 0;
+    for (let end = chunk.indexOf(0x0a); end >= 0; end = chunk.indexOf(0x0a, lineStart)) {
+      const bytes = pendingBytes > 0 ? Buffer.concat([...pending, chunk.subarray(lineStart, end)]) : chunk.subarray(lineStart, end);
+      pending = [];
+      pendingBytes = 0;
+      lineStart = end + 1;
+      if (line % INDEX_STEP === 0) {
+        index.offsets[line / INDEX_STEP] = position + lineStart;
+      }
+      if (line >= from) {
+        yield { line, text: decodeLine(bytes, encoding) };
+      }
+      line++;
+    }
+    if (pendingBytes < MAX_LINE_BYTES) {
+      pending.push(chunk.subarray(lineStart));
+      pendingBytes += chunk.length - lineStart;
+    }
+    position += chunk.length;
+  }
+
+  if (pendingBytes === 0) {
+    return line - 1;
+  }
+  if (line >= from) {
+    yield { line, text: decodeLine(Buffer.concat(pending), encoding) };
+  }
+  return line;
+}
+
+/**
+ * Lines from a source up to and including line last. totalLines is set when the source ran
+ * out first, so callers can tell a short file from a long one.
+ */
+export async function collectLines(source: LineSource, last: number): Promise<{ lines: NumberedLine[]; totalLines?: number }> {
+  const lines: NumberedLine[] = [];
+  try {
+    for (let next = await source.next(); ; next = await source.next()) {
+      if (next.done) {
+        return { lines, totalLines: next.value };
+      }
+      if (next.value.line > last) {
+        return { lines };
+      }
+      lines.push(next.value);
+    }
+  } finally {
+    // Closes the file when a streamed source is left before its end
+    await source.return(0);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Structured value editing for set_value
+ * A key path is resolved in a JSON, YAML or TOML document, and only the text of the value it
+ * names is rewritten, so comments, key order and indentation elsewhere in the file stay as
+ * they were.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { extname } from 'path';
+import { jsonEditor } from './jsonc.js';
+import { ValueEditor } from './keypath.js';
+import { tomlEditor } from './toml.js';
+import { yamlEditor } from './yaml.js';
+
+export type DataFormat = 'json' | 'yaml' | 'toml';
+
+const editors: Record<DataFormat, ValueEditor> = { json: jsonEditor, yaml: yamlEditor, toml: tomlEditor };
+
+const extensions: Record<string, DataFormat> = {
+  '.json': 'json',
+  '.jsonc': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml'
+};
+
+export function formatOf(file: string): DataFormat | undefined {
+  return extensions[extname(file).toLowerCase()];
+}
+
+export function editorFor(file: string, format?: DataFormat): ValueEditor {
+  const detected = format ?? formatOf(file);
+  if (!detected) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot tell the format of ${file} from its extension; pass format: "json", "yaml" or "toml"`);
+  }
+  return editors[detected];
+}
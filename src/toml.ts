@@ -0,0 +1,541 @@
+/**
+ * TOML value editing
+ * Tables, arrays of tables and key/value lines are located by offset, each with its full key
+ * path (array-of-table elements get their index as a segment, as in bin[0].name). Values are
+ * rewritten in place; new keys go after the last key of their table, and new tables after the
+ * tables they belong with. Inline arrays and tables are rewritten whole when something inside
+ * changes.
+ */
+
+import { DataValue, editData, formatKeyPath, isCollection, KeyLines, KeyPath, kindOf, lineOfOffset, lookup, notFound, ValueEditor } from './keypath.js';
+
+interface TomlEntry {
+  // Full path, including the table's
+  path: KeyPath;
+  // Keys as written on the line, dotted
+  keys: KeyPath;
+  value: DataValue;
+  // Offsets: start of the line, the value's text, and after the newline that ends the entry
+  lineStart: number;
+  valueStart: number;
+  valueEnd: number;
+  lineEnd: number;
+}
+
+interface TomlTable {
+  path: KeyPath;
+  // Header line offsets; the root table has none
+  header?: { start: number; end: number };
+  // Element of an array of tables ([[name]])
+  array: boolean;
+  entries: TomlEntry[];
+  // After the last key/value line, or after the header
+  bodyEnd: number;
+  // Where the next header starts
+  end: number;
+}
+
+interface ArrayItem {
+  start: number;
+  end: number;
+  comma?: number;
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const DATE_TIME = /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}:\d{2}(?:\.\d+)?/y;
+const BARE_VALUE = /[^\s,\]}#]+/y;
+
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', e: '\x1b', '"': '"', '\\': '\\' };
+
+function unescapeBasic(text: string): string {
+  return text
+    .replace(/\\[ \t]*\r?\n\s*/g, '')
+    .replace(/\\(?:u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|(.))/g, (escape, short: string, long: string, char: string) =>
+      short || long ? String.fromCodePoint(parseInt(short || long, 16)) : ESCAPES[char] ?? escape);
+}
+
+function bareValue(text: string): DataValue {
+  if (text === 'true' || text === 'false') return text === 'true';
+  const plain = text.replace(/_/g, '');
+  if (/^[+-]?\d+$/.test(plain)) return Number(plain);
+  if (/^0x[0-9a-fA-F]+$/.test(plain)) return parseInt(plain.slice(2), 16);
+  if (/^0o[0-7]+$/.test(plain)) return parseInt(plain.slice(2), 8);
+  if (/^0b[01]+$/.test(plain)) return parseInt(plain.slice(2), 2);
+  if (/^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(plain)) return Number(plain);
+  if (/^[+-]?inf$/.test(plain)) return plain.startsWith('-') ? -Infinity : Infinity;
+  if (/^[+-]?nan$/.test(plain)) return NaN;
+  throw new Error(`invalid value ${text}`);
+}
+
+class TomlReader {
+  pos = 0;
+
+  constructor(readonly text: string) {}
+
+  fail(message: string): Error {
+    const before = this.text.slice(0, this.pos).split('\n');
+    return new Error(`Cannot parse TOML at line ${before.length}, column ${before[before.length - 1].length + 1}: ${message}`);
+  }
+
+  skipSpaces(): void {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') this.pos++;
+  }
+
+  // Spaces, newlines and comments, as allowed inside arrays
+  skipBlank(): void {
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.pos] === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+      } else if (this.text[this.pos] === '\n' || this.text[this.pos] === '\r') {
+        this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Rest of a line after a key/value or header: only a comment may follow
+  endLine(): number {
+    this.skipSpaces();
+    if (this.text[this.pos] === '#') {
+      while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+    }
+    if (this.text[this.pos] === '\r') this.pos++;
+    if (this.pos < this.text.length && this.text[this.pos] !== '\n') {
+      throw this.fail('expected the end of the line');
+    }
+    return Math.min(this.pos + 1, this.text.length);
+  }
+
+  key(): KeyPath {
+    const keys: KeyPath = [];
+    for (;;) {
+      this.skipSpaces();
+      const char = this.text[this.pos];
+      if (char === '"' || char === '\'') {
+        keys.push(this.string());
+      } else {
+        BARE_KEY.lastIndex = this.pos;
+        const bare = BARE_KEY.exec(this.text);
+        if (!bare) throw this.fail('expected a key');
+        keys.push(bare[0]);
+        this.pos += bare[0].length;
+      }
+      this.skipSpaces();
+      if (this.text[this.pos] !== '.') return keys;
+      this.pos++;
+    }
+  }
+
+  string(): string {
+    const { text } = this;
+    const quote = text[this.pos];
+    const triple = text.startsWith(quote.repeat(3), this.pos);
+    const open = this.pos + (triple ? 3 : 1);
+    let close = open;
+    for (;;) {
+      close = text.indexOf(triple ? quote.repeat(3) : quote, close);
+      if (close < 0 || (!triple && text.slice(open, close).includes('\n'))) throw this.fail('unterminated string');
+      if (quote === '"' && /(^|[^\\])(\\\\)*\\$/.test(text.slice(open, close))) {
+        close++;
+        continue;
+      }
+      break;
+    }
+    // Up to two more quotes belong to a multi-line string's content
+    while (triple && text[close + 3] === quote) close++;
+    this.pos = close + (triple ? 3 : 1);
+    const body = text.slice(open, close).replace(triple ? /^\r?\n/ : /(?!)/, '');
+    return quote === '"' ? unescapeBasic(body) : body;
+  }
+
+  value(): DataValue {
+    const { text } = this;
+    const char = text[this.pos];
+    if (char === '"' || char === '\'') {
+      return this.string();
+    }
+    if (char === '[') {
+      return this.arrayItems().map((item) => item.value);
+    }
+    if (char === '{') {
+      const table: { [key: string]: DataValue } = {};
+      this.pos++;
+      this.skipSpaces();
+      while (text[this.pos] !== '}') {
+        const keys = this.key();
+        if (text[this.pos] !== '=') throw this.fail('expected "="');
+        this.pos++;
+        this.skipSpaces();
+        assign(table, keys, this.value());
+        this.skipSpaces();
+        if (text[this.pos] === ',') {
+          this.pos++;
+          this.skipSpaces();
+        } else if (text[this.pos] !== '}') {
+          throw this.fail('expected "," or "}"');
+        }
+      }
+      this.pos++;
+      return table;
+    }
+    DATE_TIME.lastIndex = this.pos;
+    const date = DATE_TIME.exec(text);
+    if (date) {
+      this.pos += date[0].length;
+      return date[0];
+    }
+    BARE_VALUE.lastIndex = this.pos;
+    const bare = BARE_VALUE.exec(text);
+    if (!bare) throw this.fail('expected a value');
+    try {
+      const value = bareValue(bare[0]);
+      this.pos += bare[0].length;
+      return value;
+    } catch (error) {
+      throw this.fail((error as Error).message);
+    }
+  }
+
+  // An array with the offsets of its elements, for appending in place
+  arrayItems(): (ArrayItem & { value: DataValue })[] {
+    const items: (ArrayItem & { value: DataValue })[] = [];
+    this.pos++;
+    for (this.skipBlank(); this.text[this.pos] !== ']'; this.skipBlank()) {
+      if (this.pos >= this.text.length) throw this.fail('unclosed array');
+      const start = this.pos;
+      const value = this.value();
+      const item: ArrayItem & { value: DataValue } = { start, end: this.pos, value };
+      items.push(item);
+      this.skipBlank();
+      if (this.text[this.pos] === ',') {
+        item.comma = this.pos++;
+      } else if (this.text[this.pos] !== ']') {
+        throw this.fail('expected "," or "]"');
+      }
+    }
+    this.pos++;
+    return items;
+  }
+}
+
+function assign(table: { [key: string]: DataValue }, keys: KeyPath, value: DataValue): void {
+  let current = table;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    current = isCollection(next) && !Array.isArray(next) ? next : (current[key] = {}) as { [key: string]: DataValue };
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function parseToml(text: string): TomlTable[] {
+  const reader = new TomlReader(text);
+  const root: TomlTable = { path: [], array: false, entries: [], bodyEnd: 0, end: text.length };
+  const tables = [root];
+  // Elements seen so far of each array of tables, by resolved path
+  const counts = new Map<string, number>();
+  let current = root;
+
+  while (reader.pos < text.length) {
+    const lineStart = reader.pos;
+    reader.skipSpaces();
+    const char = text[reader.pos];
+    if (char === '\n' || char === '\r' || char === '#' || char === undefined) {
+      reader.pos = reader.endLine();
+      continue;
+    }
+
+    if (char === '[') {
+      const array = text[reader.pos + 1] === '[';
+      reader.pos += array ? 2 : 1;
+      const keys = reader.key();
+      if (!text.startsWith(array ? ']]' : ']', reader.pos)) throw reader.fail(`expected "${array ? ']]' : ']'}"`);
+      reader.pos += array ? 2 : 1;
+      const end = reader.endLine();
+      reader.pos = end;
+
+      const path: KeyPath = [];
+      keys.forEach((key, index) => {
+        path.push(key);
+        const id = path.join('\0');
+        if (array && index === keys.length - 1) {
+          const count = counts.get(id) ?? 0;
+          counts.set(id, count + 1);
+          path.push(String(count));
+        } else if (counts.has(id)) {
+          path.push(String(counts.get(id)! - 1));
+        }
+      });
+      current.end = lineStart;
+      current = { path, header: { start: lineStart, end }, array, entries: [], bodyEnd: end, end: text.length };
+      tables.push(current);
+      continue;
+    }
+
+    const keys = reader.key();
+    if (text[reader.pos] !== '=') throw reader.fail('expected "="');
+    reader.pos++;
+    reader.skipSpaces();
+    const valueStart = reader.pos;
+    const value = reader.value();
+    const valueEnd = reader.pos;
+    const lineEnd = reader.endLine();
+    reader.pos = lineEnd;
+    current.entries.push({ path: [...current.path, ...keys], keys, value, lineStart, valueStart, valueEnd, lineEnd });
+    current.bodyEnd = lineEnd;
+  }
+  return tables;
+}
+
+// The whole document as plain data
+function toData(tables: TomlTable[]): { [key: string]: DataValue } {
+  const data: { [key: string]: DataValue } = {};
+  const arrays = new Set(tables.filter((table) => table.array).map((table) => table.path.slice(0, -1).join('\0')));
+  for (const table of tables) {
+    let current: DataValue = data;
+    table.path.forEach((segment, index) => {
+      const container = current as { [key: string]: DataValue };
+      if (container[segment] === undefined) {
+        container[segment] = arrays.has(table.path.slice(0, index + 1).join('\0')) ? [] : {};
+      }
+      current = container[segment];
+    });
+    for (const entry of table.entries) {
+      assign(current as { [key: string]: DataValue }, entry.keys, entry.value);
+    }
+  }
+  return data;
+}
+
+function startsWith(path: KeyPath, prefix: KeyPath): boolean {
+  return prefix.length <= path.length && prefix.every((segment, index) => path[index] === segment);
+}
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+function renderKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+// A value in TOML syntax; a replaced string keeps literal quotes when it can
+function renderValue(value: DataValue, previous = ''): string {
+  if (typeof value === 'string') {
+    return previous.startsWith('\'') && !/['\n\r]/.test(value) ? `'${value}'` : JSON.stringify(value);
+  }
+  if (value === null) {
+    throw new Error('TOML has no null value; use action "delete" to remove a key');
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => renderValue(item)).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value);
+    return entries.length === 0 ? '{}' : `{ ${entries.map(([key, item]) => `${renderKey(key)} = ${renderValue(item)}`).join(', ')} }`;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return value > 0 ? 'inf' : '-inf';
+  }
+  return String(value);
+}
+
+function lineIndent(text: string, offset: number): string {
+  return /^[ \t]*/.exec(text.slice(offset))![0];
+}
+
+// Line(s) that add a key to a table, placed after its last key
+function insertEntry(text: string, table: TomlTable, keys: KeyPath, value: DataValue, isRoot: boolean): string {
+  const last = table.entries[table.entries.length - 1];
+  const indent = last ? lineIndent(text, last.lineStart) : '';
+  const at = table.bodyEnd;
+  const lead = at > 0 && text[at - 1] !== '\n' ? '\n' : '';
+  // Keys added to an empty root table stay apart from the first table header
+  const gap = isRoot && !last && at < text.length ? '\n' : '';
+  return splice(text, at, at, `${lead}${indent}${keys.map(renderKey).join('.')} = ${renderValue(value)}\n${gap}`);
+}
+
+// A new [table] with the value's keys, after the tables it belongs with
+function appendTable(text: string, tables: TomlTable[], path: KeyPath, value: { [key: string]: DataValue }, array: boolean): string {
+  const related = tables.filter((table) => table.header && startsWith(table.path, path.slice(0, Math.max(1, path.length - 1))));
+  const at = related.length > 0 ? related[related.length - 1].end : text.length;
+  const before = text.slice(0, at);
+  const lead = before === '' ? '' : before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const header = array ? `[[${path.map(renderKey).join('.')}]]` : `[${path.map(renderKey).join('.')}]`;
+  const lines = Object.entries(value).map(([key, item]) => `${renderKey(key)} = ${renderValue(item)}`);
+  const trail = at < text.length ? '\n' : '';
+  return splice(text, at, at, `${lead}${[header, ...lines].join('\n')}\n${trail}`);
+}
+
+function appendToArray(text: string, entry: TomlEntry, value: DataValue): string {
+  const reader = new TomlReader(text);
+  reader.pos = entry.valueStart;
+  const items = reader.arrayItems();
+  const close = reader.pos - 1;
+  const last = items[items.length - 1];
+  const rendered = renderValue(value);
+  if (!last) {
+    return splice(text, close, close, rendered);
+  }
+  if (!text.slice(entry.valueStart, entry.valueEnd).includes('\n')) {
+    return last.comma !== undefined ? splice(text, last.comma + 1, last.comma + 1, ` ${rendered},`) : splice(text, last.end, last.end, `, ${rendered}`);
+  }
+  const indent = lineIndent(text, text.lastIndexOf('\n', last.start - 1) + 1);
+  // The new item goes on a line of its own, after a comment that ends the last item's line
+  const after = last.comma !== undefined ? last.comma + 1 : last.end;
+  const rest = /^[ \t]*(#.*)?(?=\r?\n)/.exec(text.slice(after));
+  const at = rest ? after + rest[0].length : after;
+  const inserted = splice(text, at, at, `\n${indent}${rendered}${last.comma !== undefined ? ',' : ''}`);
+  return last.comma !== undefined ? inserted : splice(inserted, last.end, last.end, ',');
+}
+
+// Remove the lines of every entry and table under path, back to front
+function removeUnder(text: string, tables: TomlTable[], path: KeyPath): string | undefined {
+  const spans: [number, number][] = [];
+  for (const table of tables) {
+    if (table.header && startsWith(table.path, path)) {
+      spans.push([table.header.start, table.end]);
+    } else {
+      spans.push(...table.entries.filter((entry) => startsWith(entry.path, path)).map((entry): [number, number] => [entry.lineStart, entry.lineEnd]));
+    }
+  }
+  if (spans.length === 0) {
+    return undefined;
+  }
+  return spans.sort((a, b) => b[0] - a[0]).reduce((result, [start, end]) => splice(result, start, end, ''), text);
+}
+
+function findEntry(tables: TomlTable[], match: (entry: TomlEntry) => boolean): TomlEntry | undefined {
+  for (const table of tables) {
+    const found = table.entries.find(match);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Edit inside an inline array or table: the value is rewritten whole
+function inlineEdit(text: string, tables: TomlTable[], path: KeyPath, action: 'set' | 'remove' | 'append', value?: DataValue): string | undefined {
+  const entry = findEntry(tables, (candidate) => candidate.path.length < path.length && startsWith(path, candidate.path));
+  if (!entry) {
+    return undefined;
+  }
+  const updated = editData(entry.value, path.slice(entry.path.length), action, value);
+  return splice(text, entry.valueStart, entry.valueEnd, renderValue(updated));
+}
+
+function missing(tables: TomlTable[], path: KeyPath): Error {
+  const data = toData(tables);
+  let depth = 0;
+  while (depth < path.length && lookup(data, path.slice(0, depth + 1))) depth++;
+  return notFound(path, depth);
+}
+
+export const tomlEditor: ValueEditor = {
+  get(text, path) {
+    const tables = parseToml(text);
+    const found = lookup(toData(tables), path);
+    if (!found) {
+      throw missing(tables, path);
+    }
+    return found.value;
+  },
+
+  set(text, path, value) {
+    if (path.length === 0) {
+      throw new Error('Cannot replace the whole document; set its keys one by one');
+    }
+    const tables = parseToml(text);
+    const entry = findEntry(tables, (candidate) => formatKeyPath(candidate.path) === formatKeyPath(path));
+    if (entry) {
+      return splice(text, entry.valueStart, entry.valueEnd, renderValue(value, text.slice(entry.valueStart, entry.valueEnd)));
+    }
+    const inline = inlineEdit(text, tables, path, 'set', value);
+    if (inline !== undefined) {
+      return inline;
+    }
+    // A whole table is replaced by removing it and adding the new value
+    const existing = lookup(toData(tables), path);
+    if (existing) {
+      if (!isCollection(existing.value)) {
+        throw new Error(`Cannot set ${formatKeyPath(path)}`);
+      }
+      const removed = removeUnder(text, tables, path)!;
+      const section = tables.some((table) => table.header && !table.array && formatKeyPath(table.path) === formatKeyPath(path));
+      return section && isCollection(value) && !Array.isArray(value) ?
+        appendTable(removed, parseToml(removed), path, value, false) :
+        this.set(removed, path, value);
+    }
+
+    const parent = lookup(toData(tables), path.slice(0, -1));
+    if (parent && !isCollection(parent.value)) {
+      throw new Error(`Cannot set ${formatKeyPath(path)}: ${formatKeyPath(path.slice(0, -1))} is ${kindOf(parent.value)}`);
+    }
+    // Deepest table that contains the path
+    const table = tables.filter((candidate) => startsWith(path, candidate.path)).sort((a, b) => b.path.length - a.path.length)[0];
+    const rest = path.slice(table.path.length);
+    const dotted = table.entries.some((candidate) => candidate.keys.length > 1 && candidate.keys[0] === rest[0]);
+    if (rest.length > 1 && !dotted && !/^\d+$/.test(rest[0])) {
+      return appendTable(text, tables, [...table.path, ...rest.slice(0, -1)], { [rest[rest.length - 1]]: value }, false);
+    }
+    return insertEntry(text, table, rest, value, table.path.length === 0);
+  },
+
+  remove(text, path) {
+    if (path.length === 0) {
+      throw new Error('Cannot delete the whole document');
+    }
+    const tables = parseToml(text);
+    const inline = findEntry(tables, (candidate) => formatKeyPath(candidate.path) === formatKeyPath(path)) ?
+      undefined :
+      inlineEdit(text, tables, path, 'remove');
+    const removed = inline ?? removeUnder(text, tables, path);
+    if (removed === undefined) {
+      throw missing(tables, path);
+    }
+    return removed;
+  },
+
+  append(text, path, value) {
+    const tables = parseToml(text);
+    const entry = findEntry(tables, (candidate) => formatKeyPath(candidate.path) === formatKeyPath(path));
+    if (entry) {
+      if (!Array.isArray(entry.value)) {
+        throw new Error(`Cannot append to ${formatKeyPath(path)}: it is ${kindOf(entry.value)}, not an array`);
+      }
+      return appendToArray(text, entry, value);
+    }
+    const inline = inlineEdit(text, tables, path, 'append', value);
+    if (inline !== undefined) {
+      return inline;
+    }
+    // An array of tables gets another [[table]]
+    if (tables.some((table) => table.array && formatKeyPath(table.path.slice(0, -1)) === formatKeyPath(path))) {
+      if (!isCollection(value) || Array.isArray(value)) {
+        throw new Error(`Cannot append ${kindOf(value)} to ${formatKeyPath(path)}, an array of tables; pass an object`);
+      }
+      return appendTable(text, tables, path, value, true);
+    }
+    if (lookup(toData(tables), path)) {
+      throw new Error(`Cannot append to ${formatKeyPath(path)}: it is a table, not an array`);
+    }
+    return this.set(text, path, [value]);
+  },
+
+  keys(text) {
+    const [root, ...tables] = parseToml(text);
+    // Offsets just past a newline belong to the line before
+    const lastLine = (end: number) => lineOfOffset(text, Math.max(end - 1, 0));
+    const keys: KeyLines[] = root.entries.map((entry) => ({
+      key: formatKeyPath(entry.keys), line: lineOfOffset(text, entry.lineStart), endLine: lastLine(entry.lineEnd)
+    }));
+    for (const table of tables) {
+      keys.push({
+        key: table.array ? `[[${formatKeyPath(table.path.slice(0, -1))}]]` : `[${formatKeyPath(table.path)}]`,
+        line: lineOfOffset(text, table.header!.start),
+        endLine: lastLine(table.bodyEnd)
+      });
+    }
+    return keys;
+  }
+};
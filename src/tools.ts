@@ -0,0 +1,835 @@
+/**
+ * Tool definitions
+ * The argument schema of every tool, used for tools/list, runtime validation and handler types
+ */
+
+import { ArgsOf, ToolSchema } from './schema.js';
+
+// Options shared by every tool that writes files
+const dryRunProperties = {
+  dryRun: {
+    type: 'boolean',
+    default: false,
+    description: 'Return a unified diff of the changes and a summary of added/removed lines without writing anything'
+  },
+  page: {
+    type: 'integer',
+    minimum: 1,
+    default: 1,
+    description: 'Page of the diff to return when it is too long for one response'
+  },
+  normalizeEol: {
+    type: 'string',
+    enum: ['lf', 'crlf', 'auto'],
+    description: 'Convert every line ending of the written file to LF, CRLF, or whichever most lines use (auto). By default each file keeps its own line endings.'
+  },
+  validate: {
+    type: 'boolean',
+    default: true,
+    description: 'Syntax-check JSON, YAML, TOML, TypeScript and JavaScript files (and files matched by --validate commands) after writing, and restore any file the edit breaks if it was valid before'
+  },
+  force: {
+    type: 'boolean',
+    default: false,
+    description: 'Edit files that have uncommitted git changes even when the server runs with --require-clean'
+  }
+} as const;
+
+// Optimistic concurrency guard for tools that edit an existing file
+const guardProperties = {
+  expectedHash: {
+    type: 'string',
+    description: 'Refuse the edit if the file no longer has this sha256 hash (as reported by read_file, search_in_file and show_around_line)'
+  },
+  expectedMtime: {
+    type: 'string',
+    description: 'Refuse the edit if the file no longer has this modification time (ISO timestamp as reported by the read tools)'
+  }
+} as const;
+
+// How multi-file tools pick the files under a directory
+const discoveryProperties = {
+  exclude: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Glob patterns of files or directories to leave out (e.g., ["dist/**", "**/*.test.ts"])'
+  },
+  defaultExcludes: {
+    type: 'boolean',
+    default: true,
+    description: 'Skip node_modules and .git directories'
+  },
+  ignoreFiles: {
+    type: 'boolean',
+    default: true,
+    description: 'Skip files matched by .gitignore, .ignore and .smalleditignore (set false to include them)'
+  }
+} as const;
+
+export const toolSchemas = {
+  sed_edit: {
+    name: 'sed_edit',
+    description: 'Make small edits to files using sed patterns. Efficient for single-line changes, pattern replacements, and simple text transformations.',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Path to the file to edit'
+      },
+      pattern: {
+        type: 'string',
+        description: 'Sed pattern (e.g., "s/old/new/g" for substitution)'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Create backup file before editing'
+      },
+      preview: {
+        type: 'boolean',
+        default: false,
+        description: 'Preview changes without modifying file'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'pattern']
+  },
+  sed_multifile: {
+    name: 'sed_multifile',
+    description: 'Apply sed pattern to multiple files matching a glob pattern',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Sed pattern to apply'
+      },
+      filePattern: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Glob pattern(s) relative to directory (e.g., "*.ts", "src/**/*.{ts,tsx}"); patterns starting with ! exclude'
+      },
+      ...discoveryProperties,
+      directory: {
+        type: 'string',
+        default: '.',
+        description: 'Starting directory for search'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Create backup files'
+      },
+      atomic: {
+        type: 'boolean',
+        default: false,
+        description: 'All-or-nothing: stage and validate every file first, and change none of them if any file fails'
+      },
+      expectedHashes: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Map of file path to the sha256 hash it had when read; a file that no longer matches is not edited'
+      },
+      ...dryRunProperties
+    },
+    required: ['pattern', 'filePattern']
+  },
+  awk_process: {
+    name: 'awk_process',
+    description: 'Process files using AWK for more complex operations like column manipulation, calculations, or conditional processing. The script runs from the workspace root but is not confined to it: file names it opens itself bypass the path policy (gawk runs it with --sandbox, which blocks this).',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Input file path'
+      },
+      script: {
+        type: 'string',
+        description: 'AWK script to execute'
+      },
+      outputFile: {
+        type: 'string',
+        description: 'Output file path (optional, defaults to stdout)'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'script']
+  },
+  quick_replace: {
+    name: 'quick_replace',
+    description: 'Simple find and replace across a file without regex',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to edit'
+      },
+      find: {
+        type: 'string',
+        description: 'Text to find (literal, not regex)'
+      },
+      replace: {
+        type: 'string',
+        description: 'Text to replace with'
+      },
+      all: {
+        type: 'boolean',
+        default: true,
+        description: 'Replace all occurrences (false = first only)'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'find', 'replace']
+  },
+  replace_block: {
+    name: 'replace_block',
+    description: 'Replace an exact block of text (may span lines) that must occur exactly once, or exactly expectedCount times; otherwise nothing is changed and the match locations are reported',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to edit'
+      },
+      oldText: {
+        type: 'string',
+        description: 'Exact text to replace, including newlines and indentation'
+      },
+      newText: {
+        type: 'string',
+        description: 'Text to put in its place, inserted exactly as given'
+      },
+      expectedCount: {
+        type: 'integer',
+        minimum: 1,
+        default: 1,
+        description: 'Number of occurrences oldText must have; all of them are replaced'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Create backup file before editing'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'oldText', 'newText']
+  },
+  set_value: {
+    name: 'set_value',
+    description: 'Read, set, delete or append to a value in a JSON/JSONC, YAML or TOML file by key path, rewriting only that value so comments, key order and formatting elsewhere are kept',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to edit; the format comes from its extension unless format is given'
+      },
+      path: {
+        type: 'string',
+        description: 'Key path: dotted keys with [n] for array elements, and quotes or brackets for keys containing dots (e.g., "dependencies.lodash", "jobs.build.steps[0].run", "scripts[\"build:prod\"]")'
+      },
+      action: {
+        type: 'string',
+        enum: ['get', 'set', 'delete', 'append'],
+        default: 'set',
+        description: 'get: return the value; set: replace or create it (missing parent keys are created); delete: remove the key or element; append: add value to the end of an array'
+      },
+      value: {
+        type: ['string', 'number', 'boolean', 'array', 'object', 'null'],
+        description: 'New value for set and append, as JSON (objects and arrays are written in the file\'s own syntax)'
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'yaml', 'toml'],
+        description: 'File format, for files whose extension does not tell'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Create backup file before editing'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'path']
+  },
+  line_edit: {
+    name: 'line_edit',
+    description: 'Edit specific lines by number or range',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to edit'
+      },
+      lineNumber: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Line number to edit (1-based); pass this or lineRange'
+      },
+      lineRange: {
+        type: 'string',
+        description: 'Line range (e.g., "10,20" or "5,$"); pass this or lineNumber'
+      },
+      action: {
+        type: 'string',
+        enum: ['replace', 'delete', 'insert_after', 'insert_before'],
+        description: 'Action to perform'
+      },
+      content: {
+        type: 'string',
+        description: 'New content, required for replace and the insert actions ("" for an empty line)'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'action']
+  },
+  perl_edit: {
+    name: 'perl_edit',
+    description: 'Edit files using Perl one-liners (more powerful than sed, better cross-platform support). The script runs from the workspace root but is not confined to it: files it opens itself bypass the path policy.',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to edit'
+      },
+      script: {
+        type: 'string',
+        description: 'Perl script (e.g., "s/old/new/g" or "$_ = uc" for uppercase)'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Create backup file'
+      },
+      multiline: {
+        type: 'boolean',
+        default: false,
+        description: 'Enable multiline mode (-0777)'
+      },
+      ...dryRunProperties,
+      ...guardProperties
+    },
+    required: ['file', 'script']
+  },
+  diff_preview: {
+    name: 'diff_preview',
+    description: 'Preview what changes would be made by showing a diff',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to preview changes for'
+      },
+      command: {
+        type: 'string',
+        description: 'Command that would make changes (e.g., "s/old/new/g")'
+      },
+      tool: {
+        type: 'string',
+        enum: ['sed', 'perl', 'awk'],
+        default: 'perl',
+        description: 'Which tool to use for the preview'
+      },
+      page: dryRunProperties.page
+    },
+    required: ['file', 'command']
+  },
+  restore_backup: {
+    name: 'restore_backup',
+    description: 'Restore a file from its backup history (most recent version by default)',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File to restore from backup'
+      },
+      version: {
+        type: 'string',
+        description: 'Backup version id to restore (see list_backups)'
+      },
+      steps: {
+        type: 'integer',
+        minimum: 1,
+        default: 1,
+        description: 'How many versions to go back when no version id is given (1 = most recent backup)'
+      },
+      keepBackup: {
+        type: 'boolean',
+        default: true,
+        description: 'Keep the backup version after restoring'
+      },
+      ...guardProperties
+    },
+    required: ['file']
+  },
+  list_backups: {
+    name: 'list_backups',
+    description: 'List backup versions per file from the backup history',
+    properties: {
+      directory: {
+        type: 'string',
+        default: '.',
+        description: 'Only list backups of files below this directory'
+      },
+      pattern: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        default: '*',
+        description: 'Only list backups of files matching these globs (relative to directory; ! excludes)'
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Glob patterns of files to leave out'
+      }
+    }
+  },
+  undo: {
+    name: 'undo',
+    description: 'Undo the most recent edit operations, across all files, from the operation journal',
+    properties: {
+      count: {
+        type: 'integer',
+        minimum: 1,
+        default: 1,
+        description: 'Number of operations to undo'
+      }
+    }
+  },
+  redo: {
+    name: 'redo',
+    description: 'Redo operations that were undone with undo',
+    properties: {
+      count: {
+        type: 'integer',
+        minimum: 1,
+        default: 1,
+        description: 'Number of operations to redo'
+      }
+    }
+  },
+  read_file: {
+    name: 'read_file',
+    description: 'Read and examine file contents with options for line ranges, search patterns, or full file viewing',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Path to the file to read'
+      },
+      lines: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Line range (e.g., "10-20", "1-5", "20-$")'
+      },
+      search: {
+        type: 'string',
+        description: 'Search pattern with context'
+      },
+      context: {
+        type: 'integer',
+        minimum: 0,
+        default: 3,
+        description: 'Lines of context around search matches'
+      }
+    },
+    required: ['file']
+  },
+  search_in_file: {
+    name: 'search_in_file',
+    description: 'Search for patterns in a file and show results with context',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Path to the file to search'
+      },
+      pattern: {
+        type: 'string',
+        description: 'Pattern to search for (can be regex)'
+      },
+      context: {
+        type: 'integer',
+        minimum: 0,
+        default: 3,
+        description: 'Lines of context around matches'
+      },
+      caseInsensitive: {
+        type: 'boolean',
+        default: false,
+        description: 'Case insensitive search'
+      }
+    },
+    required: ['file', 'pattern']
+  },
+  search_files: {
+    name: 'search_files',
+    description: 'Search every file under a directory for a regex and show matches grouped by file, with line/column numbers and context',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Regular expression to search for (JavaScript syntax)'
+      },
+      directory: {
+        type: 'string',
+        default: '.',
+        description: 'Directory to search'
+      },
+      include: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        default: '*',
+        description: 'Glob pattern(s) of files to search, relative to directory (e.g., "*.ts", "src/**/*.{ts,tsx}"); ! excludes'
+      },
+      ...discoveryProperties,
+      caseInsensitive: {
+        type: 'boolean',
+        default: false,
+        description: 'Case insensitive search'
+      },
+      fixedStrings: {
+        type: 'boolean',
+        default: false,
+        description: 'Treat pattern as literal text instead of a regex'
+      },
+      context: {
+        type: 'integer',
+        minimum: 0,
+        default: 2,
+        description: 'Lines of context before and after each match'
+      },
+      maxResults: {
+        type: 'integer',
+        minimum: 1,
+        default: 100,
+        description: 'Stop after this many matching lines in total'
+      },
+      maxPerFile: {
+        type: 'integer',
+        minimum: 1,
+        default: 20,
+        description: 'Show at most this many matching lines per file (all are still counted)'
+      }
+    },
+    required: ['pattern']
+  },
+  plan_replace: {
+    name: 'plan_replace',
+    description: 'Plan a search-and-replace across the files under a directory without writing anything: every changed line becomes a numbered hunk, and apply_plan writes all hunks or a chosen subset',
+    properties: {
+      find: {
+        type: 'string',
+        description: 'Regular expression to replace (JavaScript syntax), matched line by line'
+      },
+      replace: {
+        type: 'string',
+        description: 'Replacement text; $1, $<name> and $& refer to the match unless fixedStrings is set'
+      },
+      directory: {
+        type: 'string',
+        default: '.',
+        description: 'Directory to search'
+      },
+      include: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        default: '*',
+        description: 'Glob pattern(s) of files to change, relative to directory (e.g., "*.ts", "src/**/*.{ts,tsx}"); ! excludes'
+      },
+      ...discoveryProperties,
+      caseInsensitive: {
+        type: 'boolean',
+        default: false,
+        description: 'Case insensitive matching'
+      },
+      fixedStrings: {
+        type: 'boolean',
+        default: false,
+        description: 'Treat find and replace as literal text'
+      },
+      page: {
+        type: 'integer',
+        minimum: 1,
+        default: 1,
+        description: 'Page of hunks to return when the plan is too long for one response'
+      }
+    },
+    required: ['find', 'replace']
+  },
+  apply_plan: {
+    name: 'apply_plan',
+    description: 'Apply a plan made by plan_replace: all of its hunks, or only the hunk ids listed. All files are written together as one undoable operation.',
+    properties: {
+      planId: {
+        type: 'string',
+        description: 'Plan id returned by plan_replace'
+      },
+      hunks: {
+        type: 'array',
+        items: { type: 'integer', minimum: 1 },
+        description: 'Hunk ids to apply (default: every hunk in the plan)'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Save the previous versions to the backup history'
+      },
+      ...dryRunProperties
+    },
+    required: ['planId']
+  },
+  apply_edits: {
+    name: 'apply_edits',
+    description: 'Apply an ordered list of edits (replace text, replace lines, insert, delete, regex substitute) to one or more files in one call. Line numbers refer to the original content. All files are written together, with one combined diff and one undo point.',
+    properties: {
+      edits: {
+        type: 'array',
+        description: 'Edits, applied in order',
+        items: {
+          type: 'object',
+          properties: {
+            file: {
+              type: 'string',
+              description: 'Path to the file to edit'
+            },
+            type: {
+              type: 'string',
+              enum: ['replace_text', 'replace_lines', 'insert', 'delete', 'substitute'],
+              description: 'replace_text: literal find/replace; replace_lines: startLine-endLine become content; insert: content after line (0 = top); delete: startLine-endLine; substitute: regex pattern/replace'
+            },
+            find: {
+              type: 'string',
+              description: 'replace_text: exact text to find (may span lines)'
+            },
+            replace: {
+              type: 'string',
+              description: 'replace_text: literal replacement; substitute: replacement with $1, $& references'
+            },
+            all: {
+              type: 'boolean',
+              description: 'replace_text: replace every occurrence instead of the first'
+            },
+            pattern: {
+              type: 'string',
+              description: 'substitute: regular expression (JavaScript syntax)'
+            },
+            flags: {
+              type: 'string',
+              description: 'substitute: regex flags (default "g")'
+            },
+            startLine: {
+              type: 'integer',
+              minimum: 1,
+              description: 'replace_lines/delete: first line, in the original numbering'
+            },
+            endLine: {
+              type: 'integer',
+              minimum: 1,
+              description: 'replace_lines/delete: last line (default: startLine)'
+            },
+            line: {
+              type: 'integer',
+              minimum: 0,
+              description: 'insert: line to insert after, in the original numbering (0 = top of file)'
+            },
+            content: {
+              type: 'string',
+              description: 'replace_lines/insert: new text; use \\n for several lines'
+            }
+          },
+          required: ['file', 'type']
+        }
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Save the previous versions to the backup history'
+      },
+      expectedHashes: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Map of file path to the sha256 hash it must still have (as reported by the read tools)'
+      },
+      ...dryRunProperties
+    },
+    required: ['edits']
+  },
+  apply_patch: {
+    name: 'apply_patch',
+    description: 'Apply a unified diff for one or more files (from diff -u, git diff or diff_preview) without calling patch or git. Hunks are found at their line, or nearby when lines moved, with optional fuzz; /dev/null creates or deletes files. Every hunk is reported as applied (with its offset and fuzz) or failed, and nothing is written unless all of them apply.',
+    properties: {
+      patch: {
+        type: 'string',
+        description: 'Unified diff text with ---/+++ file headers and @@ hunks'
+      },
+      strip: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Leading path components to remove from file names, like patch -p (default: 1 when the paths start with a/ and b/ as in git diffs, otherwise 0)'
+      },
+      fuzz: {
+        type: 'integer',
+        minimum: 0,
+        default: 2,
+        description: 'Context lines at the start and end of a hunk that may be ignored when it does not match in full (0 = exact context)'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Save the previous versions to the backup history'
+      },
+      expectedHashes: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Map of file path to the sha256 hash it must still have (as reported by the read tools)'
+      },
+      ...dryRunProperties
+    },
+    required: ['patch']
+  },
+  rename_symbol: {
+    name: 'rename_symbol',
+    description: 'Rename a TypeScript/JavaScript symbol and every reference to it across the project, imports and re-exports included, using the TypeScript language service; strings, comments and unrelated names that match are left alone',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File containing a declaration or reference of the symbol'
+      },
+      line: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Line of the symbol (1-based)'
+      },
+      column: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Column of the symbol (1-based); may be left out when oldName is given'
+      },
+      oldName: {
+        type: 'string',
+        description: 'Current name; used to find the column on the line, and checked against the symbol found'
+      },
+      newName: {
+        type: 'string',
+        description: 'New name for the symbol'
+      },
+      project: {
+        type: 'string',
+        description: 'tsconfig.json or jsconfig.json to load (default: the nearest one above file)'
+      },
+      backup: {
+        type: 'boolean',
+        default: true,
+        description: 'Save the previous versions to the backup history'
+      },
+      expectedHashes: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Map of file path to the sha256 hash it must still have (as reported by the read tools)'
+      },
+      ...dryRunProperties
+    },
+    required: ['file', 'line', 'newName']
+  },
+  outline: {
+    name: 'outline',
+    description: 'List the functions, classes, methods, headings or top-level keys of a file as a nested outline with the line range of each, to read or edit one symbol by its lines. Uses the TypeScript parser for TS/JS, headings for Markdown, top-level keys for JSON/YAML/TOML and indentation for other text.',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Path to the file'
+      },
+      depth: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Deepest nesting level to list (1 = top-level symbols only; default: all)'
+      }
+    },
+    required: ['file']
+  },
+  show_around_line: {
+    name: 'show_around_line',
+    description: 'Show content around a specific line number for context verification',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'Path to the file'
+      },
+      lineNumber: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Line number to center on'
+      },
+      context: {
+        type: 'integer',
+        minimum: 0,
+        default: 5,
+        description: 'Lines before and after to show'
+      }
+    },
+    required: ['file', 'lineNumber']
+  },
+  git_status: {
+    name: 'git_status',
+    description: 'List files with uncommitted git changes in the workspace, marking the ones smalledit edited since the last commit',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File or directory to limit the status to (default: the whole workspace)'
+      }
+    }
+  },
+  git_diff: {
+    name: 'git_diff',
+    description: 'Show uncommitted git changes as a unified diff, for the whole workspace or one file or directory',
+    properties: {
+      file: {
+        type: 'string',
+        description: 'File or directory to diff (default: the whole workspace)'
+      },
+      staged: {
+        type: 'boolean',
+        default: false,
+        description: 'Diff the staged changes instead of the unstaged ones'
+      },
+      context: {
+        type: 'integer',
+        minimum: 0,
+        default: 3,
+        description: 'Lines of context around each change'
+      },
+      page: {
+        type: 'integer',
+        minimum: 1,
+        default: 1,
+        description: 'Page of the diff to return when it is too long for one response'
+      }
+    }
+  },
+  git_commit: {
+    name: 'git_commit',
+    description: 'Commit files to the local git repository. By default commits the files smalledit edited since the last commit that have uncommitted changes; other staged changes are left out of the commit.',
+    properties: {
+      message: {
+        type: 'string',
+        description: 'Commit message'
+      },
+      files: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Files to commit instead of the ones smalledit edited; new and deleted files are included'
+      },
+      all: {
+        type: 'boolean',
+        default: false,
+        description: 'Commit every uncommitted change in the workspace, untracked files included'
+      }
+    },
+    required: ['message']
+  },
+  help: {
+    name: 'help',
+    description: 'Get detailed help and examples for smalledit tools',
+    properties: {
+      tool: {
+        type: 'string',
+        default: 'all',
+        description: 'Tool name for help (e.g., "sed_edit", "perl_edit") or "all" for overview'
+      }
+    }
+  }
+} as const satisfies Record<string, ToolSchema>;
+
+export type ToolName = keyof typeof toolSchemas;
+export type ToolArgs<T extends ToolName> = ArgsOf<(typeof toolSchemas)[T]>;
@@ -0,0 +1,134 @@
+/**
+ * Syntax checks around writes
+ * Checks are picked by file: JSON, YAML and TOML files are parsed, TypeScript and JavaScript
+ * go through the TypeScript parser, and --validate commands run on the files their glob
+ * matches. Only the checks a file passes before an edit are run after it, so a file that was
+ * already broken, or that a check does not understand, can still be edited.
+ */
+
+import { extname } from 'path';
+import { ServerConfig } from './config.js';
+import { run } from './exec.js';
+import { matchGlob } from './glob.js';
+import { toRelative } from './sandbox.js';
+import { editorFor, formatOf } from './structured.js';
+
+export interface SyntaxCheck {
+  // The problem found, with its line and column where the checker reports one
+  check(file: string, text: string): Promise<string | undefined>;
+}
+
+const SCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+const dataCheck: SyntaxCheck = {
+  async check(file, text) {
+    try {
+      editorFor(file).get(text, []);
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+};
+
+// Plain JSON files that parse strictly have to keep doing so: no comments or trailing commas
+const strictJsonCheck: SyntaxCheck = {
+  async check(file, text) {
+    try {
+      JSON.parse(text);
+      return undefined;
+    } catch (error) {
+      const message = (error as Error).message;
+      const position = /at position (\d+)/.exec(message);
+      if (!position) {
+        return `Invalid JSON: ${message}`;
+      }
+      const before = text.slice(0, Number(position[1])).split('\n');
+      return `Invalid JSON at line ${before.length}, column ${before[before.length - 1].length + 1}: ${message.replace(/ in JSON at position.*/, '')}`;
+    }
+  }
+};
+
+// The TypeScript compiler, loaded on first use: it is large and most calls never need it
+export async function loadTypeScript(): Promise<typeof import('typescript')> {
+  return (await import('typescript')).default;
+}
+
+const scriptCheck: SyntaxCheck = {
+  async check(file, text) {
+    const ts = await loadTypeScript();
+    const { diagnostics = [] } = ts.transpileModule(text, { fileName: file, reportDiagnostics: true });
+    const [first] = diagnostics;
+    if (!first) {
+      return undefined;
+    }
+    const message = ts.flattenDiagnosticMessageText(first.messageText, ' ');
+    if (!first.file || first.start === undefined) {
+      return message;
+    }
+    const { line, character } = first.file.getLineAndCharacterOfPosition(first.start);
+    const more = diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more)` : '';
+    return `Syntax error at line ${line + 1}, column ${character + 1}: ${message}${more}`;
+  }
+};
+
+// A configured command; the file is passed as {file}, or as the last argument without one
+function commandCheck(config: ServerConfig, command: string): SyntaxCheck {
+  return {
+    async check(file) {
+      const words = command.split(/\s+/);
+      const args = words.includes('{file}') ? words.map((word) => word === '{file}' ? file : word) : [...words, file];
+      try {
+        await run(args[0], args.slice(1), { cwd: config.root });
+        return undefined;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    }
+  };
+}
+
+function checksFor(config: ServerConfig, file: string): SyntaxCheck[] {
+  const checks: SyntaxCheck[] = [];
+  if (formatOf(file)) {
+    checks.push(dataCheck);
+  }
+  if (extname(file).toLowerCase() === '.json') {
+    checks.push(strictJsonCheck);
+  }
+  if (SCRIPT_EXTENSIONS.has(extname(file).toLowerCase())) {
+    checks.push(scriptCheck);
+  }
+  const relative = toRelative(config, file);
+  for (const { pattern, command } of config.validators) {
+    if (matchGlob(pattern, relative)) {
+      checks.push(commandCheck(config, command));
+    }
+  }
+  return checks;
+}
+
+/**
+ * The checks file passes with its current content, to run again once the edit is written.
+ * Commands read the file from disk, so this runs before anything is written.
+ */
+export async function passingChecks(config: ServerConfig, file: string, text: string): Promise<SyntaxCheck[]> {
+  const passing: SyntaxCheck[] = [];
+  for (const candidate of checksFor(config, file)) {
+    if (!(await candidate.check(file, text))) {
+      passing.push(candidate);
+    }
+  }
+  return passing;
+}
+
+// The first problem the checks find with the written file
+export async function findProblem(checks: SyntaxCheck[], file: string, text: string): Promise<string | undefined> {
+  for (const candidate of checks) {
+    const problem = await candidate.check(file, text);
+    if (problem) {
+      return problem;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,140 @@
+/**
+ * File discovery
+ * Walks a directory in-process and returns the files selected by a glob matcher, leaving out
+ * default-excluded directories and paths matched by ignore files
+ */
+
+import { readdir } from 'fs/promises';
+import { dirname, join, relative, sep } from 'path';
+import { GlobMatcher } from './glob.js';
+import { findIgnoreRule, IgnoreRule, loadIgnoreRules } from './ignore.js';
+
+// Directories skipped unless the caller turns the defaults off
+export const DEFAULT_EXCLUDED_DIRS = ['node_modules', '.git'];
+
+// The server's own state is never walked
+const INTERNAL_DIRS = ['.smalledit'];
+
+export interface WalkOptions {
+  // Directory names skipped at any depth
+  skipDirs?: string[];
+  // Apply .gitignore, .ignore and .smalleditignore rules found from root down
+  ignoreFiles?: boolean;
+  // Workspace root: ignore files between it and the walked directory apply too
+  root?: string;
+}
+
+export interface FoundFile {
+  // Absolute path
+  path: string;
+  // Path relative to the directory that was walked, with forward slashes
+  relative: string;
+  // Include pattern that selected the file
+  pattern: string;
+}
+
+// Why paths were left out: matching files and whole directories, per rule
+export interface SkipReason {
+  reason: string;
+  files: number;
+  directories: number;
+}
+
+export interface WalkResult {
+  files: FoundFile[];
+  skipped: SkipReason[];
+}
+
+function toSlashes(path: string): string {
+  return path.split(sep).join('/');
+}
+
+// Ignore rules from the root down to (not including) the walked directory
+async function inheritedRules(root: string, directory: string): Promise<IgnoreRule[]> {
+  const rel = relative(root, directory);
+  if (rel === '' || rel.startsWith('..')) {
+    return [];
+  }
+  const dirs = [root];
+  for (let dir = dirname(directory); dir !== root && dir.startsWith(root); dir = dirname(dir)) {
+    dirs.splice(1, 0, dir);
+  }
+  const rules: IgnoreRule[] = [];
+  for (const dir of dirs) {
+    rules.push(...await loadIgnoreRules(dir, toSlashes(relative(root, dir))));
+  }
+  return rules;
+}
+
+export async function walkFiles(directory: string, matcher: GlobMatcher, options: WalkOptions = {}): Promise<WalkResult> {
+  const skipDirs = new Set(options.skipDirs ?? DEFAULT_EXCLUDED_DIRS);
+  const root = options.root ?? directory;
+  const found: FoundFile[] = [];
+  const skipped = new Map<string, SkipReason>();
+
+  const skip = (reason: string, kind: 'files' | 'directories') => {
+    const entry = skipped.get(reason) ?? { reason, files: 0, directories: 0 };
+    entry[kind]++;
+    skipped.set(reason, entry);
+  };
+
+  const visit = async (dir: string, parentRules: IgnoreRule[]): Promise<void> => {
+    const rules = options.ignoreFiles ?
+      [...parentRules, ...await loadIgnoreRules(dir, toSlashes(relative(root, dir)))] :
+      parentRules;
+    const entries = await readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      const rel = toSlashes(relative(directory, path));
+
+      // Symlinks are not followed, like find -type f
+      if (entry.isDirectory()) {
+        if (INTERNAL_DIRS.includes(entry.name) || matcher.excluded(rel) || matcher.excluded(`${rel}/`)) {
+          continue;
+        }
+        if (skipDirs.has(entry.name)) {
+          skip(`${entry.name} (default exclude)`, 'directories');
+          continue;
+        }
+        const rule = findIgnoreRule(rules, path, true);
+        if (rule) {
+          skip(rule.source, 'directories');
+          continue;
+        }
+        await visit(path, rules);
+      } else if (entry.isFile()) {
+        const pattern = matcher.match(rel);
+        if (pattern === undefined) {
+          continue;
+        }
+        const rule = findIgnoreRule(rules, path, false);
+        if (rule) {
+          skip(rule.source, 'files');
+          continue;
+        }
+        found.push({ path, relative: rel, pattern });
+      }
+    }
+  };
+
+  await visit(directory, options.ignoreFiles ? await inheritedRules(root, directory) : []);
+  return {
+    files: found.sort((a, b) => a.relative.localeCompare(b.relative)),
+    skipped: [...skipped.values()]
+  };
+}
+
+// "Skipped 3 files and 1 directory: ..." or '' when nothing was skipped
+export function describeSkipped(skipped: SkipReason[]): string {
+  if (skipped.length === 0) {
+    return '';
+  }
+  const count = (entry: { files: number; directories: number }) => [
+    entry.files > 0 ? `${entry.files} file${entry.files === 1 ? '' : 's'}` : '',
+    entry.directories > 0 ? `${entry.directories} director${entry.directories === 1 ? 'y' : 'ies'}` : ''
+  ].filter(Boolean).join(' and ');
+
+  const totals = skipped.reduce((sum, entry) => ({ files: sum.files + entry.files, directories: sum.directories + entry.directories }), { files: 0, directories: 0 });
+  return `Skipped ${count(totals)}:\n${skipped.map((entry) => `  ${count(entry)}: ${entry.reason}`).join('\n')}`;
+}
@@ -0,0 +1,596 @@
+/**
+ * YAML value editing
+ * Block mappings and sequences are parsed line by line into entries that know which lines
+ * they cover. Edits replace only the lines or the inline text of the value being changed,
+ * so comments and layout elsewhere are kept. Flow collections ([a, b], {a: 1}) are read
+ * whole and rewritten whole. Only the first document of a multi-document file is edited.
+ */
+
+import { arrayIndex, DataValue, editData, formatKeyPath, isCollection, KeyPath, kindOf, lookup, nest, notFound, ValueEditor } from './keypath.js';
+
+interface YamlNode {
+  kind: 'map' | 'seq' | 'scalar';
+  // Line of the node's first text, and the last line that belongs to it
+  line: number;
+  last: number;
+  // Block collections: column of the keys or dashes
+  column: number;
+  entries: YamlEntry[];
+  // Scalars: columns of the value text on its first line; flow collections and block
+  // scalars (| and >) continue on the lines up to last
+  start: number;
+  end: number;
+  style?: 'flow' | 'block';
+}
+
+interface YamlEntry {
+  // Undefined for sequence items
+  key?: string;
+  line: number;
+  // Column of the key or dash
+  column: number;
+  // Column just after the ":" or "-"
+  valueColumn: number;
+  value: YamlNode;
+}
+
+const DOCUMENT_MARKER = /^(---|\.\.\.)(\s|$)/;
+const QUOTED_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')[ \t]*:(?=\s|$)/;
+const PLAIN_KEY = /^([^\s#'"[\]{},|>!&*%@`-]|-(?=\S))[^#]*?[ \t]*:(?=\s|$)/;
+
+function isBlank(line: string): boolean {
+  return /^\s*(#.*)?$/.test(line);
+}
+
+function indentOf(line: string): number {
+  return /^ */.exec(line)![0].length;
+}
+
+function isItem(line: string, column: number): boolean {
+  return /^-(\s|$)/.test(line.slice(column));
+}
+
+function matchKey(line: string, column: number): { key: string; after: number } | undefined {
+  const rest = line.slice(column);
+  const quoted = QUOTED_KEY.exec(rest);
+  if (quoted) {
+    return { key: unquote(quoted[1]), after: column + quoted[0].length };
+  }
+  const plain = PLAIN_KEY.exec(rest);
+  return plain ? { key: plain[0].slice(0, -1).trim(), after: column + plain[0].length } : undefined;
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('\'')) {
+    return text.slice(1, -1).replace(/''/g, '\'');
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text.slice(1, -1);
+  }
+}
+
+// Column where a quoted scalar starting at column start ends, after the closing quote
+function quoteEnd(line: string, start: number): number {
+  const quote = line[start];
+  for (let index = start + 1; index < line.length; index++) {
+    if (quote === '"' && line[index] === '\\') {
+      index++;
+    } else if (line[index] === quote) {
+      if (quote === '\'' && line[index + 1] === '\'') {
+        index++;
+      } else {
+        return index + 1;
+      }
+    }
+  }
+  return line.length;
+}
+
+// Column where a plain scalar starting at column start ends: before a comment and trailing spaces
+function plainEnd(line: string, start: number): number {
+  const comment = line.slice(start).search(/\s#/);
+  const end = comment < 0 ? line.length : start + comment;
+  return start + line.slice(start, end).trimEnd().length;
+}
+
+interface YamlDocument {
+  lines: string[];
+  // Line after the first document
+  limit: number;
+  root?: YamlNode;
+}
+
+function parseYaml(text: string): YamlDocument {
+  const lines = text.split('\n');
+  let first = 0;
+  while (first < lines.length && isBlank(lines[first])) first++;
+  if (first < lines.length && /^---(\s|$)/.test(lines[first])) first++;
+  let limit = first;
+  while (limit < lines.length && !DOCUMENT_MARKER.test(lines[limit])) limit++;
+
+  const nextContent = (from: number) => {
+    let index = from;
+    while (index < limit && isBlank(lines[index])) index++;
+    return index;
+  };
+
+  const scalar = (line: number, start: number, end: number, last = line, style?: YamlNode['style']): YamlNode =>
+    ({ kind: 'scalar', line, last, column: start, entries: [], start, end, style });
+
+  // A flow collection may span lines; it ends where its brackets balance
+  const parseFlow = (line: number, start: number): YamlNode => {
+    let depth = 0;
+    for (let index = line; index < limit; index++) {
+      const text = lines[index];
+      for (let column = index === line ? start : 0; column < text.length; column++) {
+        const char = text[column];
+        if (char === '"' || char === '\'') {
+          column = quoteEnd(text, column) - 1;
+        } else if (char === '#' && /\s/.test(text[column - 1] ?? ' ')) {
+          break;
+        } else if (char === '[' || char === '{') {
+          depth++;
+        } else if ((char === ']' || char === '}') && --depth === 0) {
+          return scalar(line, start, index === line ? column + 1 : text.length, index, 'flow');
+        }
+      }
+    }
+    throw new Error(`Cannot parse YAML: unclosed flow collection at line ${line + 1}`);
+  };
+
+  // The value after a key's ":" or an item's "-", which may continue on more indented lines
+  const parseValue = (line: number, column: number, owner: number, ownerIsKey: boolean): YamlNode => {
+    const text = lines[line];
+    let start = column;
+    while (text[start] === ' ' || text[start] === '\t') start++;
+    const char = text[start];
+
+    if (char === undefined || char === '#') {
+      const next = nextContent(line + 1);
+      if (next < limit && indentOf(lines[next]) > owner) {
+        return parseNode(next, indentOf(lines[next]), owner);
+      }
+      // A key's sequence may sit at the key's own indentation
+      if (next < limit && ownerIsKey && indentOf(lines[next]) === owner && isItem(lines[next], owner)) {
+        return parseSeq(next, owner);
+      }
+      return scalar(line, column, column);
+    }
+    if (char === '|' || char === '>') {
+      let last = line;
+      for (let index = line + 1; index < limit && (lines[index].trim() === '' || indentOf(lines[index]) > owner); index++) {
+        if (lines[index].trim() !== '') last = index;
+      }
+      return scalar(line, start, plainEnd(text, start), last, 'block');
+    }
+    if (char === '[' || char === '{') {
+      return parseFlow(line, start);
+    }
+    // Plain and quoted scalars continue on more indented lines
+    let last = line;
+    for (let next = nextContent(line + 1); next < limit && indentOf(lines[next]) > owner; next = nextContent(next + 1)) {
+      last = next;
+    }
+    return scalar(line, start, char === '"' || char === '\'' ? quoteEnd(text, start) : plainEnd(text, start), last);
+  };
+
+  const parseMap = (line: number, column: number): YamlNode => {
+    const node: YamlNode = { kind: 'map', line, last: line, column, entries: [], start: column, end: column };
+    for (let current = line; ;) {
+      const key = matchKey(lines[current], column);
+      if (!key) {
+        throw new Error(`Cannot parse YAML at line ${current + 1}: expected "key: value"`);
+      }
+      const value = parseValue(current, key.after, column, true);
+      node.entries.push({ key: key.key, line: current, column, valueColumn: key.after, value });
+      node.last = Math.max(current, value.last);
+      const next = nextContent(node.last + 1);
+      if (next >= limit || indentOf(lines[next]) !== column || isItem(lines[next], column)) {
+        return node;
+      }
+      current = next;
+    }
+  };
+
+  const parseSeq = (line: number, column: number): YamlNode => {
+    const node: YamlNode = { kind: 'seq', line, last: line, column, entries: [], start: column, end: column };
+    for (let current = line; ;) {
+      const text = lines[current];
+      let content = column + 1;
+      while (text[content] === ' ') content++;
+      // "- key: value" and "- - item" start a nested collection on the dash's line
+      const value = content < text.length && text[content] !== '#' && (isItem(text, content) || matchKey(text, content)) ?
+        parseNode(current, content, column) :
+        parseValue(current, column + 1, column, false);
+      node.entries.push({ line: current, column, valueColumn: column + 1, value });
+      node.last = Math.max(current, value.last);
+      const next = nextContent(node.last + 1);
+      if (next >= limit || indentOf(lines[next]) !== column || !isItem(lines[next], column)) {
+        return node;
+      }
+      current = next;
+    }
+  };
+
+  const parseNode = (line: number, column: number, owner: number): YamlNode => {
+    if (isItem(lines[line], column)) return parseSeq(line, column);
+    if (matchKey(lines[line], column)) return parseMap(line, column);
+    return parseValue(line, column, owner, false);
+  };
+
+  const start = nextContent(first);
+  if (start >= limit) {
+    return { lines, limit };
+  }
+  const root = parseNode(start, indentOf(lines[start]), -1);
+  // Edits must not land in a part of the file that was not understood
+  const rest = nextContent(root.last + 1);
+  if (rest < limit) {
+    throw new Error(`Cannot parse YAML at line ${rest + 1}: unexpected indentation or syntax`);
+  }
+  return { lines, limit, root };
+}
+
+// Raw text of a scalar node, over all its lines
+function scalarText(lines: string[], node: YamlNode): string {
+  if (node.last === node.line) {
+    return lines[node.line].slice(node.start, node.end);
+  }
+  return [lines[node.line].slice(node.start), ...lines.slice(node.line + 1, node.last + 1)].join('\n');
+}
+
+function plainValue(text: string): DataValue {
+  if (/^(~|null|Null|NULL)?$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  return text;
+}
+
+// Flow collections and the scalars inside them
+function parseFlowText(text: string): DataValue {
+  let pos = 0;
+  const skip = () => {
+    for (;;) {
+      while (/\s/.test(text[pos] ?? '')) pos++;
+      if (text[pos] !== '#') return;
+      while (pos < text.length && text[pos] !== '\n') pos++;
+    }
+  };
+  const readScalar = (inMap: boolean): DataValue => {
+    skip();
+    if (text[pos] === '"' || text[pos] === '\'') {
+      const end = quoteEnd(text, pos);
+      const quoted = text.slice(pos, end);
+      pos = end;
+      return unquote(quoted);
+    }
+    const start = pos;
+    while (pos < text.length && !/[,\]}]/.test(text[pos]) && !(inMap && text[pos] === ':' && /\s/.test(text[pos + 1] ?? ' '))) pos++;
+    return plainValue(text.slice(start, pos).trim());
+  };
+  const readValue = (): DataValue => {
+    skip();
+    const open = text[pos];
+    if (open !== '[' && open !== '{') return readScalar(false);
+    pos++;
+    const close = open === '[' ? ']' : '}';
+    const items: DataValue[] = [];
+    const entries: { [key: string]: DataValue } = {};
+    for (skip(); text[pos] !== close; skip()) {
+      if (pos >= text.length) throw new Error('Cannot parse YAML flow collection: missing ' + close);
+      if (open === '[') {
+        items.push(readValue());
+      } else {
+        const key = String(readScalar(true));
+        skip();
+        if (text[pos] === ':') pos++;
+        skip();
+        entries[key] = text[pos] === ',' || text[pos] === '}' ? null : readValue();
+      }
+      skip();
+      if (text[pos] === ',') pos++;
+    }
+    pos++;
+    return open === '[' ? items : entries;
+  };
+  return readValue();
+}
+
+// | and > block scalars; "-" strips the final newline
+function blockValue(text: string): string {
+  const [header, ...body] = text.split('\n');
+  const indent = Math.min(...body.filter((line) => line.trim() !== '').map(indentOf));
+  const lines = body.map((line) => line.slice(indent));
+  const content = header.startsWith('>') ?
+    lines.join('\n').replace(/([^\n])\n(?=[^\n ])/g, '$1 ') :
+    lines.join('\n');
+  return content.replace(/\n*$/, '') + (header.includes('-') ? '' : '\n');
+}
+
+function toData(lines: string[], node: YamlNode): DataValue {
+  if (node.kind === 'map') {
+    const data: { [key: string]: DataValue } = {};
+    for (const entry of node.entries) {
+      Object.defineProperty(data, entry.key!, { value: toData(lines, entry.value), enumerable: true, writable: true, configurable: true });
+    }
+    return data;
+  }
+  if (node.kind === 'seq') {
+    return node.entries.map((entry) => toData(lines, entry.value));
+  }
+  const text = scalarText(lines, node);
+  if (node.style === 'flow') return parseFlowText(text);
+  if (node.style === 'block') return blockValue(text);
+  // Line breaks inside plain and quoted scalars fold to spaces
+  const folded = text.split('\n').map((line) => line.trim()).join(' ');
+  return folded.startsWith('"') || folded.startsWith('\'') ? unquote(folded) : plainValue(folded);
+}
+
+function entryOf(node: YamlNode, segment: string): YamlEntry | undefined {
+  if (node.kind === 'map') {
+    return node.entries.filter((entry) => entry.key === segment).pop();
+  }
+  if (node.kind === 'seq') {
+    const index = arrayIndex(node.entries, segment);
+    return index === undefined ? undefined : node.entries[index];
+  }
+  return undefined;
+}
+
+function resolve(root: YamlNode, path: KeyPath): { node: YamlNode; entry?: YamlEntry; depth: number } {
+  let node = root;
+  let entry: YamlEntry | undefined;
+  for (let depth = 0; depth < path.length; depth++) {
+    const child = entryOf(node, path[depth]);
+    if (!child) {
+      return { node, entry, depth };
+    }
+    entry = child;
+    node = child.value;
+  }
+  return { node, entry, depth: path.length };
+}
+
+// Strings stay plain when YAML would read them back as the same string
+function isPlain(text: string): boolean {
+  return /^[^\s\-?:,[\]{}#&*!|>'"%@`]/.test(text) && !/[\n\r\t]|: | #|:$|\s$/.test(text) && plainValue(text) === text;
+}
+
+function renderKey(key: string): string {
+  return isPlain(key) ? key : JSON.stringify(key);
+}
+
+// A scalar or a flow collection; a replaced string keeps the quotes it had
+function renderInline(value: DataValue, previous = ''): string {
+  if (typeof value === 'string') {
+    if (previous.startsWith('\'') && !value.includes('\n')) return `'${value.replace(/'/g, '\'\'')}'`;
+    return previous.startsWith('"') || !isPlain(value) ? JSON.stringify(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => renderInline(item)).join(', ')}]`;
+  }
+  if (isCollection(value)) {
+    const entries = Object.entries(value);
+    return entries.length === 0 ? '{}' : `{ ${entries.map(([key, item]) => `${renderKey(key)}: ${renderInline(item)}`).join(', ')} }`;
+  }
+  return value === null ? 'null' : String(value);
+}
+
+function isBlockValue(value: DataValue): value is DataValue[] | { [key: string]: DataValue } {
+  return isCollection(value) && Object.keys(value).length > 0;
+}
+
+// Lines of a non-empty collection laid out in block style at the given column
+function renderBlock(value: DataValue[] | { [key: string]: DataValue }, column: number, unit: number): string[] {
+  const pad = ' '.repeat(column);
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isBlockValue(item)) return [`${pad}- ${renderInline(item)}`];
+      const inner = renderBlock(item, column + 2, unit);
+      return [`${pad}- ${inner[0].trimStart()}`, ...inner.slice(1)];
+    });
+  }
+  return Object.entries(value).flatMap(([key, item]) => isBlockValue(item) ?
+    [`${pad}${renderKey(key)}:`, ...renderBlock(item, column + unit, unit)] :
+    [`${pad}${renderKey(key)}: ${renderInline(item)}`]);
+}
+
+// Smallest indentation step in the file
+function indentUnit(lines: string[]): number {
+  const steps = lines.filter((line) => !isBlank(line)).map(indentOf).filter((indent) => indent > 0);
+  return steps.length > 0 ? Math.min(...steps) : 2;
+}
+
+class YamlEdit {
+  readonly lines: string[];
+  readonly unit: number;
+
+  constructor(readonly document: YamlDocument) {
+    this.lines = [...document.lines];
+    this.unit = indentUnit(document.lines);
+  }
+
+  text(): string {
+    return this.lines.join('\n');
+  }
+
+  // Give an entry (or the whole document) a new value, keeping the key and any comment on an inline value
+  replace(entry: YamlEntry | undefined, node: YamlNode, value: DataValue): void {
+    const { lines } = this;
+    const inline = node.kind === 'scalar' && node.style !== 'block' && node.last === node.line;
+    if (inline && (!isBlockValue(value) || node.style === 'flow')) {
+      const text = lines[node.line];
+      const rendered = renderInline(value, text.slice(node.start, node.end));
+      lines[node.line] = node.start === node.end ?
+        `${text.slice(0, node.start).trimEnd()} ${rendered}${text.slice(node.end)}` :
+        text.slice(0, node.start) + rendered + text.slice(node.end);
+      return;
+    }
+
+    const first = entry?.line ?? node.line;
+    const last = Math.max(entry?.line ?? node.line, node.last);
+    let replacement: string[];
+    if (!entry) {
+      replacement = isBlockValue(value) ? renderBlock(value, 0, this.unit) : [renderInline(value)];
+    } else if (entry.key === undefined) {
+      const prefix = lines[entry.line].slice(0, entry.column);
+      const inner = isBlockValue(value) ? renderBlock(value, entry.column + 2, this.unit) : [renderInline(value)];
+      replacement = [`${prefix}- ${inner[0].trimStart()}`, ...inner.slice(1)];
+    } else {
+      const head = lines[entry.line].slice(0, entry.valueColumn);
+      const column = node.kind !== 'scalar' && isCollection(value) && Array.isArray(value) === (node.kind === 'seq') ? node.column : entry.column + this.unit;
+      replacement = isBlockValue(value) ? [head, ...renderBlock(value, column, this.unit)] : [`${head} ${renderInline(value)}`];
+    }
+    lines.splice(first, last - first + 1, ...replacement);
+  }
+
+  // Lines go after the last line of the collection
+  insert(node: YamlNode | undefined, key: string | undefined, value: DataValue): void {
+    const column = node?.column ?? 0;
+    const pad = ' '.repeat(column);
+    let added: string[];
+    if (key === undefined) {
+      const inner = isBlockValue(value) ? renderBlock(value, column + 2, this.unit) : [renderInline(value)];
+      added = [`${pad}- ${inner[0].trimStart()}`, ...inner.slice(1)];
+    } else {
+      added = isBlockValue(value) ?
+        [`${pad}${renderKey(key)}:`, ...renderBlock(value, column + this.unit, this.unit)] :
+        [`${pad}${renderKey(key)}: ${renderInline(value)}`];
+    }
+    let after = node?.last;
+    if (after === undefined) {
+      // Empty document: after its last non-blank line
+      after = this.document.limit - 1;
+      while (after >= 0 && this.lines[after].trim() === '') after--;
+    }
+    this.lines.splice(after + 1, 0, ...added);
+  }
+
+  remove(entry: YamlEntry, node: YamlNode): void {
+    const { lines } = this;
+    const last = Math.max(entry.line, entry.value.last);
+    const next = node.entries[node.entries.indexOf(entry) + 1];
+    // The first key of "- key: value" shares the item's dash; the next key takes it over
+    if (next && entry.column > indentOf(lines[entry.line])) {
+      const prefix = lines[entry.line].slice(0, entry.column);
+      lines[next.line] = prefix + lines[next.line].slice(entry.column);
+    }
+    lines.splice(entry.line, last - entry.line + 1);
+  }
+}
+
+function flowEdit(edit: YamlEdit, entry: YamlEntry | undefined, node: YamlNode, rest: KeyPath, action: 'set' | 'remove' | 'append', value?: DataValue): string {
+  edit.replace(entry, node, editData(toData(edit.lines, node), rest, action, value));
+  return edit.text();
+}
+
+function parseRoot(text: string): { edit: YamlEdit; root?: YamlNode } {
+  const document = parseYaml(text);
+  return { edit: new YamlEdit(document), root: document.root };
+}
+
+export const yamlEditor: ValueEditor = {
+  get(text, path) {
+    const { edit, root } = parseRoot(text);
+    if (!root) {
+      if (path.length === 0) return null;
+      throw notFound(path, 0);
+    }
+    const { node, depth } = resolve(root, path);
+    if (depth === path.length) {
+      return toData(edit.lines, node);
+    }
+    if (node.style === 'flow') {
+      const found = lookup(toData(edit.lines, node), path.slice(depth));
+      if (found) return found.value;
+    }
+    throw notFound(path, depth);
+  },
+
+  set(text, path, value) {
+    const { edit, root } = parseRoot(text);
+    if (!root) {
+      if (path.length === 0) {
+        return `${(isBlockValue(value) ? renderBlock(value, 0, edit.unit) : [renderInline(value)]).join('\n')}\n`;
+      }
+      edit.insert(undefined, path[0], nest(path.slice(1), value));
+      return edit.text();
+    }
+    const { node, entry, depth } = resolve(root, path);
+    if (depth === path.length) {
+      edit.replace(entry, node, value);
+    } else if (node.kind === 'map') {
+      edit.insert(node, path[depth], nest(path.slice(depth + 1), value));
+    } else if (node.kind === 'seq' && arrayIndex(node.entries, path[depth], true) === node.entries.length) {
+      edit.insert(node, undefined, nest(path.slice(depth + 1), value));
+    } else if (node.style === 'flow') {
+      return flowEdit(edit, entry, node, path.slice(depth), 'set', value);
+    } else if (node.kind === 'scalar' && toData(edit.lines, node) === null) {
+      edit.replace(entry, node, nest(path.slice(depth), value));
+    } else if (node.kind === 'seq') {
+      throw new Error(`No element ${path[depth]} in ${formatKeyPath(path.slice(0, depth))}, which has ${node.entries.length}`);
+    } else {
+      throw new Error(`Cannot set ${formatKeyPath(path)}: ${formatKeyPath(path.slice(0, depth))} is ${kindOf(toData(edit.lines, node))}`);
+    }
+    return edit.text();
+  },
+
+  remove(text, path) {
+    const { edit, root } = parseRoot(text);
+    if (path.length === 0) {
+      throw new Error('Cannot delete the whole document');
+    }
+    if (!root) {
+      throw notFound(path, 0);
+    }
+    const { node, entry: parentEntry, depth } = resolve(root, path.slice(0, -1));
+    if (depth === path.length - 1 && node.style === 'flow') {
+      return flowEdit(edit, parentEntry, node, path.slice(depth), 'remove');
+    }
+    const entry = depth === path.length - 1 ? entryOf(node, path[depth]) : undefined;
+    if (!entry) {
+      throw notFound(path, depth);
+    }
+    if (node.entries.length === 1) {
+      // The last entry leaves an empty collection behind rather than a null
+      edit.replace(parentEntry, node, node.kind === 'seq' ? [] : {});
+    } else {
+      edit.remove(entry, node);
+    }
+    return edit.text();
+  },
+
+  append(text, path, value) {
+    const { edit, root } = parseRoot(text);
+    if (!root) {
+      return this.set(text, path, [value]);
+    }
+    const { node, entry, depth } = resolve(root, path);
+    if (node.style === 'flow') {
+      return flowEdit(edit, entry, node, path.slice(depth), 'append', value);
+    }
+    if (depth < path.length) {
+      return this.set(text, path, [value]);
+    }
+    if (node.kind === 'seq') {
+      edit.insert(node, undefined, value);
+    } else if (node.kind === 'scalar' && toData(edit.lines, node) === null) {
+      edit.replace(entry, node, [value]);
+    } else {
+      throw new Error(`Cannot append to ${formatKeyPath(path)}: it is ${kindOf(toData(edit.lines, node))}, not an array`);
+    }
+    return edit.text();
+  },
+
+  keys(text) {
+    const { root } = parseYaml(text);
+    return root?.kind !== 'map' ? [] : root.entries.map((entry) => ({ key: entry.key!, line: entry.line + 1, endLine: entry.value.last + 1 }));
+  }
+};
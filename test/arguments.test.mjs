@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+// Invalid params, as opposed to errors raised while the tool runs
+const INVALID_PARAMS = -32602;
+
+describe('argument validation', () => {
+  let workspace;
+  const rejectsAsInvalid = (promise, message) => assert.rejects(promise, (error) => {
+    assert.equal(error.code, INVALID_PARAMS);
+    assert.match(error.message, message);
+    return true;
+  });
+
+  before(async () => {
+    workspace = await startWorkspace({ 'file.txt': 'one\ntwo\nthree\n' });
+  });
+  after(() => workspace.close());
+
+  test('names a missing argument', async () => {
+    await rejectsAsInvalid(workspace.call('sed_edit', { file: 'file.txt' }), /Invalid arguments for sed_edit: .*pattern/);
+  });
+
+  test('names a wrongly typed argument', async () => {
+    await rejectsAsInvalid(workspace.call('show_around_line', { file: 'file.txt', lineNumber: 'two' }), /lineNumber/);
+    await rejectsAsInvalid(workspace.call('line_edit', { file: 'file.txt', lineNumber: 0, action: 'delete' }), /lineNumber/);
+  });
+
+  test('names an unknown argument', async () => {
+    await rejectsAsInvalid(workspace.call('read_file', { file: 'file.txt', line: '1-2' }), /line\b/);
+  });
+
+  test('reads line ranges as "start-end" strings or arrays', async () => {
+    assert.deepEqual((await workspace.call('read_file', { file: 'file.txt', lines: '2-3' })).payload.lines.map((entry) => entry.text), ['two', 'three']);
+    assert.deepEqual((await workspace.call('read_file', { file: 'file.txt', lines: ['1', '2'] })).payload.lines.map((entry) => entry.text), ['one', 'two']);
+    assert.match((await workspace.call('read_file', { file: 'file.txt', lines: '3-$' })).text, /^Lines 3-\$ of file\.txt/);
+  });
+
+  test('rejects a line range that is not one', async () => {
+    for (const lines of ['abc', '1-x', '1,2', ['1', '2', '3']]) {
+      await rejectsAsInvalid(workspace.call('read_file', { file: 'file.txt', lines }), /Invalid line range/);
+    }
+    await assert.rejects(workspace.call('read_file', { file: 'file.txt', lines: '3-1' }), /out of range/);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('atomic sed_multifile', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'a.txt': 'old a\n', 'b.txt': 'old b\n', 'c.txt': 'other\n' });
+  });
+  after(() => workspace.close());
+
+  test('changes no file when one of them fails', async () => {
+    const { text, payload } = await workspace.call('sed_multifile', {
+      pattern: 's/old/new/', filePattern: '*.txt', atomic: true, expectedHashes: { 'b.txt': 'not-the-hash' }
+    });
+    assert.match(text, /Rolled back all 3 files, no files were changed/);
+    assert.match(text, /✗ b\.txt \[\*\.txt\]: File changed since read/);
+    assert.equal(payload.committed, false);
+    assert.equal(await read('a.txt'), 'old a\n');
+    assert.equal(await read('b.txt'), 'old b\n');
+  });
+
+  test('commits every changed file together and leaves no staging files', async () => {
+    const { text, payload } = await workspace.call('sed_multifile', { pattern: 's/old/new/', filePattern: '*.txt', atomic: true });
+    assert.match(text, /Committed 2 files \(1 unchanged\)/);
+    assert.equal(payload.committed, true);
+    assert.equal(await read('a.txt'), 'new a\n');
+    assert.equal(await read('b.txt'), 'new b\n');
+    assert.deepEqual((await readdir(workspace.root)).filter((file) => file.endsWith('.smalledit-tmp')), []);
+  });
+
+  test('is undone as one operation', async () => {
+    await workspace.call('undo', {});
+    assert.equal(await read('a.txt'), 'old a\n');
+    assert.equal(await read('b.txt'), 'old b\n');
+  });
+});
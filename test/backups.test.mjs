@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('versioned backups', () => {
+  let workspace;
+  const read = (file = 'file.txt') => readFile(join(workspace.root, file), 'utf8');
+  const versions = async () => (await workspace.call('list_backups', {})).payload.files[0].versions;
+
+  before(async () => {
+    workspace = await startWorkspace({ 'file.txt': 'v1\n' }, ['--history-limit', '3']);
+    for (const version of ['v2', 'v3', 'v4', 'v5']) {
+      await workspace.call('sed_edit', { file: 'file.txt', pattern: `s/^v[0-9]*$/${version}/` });
+    }
+  });
+  after(() => workspace.close());
+
+  test('keeps the newest versions up to the history limit', async () => {
+    const { payload } = await workspace.call('list_backups', {});
+    assert.equal(payload.total, 3);
+    assert.deepEqual(await Promise.all(payload.files[0].versions.map((entry) => read(entry.backupPath))), ['v4\n', 'v3\n', 'v2\n']);
+  });
+
+  test('restores a version by steps and keeps the current content as a new version', async () => {
+    const { payload } = await workspace.call('restore_backup', { file: 'file.txt', steps: 2 });
+    assert.equal(await read(), 'v3\n');
+    assert.equal(await read(payload.safetyBackupPath), 'v5\n');
+  });
+
+  test('restores a version by id and removes it with keepBackup: false', async () => {
+    const oldest = (await versions()).at(-1);
+    const content = await read(oldest.backupPath);
+    await workspace.call('restore_backup', { file: 'file.txt', version: oldest.id, keepBackup: false });
+    assert.equal(await read(), content);
+    assert.ok(!(await versions()).some((entry) => entry.id === oldest.id));
+  });
+
+  test('an edit that changes nothing uses up no version', async () => {
+    const before = await versions();
+    await workspace.call('sed_edit', { file: 'file.txt', pattern: 's/no match//' });
+    assert.deepEqual(await versions(), before);
+  });
+
+  test('reports a missing version', async () => {
+    await assert.rejects(workspace.call('restore_backup', { file: 'file.txt', version: 'nope' }), /No backup version nope for file\.txt/);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { applyBatch } from '../dist/batch.js';
+import { startWorkspace } from './helpers.mjs';
+
+const TEXT = 'one\ntwo\nthree\nfour\nfive\n';
+
+// Edits of one file with their position in the batch, as apply_edits passes them
+const batch = (...edits) => edits.map((edit, index) => ({ edit, index }));
+
+describe('applyBatch', () => {
+  test('line numbers refer to the original content after earlier edits add lines', () => {
+    const updated = applyBatch(TEXT, batch(
+      { type: 'insert', line: 1, content: 'one a\none b' },
+      { type: 'replace_lines', startLine: 3, content: 'THREE' },
+      { type: 'delete', startLine: 5 }
+    ));
+    assert.equal(updated, 'one\none a\none b\ntwo\nTHREE\nfour\n');
+  });
+
+  test('line numbers still hold after a text edit removes lines', () => {
+    const updated = applyBatch(TEXT, batch(
+      { type: 'replace_text', find: 'one\ntwo\n', replace: '' },
+      { type: 'replace_lines', startLine: 4, content: 'FOUR' }
+    ));
+    assert.equal(updated, 'three\nFOUR\nfive\n');
+  });
+
+  test('inserts at the same line keep their order', () => {
+    const updated = applyBatch('a\nb\n', batch(
+      { type: 'insert', line: 0, content: 'top' },
+      { type: 'insert', line: 1, content: 'first' },
+      { type: 'insert', line: 1, content: 'second' }
+    ));
+    assert.equal(updated, 'top\na\nfirst\nsecond\nb\n');
+  });
+
+  const conflicts = [
+    ['a line an earlier edit replaced', [{ type: 'delete', startLine: 2 }, { type: 'replace_lines', startLine: 2, content: 'x' }], /edits\[1\] \(replace_lines\): line 2 was already changed by an earlier edit/],
+    ['a range around an earlier insert', [{ type: 'insert', line: 2, content: 'x' }, { type: 'delete', startLine: 2, endLine: 3 }], /edits\[1\] \(delete\): lines 2-3 overlap an earlier edit/],
+    ['a line past the end', [{ type: 'delete', startLine: 9 }], /edits\[0\] \(delete\): line 9 is out of range \(file has 5 lines\)/],
+    ['an inverted range', [{ type: 'delete', startLine: 3, endLine: 2 }], /endLine 2 is before startLine 3/],
+    ['missing text', [{ type: 'replace_text', find: 'six', replace: 'x' }], /edits\[0\] \(replace_text\): text not found: "six"/],
+    ['a regex without a match', [{ type: 'substitute', pattern: 'x+', replace: 'y' }], /no match for \/x\+\//]
+  ];
+
+  for (const [description, edits, message] of conflicts) {
+    test(`refuses ${description}`, () => {
+      assert.throws(() => applyBatch(TEXT, batch(...edits)), message);
+    });
+  }
+});
+
+describe('apply_edits', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'a.txt': TEXT, 'b.txt': 'alpha\n' });
+  });
+  after(() => workspace.close());
+
+  test('edits several files as one undoable operation', async () => {
+    const { text } = await workspace.call('apply_edits', {
+      edits: [
+        { file: 'a.txt', type: 'substitute', pattern: 'o', replace: '0' },
+        { file: 'b.txt', type: 'replace_text', find: 'alpha', replace: 'beta' },
+        { file: 'a.txt', type: 'delete', startLine: 3 }
+      ]
+    });
+    assert.match(text, /Applied 3 edits to 2 files \(0 unchanged\)/);
+    assert.equal(await read('a.txt'), '0ne\ntw0\nf0ur\nfive\n');
+    assert.equal(await read('b.txt'), 'beta\n');
+
+    await workspace.call('undo', {});
+    assert.equal(await read('a.txt'), TEXT);
+    assert.equal(await read('b.txt'), 'alpha\n');
+  });
+
+  test('writes no file when an edit in another file fails', async () => {
+    await assert.rejects(workspace.call('apply_edits', {
+      edits: [
+        { file: 'b.txt', type: 'replace_text', find: 'alpha', replace: 'beta' },
+        { file: 'a.txt', type: 'replace_lines', startLine: 6, content: 'x' }
+      ]
+    }), /edits\[1\] \(replace_lines\): line 6 is out of range/);
+    assert.equal(await read('b.txt'), 'alpha\n');
+  });
+
+  test('names the edit missing a field its type needs', async () => {
+    await assert.rejects(workspace.call('apply_edits', { edits: [{ file: 'a.txt', type: 'insert', content: 'x' }] }), /edits\[0\] \(insert\): "line" required/);
+  });
+});
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('expectedHash and expectedMtime', () => {
+  let workspace;
+  const read = () => readFile(join(workspace.root, 'file.txt'), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'file.txt': 'one\ntwo\n' });
+  });
+  after(() => workspace.close());
+
+  test('the read tools report the same hash', async () => {
+    const { text, payload } = await workspace.call('read_file', { file: 'file.txt' });
+    assert.match(text, new RegExp(`sha256: ${payload.hash}`));
+    assert.equal((await workspace.call('show_around_line', { file: 'file.txt', lineNumber: 1 })).payload.hash, payload.hash);
+    assert.equal((await workspace.call('search_in_file', { file: 'file.txt', pattern: 'two' })).payload.hash, payload.hash);
+  });
+
+  test('edits with the hash that was read', async () => {
+    const { payload } = await workspace.call('read_file', { file: 'file.txt' });
+    await workspace.call('line_edit', { file: 'file.txt', lineNumber: 2, action: 'replace', content: 'TWO', expectedHash: payload.hash });
+    assert.equal(await read(), 'one\nTWO\n');
+  });
+
+  test('refuses an edit when another writer changed the file since the read', async () => {
+    const { payload } = await workspace.call('read_file', { file: 'file.txt' });
+    await writeFile(join(workspace.root, 'file.txt'), 'zero\none\nTWO\n');
+
+    for (const [tool, args] of [
+      ['line_edit', { file: 'file.txt', lineNumber: 2, action: 'delete' }],
+      ['quick_replace', { file: 'file.txt', find: 'one', replace: 'uno' }],
+      ['sed_edit', { file: 'file.txt', pattern: 's/one/uno/' }]
+    ]) {
+      await assert.rejects(workspace.call(tool, { ...args, expectedHash: payload.hash }), /File changed since read: file\.txt has hash/, tool);
+    }
+    assert.equal(await read(), 'zero\none\nTWO\n');
+  });
+
+  test('compares the modification time', async () => {
+    const { payload } = await workspace.call('read_file', { file: 'file.txt' });
+    await workspace.call('quick_replace', { file: 'file.txt', find: 'zero', replace: 'nil', expectedMtime: payload.mtime });
+
+    const stale = new Date((await stat(join(workspace.root, 'file.txt'))).mtimeMs - 60_000).toISOString();
+    await assert.rejects(workspace.call('quick_replace', { file: 'file.txt', find: 'nil', replace: 'none', expectedMtime: stale }), /File changed since read: file\.txt was modified at/);
+    await assert.rejects(workspace.call('quick_replace', { file: 'file.txt', find: 'nil', replace: 'none', expectedMtime: 'yesterday' }), /Invalid expectedMtime: yesterday/);
+    assert.equal(await read(), 'nil\none\nTWO\n');
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+const LONG = Array.from({ length: 300 }, (_, index) => `line ${index}`).join('\n') + '\n';
+
+describe('dryRun', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'a.txt': 'one\ntwo\n', 'b.txt': 'one\n', 'long.txt': LONG });
+  });
+  after(() => workspace.close());
+
+  const calls = [
+    ['quick_replace', { file: 'a.txt', find: 'one', replace: 'uno' }],
+    ['line_edit', { file: 'a.txt', lineNumber: 1, action: 'replace', content: 'uno' }],
+    ['perl_edit', { file: 'a.txt', script: 's/one/uno/' }],
+    ['awk_process', { file: 'a.txt', script: '{ sub(/one/, "uno"); print }', outputFile: 'a.txt' }]
+  ];
+
+  for (const [tool, args] of calls) {
+    test(`${tool} returns the full diff and writes nothing`, async () => {
+      const { text, payload } = await workspace.call(tool, { ...args, dryRun: true });
+      assert.match(text, /a\.txt: \+1 -1/);
+      assert.match(text, /^-one\n\+uno$/m);
+      assert.equal(payload.dryRun, true);
+      assert.deepEqual(payload.filesChanged, ['a.txt']);
+      assert.equal(await read('a.txt'), 'one\ntwo\n');
+    });
+  }
+
+  test('sed_multifile shows one diff per file', async () => {
+    const { text, payload } = await workspace.call('sed_multifile', { pattern: 's/^one$/uno/', filePattern: '*.txt', dryRun: true });
+    assert.match(text, /Total: 2 file\(s\), \+2 -2 lines/);
+    assert.deepEqual(payload.filesChanged.sort(), ['a.txt', 'b.txt']);
+    assert.equal(await read('b.txt'), 'one\n');
+  });
+
+  test('pages a long diff instead of cutting it off', async () => {
+    const first = await workspace.call('sed_edit', { file: 'long.txt', pattern: 's/line/row/', dryRun: true });
+    assert.equal(first.payload.pages, 4);
+    assert.match(first.text, /page 1 of 4; call again with page: 2 for more/);
+    assert.match(first.text, /long\.txt: \+300 -300/);
+
+    const last = await workspace.call('sed_edit', { file: 'long.txt', pattern: 's/line/row/', dryRun: true, page: 4 });
+    assert.equal(last.payload.page, 4);
+    assert.match(last.text, /^\+row 299$/m);
+    assert.equal(await read('long.txt'), LONG);
+  });
+});
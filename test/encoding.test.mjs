@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { decodeText, encodeBytes, toDiskText } from '../dist/encoding.js';
+import { startWorkspace } from './helpers.mjs';
+
+const BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16_BOM = Buffer.from([0xff, 0xfe]);
+
+describe('text formats', () => {
+  const roundTrips = [
+    ['LF', Buffer.from('a\nb\n')],
+    ['CRLF without a final newline', Buffer.from('a\r\nb')],
+    ['UTF-8 with a BOM', Buffer.concat([BOM, Buffer.from('ä\n')])],
+    ['Latin-1', Buffer.from('caf\xe9\n', 'latin1')],
+    ['UTF-16 LE with a BOM', Buffer.concat([UTF16_BOM, Buffer.from('a\r\nb\r\n', 'utf16le')])],
+    ['UTF-16 BE with a BOM', Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('ab\n', 'utf16le').swap16()])]
+  ];
+
+  for (const [description, bytes] of roundTrips) {
+    test(`writes ${description} back byte for byte`, () => {
+      const { text, format } = decodeText(bytes);
+      assert.ok(!text.includes('\r'));
+      assert.deepEqual(encodeBytes(toDiskText(text, format), format), bytes);
+    });
+  }
+
+  test('converts line endings on request', () => {
+    const { format } = decodeText(Buffer.from('a\r\nb\r\n'));
+    assert.equal(toDiskText('a\nb\n', format, 'lf'), 'a\nb\n');
+    assert.equal(toDiskText('a\r\nb\nc\r\n', decodeText(Buffer.from('a\nb\n')).format, 'auto'), 'a\r\nb\r\nc\r\n');
+  });
+
+  test('refuses text that Latin-1 cannot hold', () => {
+    assert.throws(() => encodeBytes('€', decodeText(Buffer.from('caf\xe9', 'latin1')).format), /Latin-1/);
+  });
+});
+
+describe('edits keep the file format', () => {
+  let workspace;
+  const bytes = (file) => readFile(join(workspace.root, file));
+
+  before(async () => {
+    workspace = await startWorkspace();
+    await writeFile(join(workspace.root, 'crlf.txt'), 'one\r\ntwo\r\n');
+    await writeFile(join(workspace.root, 'bom.txt'), Buffer.concat([BOM, Buffer.from('one\n')]));
+    await writeFile(join(workspace.root, 'latin1.txt'), Buffer.from('caf\xe9 one', 'latin1'));
+    await writeFile(join(workspace.root, 'utf16.txt'), Buffer.concat([UTF16_BOM, Buffer.from('one\r\n', 'utf16le')]));
+    await writeFile(join(workspace.root, 'lf.txt'), 'one\ntwo\n');
+  });
+  after(() => workspace.close());
+
+  test('through every edit path', async () => {
+    await workspace.call('sed_edit', { file: 'crlf.txt', pattern: 's/one/uno/' });
+    await workspace.call('line_edit', { file: 'crlf.txt', lineNumber: 2, action: 'insert_after', content: 'three' });
+    assert.equal((await bytes('crlf.txt')).toString(), 'uno\r\ntwo\r\nthree\r\n');
+
+    await workspace.call('perl_edit', { file: 'bom.txt', script: 's/one/uno/' });
+    assert.deepEqual(await bytes('bom.txt'), Buffer.concat([BOM, Buffer.from('uno\n')]));
+
+    await workspace.call('quick_replace', { file: 'latin1.txt', find: 'one', replace: 'uno' });
+    assert.deepEqual(await bytes('latin1.txt'), Buffer.from('caf\xe9 uno', 'latin1'));
+
+    await workspace.call('apply_edits', { edits: [{ file: 'utf16.txt', type: 'replace_text', find: 'one', replace: 'uno' }] });
+    assert.deepEqual(await bytes('utf16.txt'), Buffer.concat([UTF16_BOM, Buffer.from('uno\r\n', 'utf16le')]));
+  });
+
+  test('read tools decode the file and restore_backup writes the old bytes back', async () => {
+    assert.match((await workspace.call('read_file', { file: 'utf16.txt' })).text, /1: uno/);
+    await workspace.call('restore_backup', { file: 'latin1.txt', steps: 1 });
+    assert.deepEqual(await bytes('latin1.txt'), Buffer.from('caf\xe9 one', 'latin1'));
+  });
+
+  test('warns about an edit that mixes line endings and converts them with normalizeEol', async () => {
+    const { text, payload } = await workspace.call('line_edit', { file: 'lf.txt', lineNumber: 1, action: 'replace', content: 'uno\r\nun' });
+    assert.match(text, /Warning: lf\.txt now has mixed line endings \(it was utf-8, LF\)/);
+    assert.equal(payload.warnings.length, 1);
+
+    await workspace.call('quick_replace', { file: 'lf.txt', find: 'two', replace: 'dos', normalizeEol: 'lf' });
+    assert.equal((await bytes('lf.txt')).toString(), 'uno\nun\ndos\n');
+  });
+});
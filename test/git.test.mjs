@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+// A repository whose first commit is old, so every edit of the test comes after it
+function initRepository(root) {
+  const git = (...args) => execFileSync('git', args, {
+    cwd: root,
+    env: { ...process.env, GIT_AUTHOR_DATE: '2020-01-01T00:00:00Z', GIT_COMMITTER_DATE: '2020-01-01T00:00:00Z' }
+  }).toString();
+  git('init', '--quiet');
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('add', '--all');
+  git('commit', '--quiet', '--message', 'initial');
+  return git;
+}
+
+describe('git tools', () => {
+  let workspace;
+  let git;
+
+  before(async () => {
+    workspace = await startWorkspace({ 'a.txt': 'one\n', 'b.txt': 'one\n', 'c.txt': 'one\n' });
+    git = initRepository(workspace.root);
+  });
+  after(() => workspace.close());
+
+  test('git_status marks the files smalledit edited and git_diff shows the changes', async () => {
+    await workspace.call('quick_replace', { file: 'a.txt', find: 'one', replace: 'two' });
+    await writeFile(join(workspace.root, 'b.txt'), 'by hand\n');
+    await writeFile(join(workspace.root, 'new.txt'), 'new\n');
+
+    const { text, payload } = await workspace.call('git_status', {});
+    assert.match(text, /3 file\(s\) with uncommitted changes, 1 edited by smalledit/);
+    assert.match(text, / M a\.txt: modified \(edited by smalledit\)\n {2} M b\.txt: modified\n {2}\?\? new\.txt: untracked/);
+    assert.deepEqual(payload.files.filter((entry) => entry.smalledit).map((entry) => entry.file), ['a.txt']);
+    assert.doesNotMatch(text, /\.smalledit/);
+
+    const diff = await workspace.call('git_diff', { file: 'a.txt' });
+    assert.match(diff.text, /^-one\n\+two$/m);
+  });
+
+  test('git_commit commits only the files smalledit edited', async () => {
+    const { payload } = await workspace.call('git_commit', { message: 'Edit a' });
+    assert.deepEqual(payload.files, ['a.txt']);
+    assert.equal(git('log', '-1', '--format=%s'), 'Edit a\n');
+    assert.equal(git('status', '--porcelain', '--', '.', ':(exclude).smalledit'), ' M b.txt\n?? new.txt\n');
+  });
+
+  test('a committed edit does not claim later changes by another writer', async () => {
+    await writeFile(join(workspace.root, 'a.txt'), 'changed by hand\n');
+    const { payload } = await workspace.call('git_status', { path: 'a.txt' });
+    assert.deepEqual(payload.files.map(({ file, smalledit }) => ({ file, smalledit })), [{ file: 'a.txt', smalledit: false }]);
+    await assert.rejects(workspace.call('git_commit', { message: 'Edit a again' }), /Nothing to commit: no file edited by smalledit has uncommitted changes/);
+
+    const named = await workspace.call('git_commit', { message: 'Hand edits', files: ['a.txt', 'b.txt'] });
+    assert.deepEqual(named.payload.files, ['a.txt', 'b.txt']);
+  });
+
+  test('an undone edit is not marked, and all commits everything', async () => {
+    await workspace.call('quick_replace', { file: 'c.txt', find: 'one', replace: 'two' });
+    await workspace.call('undo', {});
+    await writeFile(join(workspace.root, 'c.txt'), 'three\n');
+    assert.equal((await workspace.call('git_status', {})).payload.files.some((entry) => entry.smalledit), false);
+
+    const { payload } = await workspace.call('git_commit', { message: 'Everything', all: true });
+    assert.deepEqual(payload.files.sort(), ['c.txt', 'new.txt']);
+    await assert.rejects(workspace.call('git_commit', { message: 'Empty', all: true }), /the workspace has no uncommitted changes/);
+  });
+});
+
+describe('--require-clean', () => {
+  let workspace;
+
+  before(async () => {
+    workspace = await startWorkspace({ 'clean.txt': 'one\n', 'dirty.txt': 'one\n' }, ['--require-clean']);
+    initRepository(workspace.root);
+    await writeFile(join(workspace.root, 'dirty.txt'), 'by hand\n');
+  });
+  after(() => workspace.close());
+
+  test('refuses to edit a file with uncommitted changes unless forced', async () => {
+    await assert.rejects(
+      workspace.call('sed_edit', { file: 'dirty.txt', pattern: 's/hand/machine/' }),
+      /Refusing to edit dirty\.txt: uncommitted changes would be mixed with this edit/
+    );
+    await workspace.call('sed_edit', { file: 'dirty.txt', pattern: 's/hand/machine/', force: true });
+  });
+
+  test('edits a committed file once, then wants a commit first', async () => {
+    await workspace.call('quick_replace', { file: 'clean.txt', find: 'one', replace: 'two' });
+    await assert.rejects(workspace.call('quick_replace', { file: 'clean.txt', find: 'two', replace: 'three' }), /Refusing to edit clean\.txt/);
+    await workspace.call('git_commit', { message: 'Edit clean' });
+    await workspace.call('quick_replace', { file: 'clean.txt', find: 'two', replace: 'three' });
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { createMatcher, expandBraces, matchGlob } from '../dist/glob.js';
+import { startWorkspace } from './helpers.mjs';
+
+describe('matchGlob', () => {
+  const cases = [
+    ['*.ts', 'src/deep/app.ts', true],
+    ['src/*.ts', 'src/deep/app.ts', false],
+    ['src/**/*.ts', 'src/app.ts', true],
+    ['src/**/*.ts', 'src/a/b/app.ts', true],
+    ['src/**', 'src/a/b/app.ts', true],
+    ['**/*.{ts,tsx}', 'lib/view.tsx', true],
+    ['*.[jt]s', 'app.js', true],
+    ['*.[!j]s', 'app.js', false],
+    ['file?.txt', 'file1.txt', true],
+    ['file?.txt', 'file10.txt', false]
+  ];
+
+  for (const [pattern, path, expected] of cases) {
+    test(`${pattern} ${expected ? 'matches' : 'does not match'} ${path}`, () => {
+      assert.equal(matchGlob(pattern, path), expected);
+    });
+  }
+
+  test('expands nested brace sets', () => {
+    assert.deepEqual(expandBraces('a.{js,{c,m}ts}'), ['a.js', 'a.cts', 'a.mts']);
+  });
+
+  test('reports the pattern that selected a path and honours exclusions', () => {
+    const matcher = createMatcher(['*.md', 'src/**/*.ts', '!**/*.test.ts'], ['src/gen/**']);
+    assert.equal(matcher.match('docs/readme.md'), '*.md');
+    assert.equal(matcher.match('src/a/app.ts'), 'src/**/*.ts');
+    assert.equal(matcher.match('src/a/app.test.ts'), undefined);
+    assert.equal(matcher.match('src/gen/types.ts'), undefined);
+  });
+});
+
+// Valid TypeScript, so post-write validation lets the edits through
+const OLD = 'let old = 1;\n';
+
+describe('globs in sed_multifile and list_backups', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'src/app.ts': OLD,
+      'src/view/page.tsx': OLD,
+      'src/view/page.test.tsx': OLD,
+      'src/dist/out.ts': OLD,
+      'node_modules/lib/index.ts': OLD,
+      'notes.md': OLD
+    });
+  });
+  after(() => workspace.close());
+
+  test('edits the files a recursive brace pattern selects, minus exclusions and node_modules', async () => {
+    const { text, payload } = await workspace.call('sed_multifile', {
+      pattern: 's/old/renamed/', filePattern: ['src/**/*.{ts,tsx}', '!**/*.test.tsx'], exclude: ['src/dist/**']
+    });
+    assert.deepEqual(payload.filesChanged.sort(), ['src/app.ts', 'src/view/page.tsx']);
+    assert.match(text, /✓ src\/view\/page\.tsx \[src\/\*\*\/\*\.\{ts,tsx\}\]/);
+    assert.equal(await read('src/view/page.test.tsx'), OLD);
+    assert.equal(await read('src/dist/out.ts'), OLD);
+    assert.equal(await read('node_modules/lib/index.ts'), OLD);
+  });
+
+  test('reports each failed file with its error message', async () => {
+    const { text, payload } = await workspace.call('sed_multifile', {
+      pattern: 's/renamed/again/', filePattern: 'src/*.ts', expectedHashes: { 'src/app.ts': 'stale' }
+    });
+    assert.match(text, /✗ src\/app\.ts \[src\/\*\.ts\]: File changed since read/);
+    assert.deepEqual(payload.files.map((entry) => entry.status), ['failed']);
+  });
+
+  test('list_backups filters with the same globs', async () => {
+    const { payload } = await workspace.call('list_backups', { pattern: ['**/*.tsx'] });
+    assert.deepEqual(payload.files.map((entry) => entry.file), ['src/view/page.tsx']);
+  });
+});
@@ -0,0 +1,41 @@
+// Start the built server on a temporary workspace and call its tools over stdio
+
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const SERVER = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'index.js');
+
+// files maps workspace-relative paths to their content
+export async function startWorkspace(files = {}, serverArgs = []) {
+  const base = await mkdtemp(join(tmpdir(), 'smalledit-test-'));
+  const root = join(base, 'root');
+  await mkdir(root);
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, file)), { recursive: true });
+    await writeFile(join(root, file), content);
+  }
+
+  const transport = new StdioClientTransport({ command: process.execPath, args: [SERVER, '--root', root, ...serverArgs], stderr: 'ignore' });
+  const client = new Client({ name: 'smalledit-test', version: '0.0.0' }, { capabilities: {} });
+  await client.connect(transport);
+
+  return {
+    // The directory around the root, for files the server must not reach
+    base,
+    root,
+    // Text of the result and its JSON payload; a tool error rejects
+    async call(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const [text, payload] = result.content.map((entry) => entry.text);
+      return { text, payload: payload === undefined ? undefined : JSON.parse(payload) };
+    },
+    async close() {
+      await client.close();
+      await rm(base, { recursive: true, force: true });
+    }
+  };
+}
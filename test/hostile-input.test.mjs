@@ -0,0 +1,134 @@
+// File names and patterns that would break or escape a shell command must reach the tools as plain data
+
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+const NAMES = [
+  'with space.txt',
+  'it\'s "quoted".txt',
+  '-leading-dash.txt',
+  '$(touch pwned).txt',
+  'semi;colon `touch pwned` & more.txt'
+];
+
+// Every command injection attempt below tries to create this file
+function assertNoInjection(workspace) {
+  for (const dir of [workspace.root, workspace.base, process.cwd()]) {
+    assert.equal(existsSync(join(dir, 'pwned')), false, `pwned was created in ${dir}`);
+  }
+}
+
+describe('hostile file names', () => {
+  let workspace;
+  before(async () => {
+    workspace = await startWorkspace(Object.fromEntries(NAMES.map((name) => [name, 'one\n'])));
+  });
+  after(() => workspace.close());
+
+  for (const name of NAMES) {
+    test(`every edit tool handles ${JSON.stringify(name)}`, async () => {
+      const { call, root } = workspace;
+      const content = () => readFile(join(root, name), 'utf8');
+
+      await call('sed_edit', { file: name, pattern: 's/one/two/' });
+      assert.equal(await content(), 'two\n');
+      await call('quick_replace', { file: name, find: 'two', replace: 'three' });
+      assert.equal(await content(), 'three\n');
+      await call('line_edit', { file: name, lineNumber: 1, action: 'replace', content: 'four' });
+      assert.equal(await content(), 'four\n');
+      await call('perl_edit', { file: name, script: 's/four/five/' });
+      assert.equal(await content(), 'five\n');
+      await call('awk_process', { file: name, script: '{ print $0 "!" }', outputFile: name });
+      assert.equal(await content(), 'five!\n');
+      await call('apply_edits', { edits: [{ file: name, type: 'replace_text', find: 'five!', replace: 'six' }] });
+      assert.equal(await content(), 'six\n');
+
+      for (const [tool, command] of [['sed', 's/six/seven/'], ['perl', 's/six/seven/'], ['awk', '{ sub(/six/, "seven"); print }']]) {
+        const { text } = await call('diff_preview', { file: name, command, tool });
+        assert.match(text, /^\+seven$/m, `${tool} preview`);
+      }
+      assert.match((await call('read_file', { file: name })).text, /six/);
+      assert.match((await call('search_in_file', { file: name, pattern: 'six' })).text, /six/);
+      assert.match((await call('list_backups', {})).text, new RegExp(name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')));
+
+      await call('undo', {});
+      assert.equal(await content(), 'five!\n');
+      assertNoInjection(workspace);
+    });
+  }
+
+  test('sed_multifile edits every hostile name a glob matches', async () => {
+    const { call, root } = workspace;
+    await writeFile(join(root, 'it\'s "quoted".txt'), 'x\n');
+    await writeFile(join(root, '-leading-dash.txt'), 'x\n');
+
+    const { payload } = await call('sed_multifile', { pattern: 's/x/y/', filePattern: '*.txt' });
+    assert.deepEqual(payload.filesChanged.sort(), ['-leading-dash.txt', 'it\'s "quoted".txt']);
+    assert.equal(await readFile(join(root, '-leading-dash.txt'), 'utf8'), 'y\n');
+    assertNoInjection(workspace);
+  });
+});
+
+describe('hostile patterns', () => {
+  let workspace;
+  before(async () => {
+    workspace = await startWorkspace({ 'file.txt': 'path/to/a.b\nit\'s "here"\n' });
+  });
+  after(() => workspace.close());
+
+  const content = () => readFile(join(workspace.root, 'file.txt'), 'utf8');
+  const reset = () => writeFile(join(workspace.root, 'file.txt'), 'path/to/a.b\nit\'s "here"\n');
+
+  const sedCases = [
+    ['quotes in the pattern and replacement', 's/\'s "here"/\'s "there"/', 'path/to/a.b\nit\'s "there"\n'],
+    ['a | delimiter around slashes', 's|path/to|dir|', 'dir/a.b\nit\'s "here"\n'],
+    ['a # delimiter', 's#a\\.b#c#', 'path/to/c\nit\'s "here"\n'],
+    ['an escaped / delimiter', 's/to\\/a/to\\/z/', 'path/to/z.b\nit\'s "here"\n'],
+    ['a regex address with another delimiter', '\\%path/%s/a/A/', 'pAth/to/a.b\nit\'s "here"\n'],
+    ['& and metacharacters in the replacement', 's/a\\.b/[&] $1 \\\\/', 'path/to/[a.b] $1 \\\nit\'s "here"\n'],
+    ['shell syntax that must stay literal', 's/here/$(touch pwned) `touch pwned`; touch pwned/', 'path/to/a.b\nit\'s "$(touch pwned) `touch pwned`; touch pwned"\n']
+  ];
+
+  for (const [description, pattern, expected] of sedCases) {
+    test(`sed_edit and sed_multifile with ${description}`, async () => {
+      await reset();
+      await workspace.call('sed_edit', { file: 'file.txt', pattern });
+      assert.equal(await content(), expected);
+      await reset();
+      await workspace.call('sed_multifile', { pattern, filePattern: 'file.txt' });
+      assert.equal(await content(), expected);
+      assertNoInjection(workspace);
+    });
+  }
+
+  test('quick_replace and replace_block treat find and replace as exact text', async () => {
+    await writeFile(join(workspace.root, 'file.txt'), 'a.*+?^${}()|[]\\/b\n');
+    await workspace.call('quick_replace', { file: 'file.txt', find: '.*+?^${}()|[]\\/', replace: '$& $1 \\' });
+    assert.equal(await content(), 'a$& $1 \\b\n');
+    await workspace.call('replace_block', { file: 'file.txt', oldText: '$& $1 \\', newText: '\'"`$(touch pwned)`' });
+    assert.equal(await content(), 'a\'"`$(touch pwned)`b\n');
+    assertNoInjection(workspace);
+  });
+
+  test('perl and awk scripts with quotes and a leading dash', async () => {
+    await reset();
+    await workspace.call('perl_edit', { file: 'file.txt', script: 's/\'s "here"/ is \'there\'/' });
+    assert.equal(await content(), 'path/to/a.b\nit is \'there\'\n');
+    const { payload } = await workspace.call('awk_process', { file: 'file.txt', script: '-1 { print "\'" NR "\'" }' });
+    assert.equal(payload.output, '\'1\'\n\'2\'\n');
+    assertNoInjection(workspace);
+  });
+
+  test('search tools accept regex metacharacters and fixed strings', async () => {
+    await reset();
+    const regex = await workspace.call('search_in_file', { file: 'file.txt', pattern: 'a\\.b$' });
+    assert.equal(regex.payload.matches.length, 1);
+    const fixed = await workspace.call('search_files', { pattern: '"here"', fixedStrings: true });
+    assert.match(fixed.text, /file\.txt/);
+    await assert.rejects(workspace.call('search_in_file', { file: 'file.txt', pattern: '(unclosed' }));
+  });
+});
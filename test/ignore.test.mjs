@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+const FILES = {
+  '.gitignore': 'dist/\n*.log\n!keep.log\n',
+  '.ignore': 'vendor/\n',
+  'src/.smalleditignore': '*.gen.txt\n',
+  'src/app.txt': 'old\n',
+  'src/types.gen.txt': 'old\n',
+  'src/deep/error.log': 'old\n',
+  'keep.log': 'old\n',
+  'dist/out.txt': 'old\n',
+  'vendor/lib.txt': 'old\n'
+};
+
+describe('ignore files in multi-file edits', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+  const edit = (args = {}) => workspace.call('sed_multifile', { pattern: 's/old/new/', filePattern: ['**/*.txt', '**/*.log'], ...args });
+
+  beforeEach(async () => {
+    workspace = await startWorkspace(FILES);
+  });
+  afterEach(() => workspace.close());
+
+  test('skips ignored files and directories and says why', async () => {
+    const { text, payload } = await edit();
+    assert.deepEqual(payload.filesChanged.sort(), ['keep.log', 'src/app.txt']);
+    assert.match(text, /Skipped 2 files and 2 directories:/);
+    assert.match(text, /1 directory: \.gitignore:1 \(dist\/\)/);
+    assert.match(text, /1 directory: \.ignore:1 \(vendor\/\)/);
+    assert.match(text, /1 file: \.gitignore:2 \(\*\.log\)/);
+    assert.match(text, /1 file: src\/\.smalleditignore:1 \(\*\.gen\.txt\)/);
+    assert.equal(payload.skipped.length, 4);
+    assert.equal(await read('dist/out.txt'), 'old\n');
+  });
+
+  test('applies the rules of parent directories to a subdirectory walk', async () => {
+    const { payload } = await edit({ directory: 'src' });
+    assert.deepEqual(payload.filesChanged, ['src/app.txt']);
+  });
+
+  test('includes ignored files with ignoreFiles: false', async () => {
+    const { payload } = await edit({ ignoreFiles: false });
+    assert.equal(payload.filesChanged.length, 6);
+    assert.equal(await read('vendor/lib.txt'), 'new\n');
+  });
+});
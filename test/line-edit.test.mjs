@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+const TEXT = 'one\ntwo\nthree\nfour\n';
+
+describe('line_edit', () => {
+  let workspace;
+  const read = () => readFile(join(workspace.root, 'file.txt'), 'utf8');
+  const edit = (args) => workspace.call('line_edit', { file: 'file.txt', ...args });
+
+  before(async () => {
+    workspace = await startWorkspace();
+  });
+  beforeEach(() => writeFile(join(workspace.root, 'file.txt'), TEXT));
+  after(() => workspace.close());
+
+  const cases = [
+    ['replaces a range with multi-line content once', { lineRange: '2,3', action: 'replace', content: 'a\nb\nc' }, 'one\na\nb\nc\nfour\n'],
+    ['replaces a line with an empty one', { lineNumber: 2, action: 'replace', content: '' }, 'one\n\nthree\nfour\n'],
+    ['inserts after the last line of a range', { lineRange: '1,2', action: 'insert_after', content: 'x' }, 'one\ntwo\nx\nthree\nfour\n'],
+    ['inserts before the last line', { lineRange: '$', action: 'insert_before', content: 'x' }, 'one\ntwo\nthree\nx\nfour\n'],
+    ['deletes to the end', { lineRange: '3,$', action: 'delete' }, 'one\ntwo\n']
+  ];
+
+  for (const [description, args, expected] of cases) {
+    test(description, async () => {
+      await edit(args);
+      assert.equal(await read(), expected);
+    });
+  }
+
+  const rejected = [
+    ['no line', { action: 'delete' }, /Missing lineNumber or lineRange/],
+    ['both lineNumber and lineRange', { lineNumber: 1, lineRange: '2,3', action: 'delete' }, /either lineNumber or lineRange, not both/],
+    ['replace without content', { lineNumber: 1, action: 'replace' }, /Missing content: action "replace"/],
+    ['an insert without content', { lineNumber: 1, action: 'insert_after' }, /Missing content: action "insert_after"/],
+    ['a malformed range', { lineRange: '2-3', action: 'delete' }, /Invalid line range: 2-3/]
+  ];
+
+  for (const [description, args, message] of rejected) {
+    test(`rejects ${description} as invalid params`, async () => {
+      await assert.rejects(edit(args), (error) => error.code === -32602 && message.test(error.message));
+      assert.equal(await read(), TEXT);
+    });
+  }
+
+  test('refuses a range past the end of the file', async () => {
+    await assert.rejects(edit({ lineRange: '3,9', action: 'delete' }), /Line range 3,9 is out of range \(file has 4 lines\)/);
+  });
+});
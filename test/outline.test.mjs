@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+// name, kind and line range of every symbol, nested like the outline
+const shape = (symbols) => symbols.map(({ name, kind, line, endLine, children }) =>
+  children.length > 0 ? [kind, name, line, endLine, shape(children)] : [kind, name, line, endLine]);
+
+describe('outline', () => {
+  let workspace;
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'store.ts': 'export class Store {\n  items = [];\n  add(item: string) {\n    this.items.push(item);\n  }\n}\n\nexport function make() {\n  return new Store();\n}\n\nconst x = 1;\n',
+      'doc.md': '# Title\n\ntext\n\n## Part\n\nmore\n\n# Other\n',
+      'config.yml': 'a: 1\nb:\n  c: 2\n',
+      'notes.txt': 'section\n  detail\nnext\n'
+    });
+  });
+  after(() => workspace.close());
+
+  test('lists classes, members and functions of TypeScript with their line ranges', async () => {
+    const { text, payload } = await workspace.call('outline', { file: 'store.ts' });
+    assert.equal(payload.language, 'typescript');
+    assert.equal(payload.total, 5);
+    assert.deepEqual(shape(payload.symbols), [
+      ['class', 'Store', 1, 6, [['property', 'items', 2, 2], ['method', 'add', 3, 5]]],
+      ['function', 'make', 8, 10],
+      ['const', 'x', 12, 12]
+    ]);
+    assert.match(text, /^ {2}class Store \(lines 1-6\)\n {4}property items \(line 2\)\n {4}method add \(lines 3-5\)$/m);
+    assert.match(text, /read_file\(\{ file: "store\.ts", lines: "1-6" \}\)/);
+  });
+
+  test('stops at the requested depth', async () => {
+    const { payload } = await workspace.call('outline', { file: 'store.ts', depth: 1 });
+    assert.deepEqual(shape(payload.symbols), [['class', 'Store', 1, 6], ['function', 'make', 8, 10], ['const', 'x', 12, 12]]);
+  });
+
+  test('nests Markdown headings and lists top-level keys of data files', async () => {
+    assert.deepEqual(shape((await workspace.call('outline', { file: 'doc.md' })).payload.symbols), [
+      ['h1', 'Title', 1, 8, [['h2', 'Part', 5, 8]]],
+      ['h1', 'Other', 9, 9]
+    ]);
+    assert.deepEqual(shape((await workspace.call('outline', { file: 'config.yml' })).payload.symbols), [['key', 'a', 1, 1], ['key', 'b', 2, 3]]);
+  });
+
+  test('outlines other text by indentation', async () => {
+    const { payload } = await workspace.call('outline', { file: 'notes.txt' });
+    assert.equal(payload.language, 'text');
+    assert.deepEqual(shape(payload.symbols), [['block', 'section', 1, 2]]);
+  });
+});
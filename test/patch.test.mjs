@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { unifiedDiff } from '../dist/diff.js';
+import { applyFilePatch, formatHunkStatus, parsePatch } from '../dist/patch.js';
+import { startWorkspace } from './helpers.mjs';
+
+const ORIGINAL = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('parsePatch', () => {
+  test('splits a git diff into files and strips a/ and b/', () => {
+    const patches = parsePatch([
+      'commit message',
+      'diff --git a/one.txt b/one.txt',
+      'index 1111111..2222222 100644',
+      '--- a/one.txt',
+      '+++ b/one.txt',
+      '@@ -1,2 +1,2 @@',
+      ' same',
+      '-old',
+      '+new',
+      'diff --git a/two.txt b/two.txt',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/two.txt',
+      '@@ -0,0 +1 @@',
+      '+created',
+      ''
+    ].join('\n'));
+
+    assert.deepEqual(patches.map(({ oldPath, newPath, hunks }) => [oldPath, newPath, hunks.length]),
+      [['one.txt', 'one.txt', 1], [null, 'two.txt', 1]]);
+    assert.deepEqual(patches[0].hunks[0], {
+      oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [' same', '-old', '+new'], oldNoNewline: false, newNoNewline: false
+    });
+  });
+
+  test('keeps paths without a/ and b/ unless strip is given', () => {
+    const patch = '--- src/file.txt\t2024-01-01 00:00:00\n+++ src/file.txt\n@@ -1 +1 @@\n-a\n+b\n';
+    assert.equal(parsePatch(patch)[0].newPath, 'src/file.txt');
+    assert.equal(parsePatch(patch, 1)[0].newPath, 'file.txt');
+  });
+
+  test('reads "No newline at end of file" markers and blank context lines', () => {
+    const [{ hunks: [hunk] }] = parsePatch('--- f\n+++ f\n@@ -1,2 +1,2 @@\n\n-a\n\\ No newline at end of file\n+b\n');
+    assert.deepEqual(hunk.lines, [' ', '-a', '+b']);
+    assert.equal(hunk.oldNoNewline, true);
+    assert.equal(hunk.newNoNewline, false);
+  });
+
+  test('rejects malformed patches', () => {
+    assert.throws(() => parsePatch('just text'), /no "--- file" \/ "\+\+\+ file" headers found/);
+    assert.throws(() => parsePatch('@@ -1 +1 @@\n-a\n+b\n'), /hunk without ---\/\+\+\+ file headers/);
+    assert.throws(() => parsePatch('--- f\n+++ f\n@@ -1,4 +1,4 @@\n a\n-b\n+c\n'), /ends early/);
+    assert.throws(() => parsePatch('--- f\n+++ f\n@@ -1,2 +1,2 @@\n a\n*b\n'), /has 1 of 2 old and 1 of 2 new lines/);
+  });
+});
+
+describe('applyFilePatch', () => {
+  const patchFor = (modified) => parsePatch(unifiedDiff('file.txt', ORIGINAL, modified))[0];
+
+  test('applies a diff of the same text exactly', () => {
+    const modified = ORIGINAL.replace('line 2\n', 'line two\n').replace('line 11\n', '');
+    const { text, statuses } = applyFilePatch('file.txt', ORIGINAL, patchFor(modified), 0);
+    assert.equal(text, modified);
+    assert.deepEqual(statuses.map(formatHunkStatus), ['✓ file.txt hunk 1 at line 1', '✓ file.txt hunk 2 at line 8']);
+  });
+
+  test('finds hunks whose lines moved and reports the offset', () => {
+    const patch = patchFor(ORIGINAL.replace('line 8\n', 'line eight\n'));
+    const { text, statuses } = applyFilePatch('file.txt', `new 1\nnew 2\n${ORIGINAL}`, patch, 0);
+    assert.equal(text, `new 1\nnew 2\n${ORIGINAL.replace('line 8\n', 'line eight\n')}`);
+    assert.equal(statuses[0].offset, 2);
+    assert.equal(formatHunkStatus(statuses[0]), '✓ file.txt hunk 1 at line 7, offset +2 lines');
+  });
+
+  test('ignores changed context lines at the edges with fuzz', () => {
+    const patch = patchFor(ORIGINAL.replace('line 6\n', 'line six\n'));
+    const changed = ORIGINAL.replace('line 3\n', 'line 3 edited\n');
+    assert.equal(applyFilePatch('file.txt', changed, patch, 0).statuses[0].status, 'failed');
+    const { text, statuses } = applyFilePatch('file.txt', changed, patch, 1);
+    assert.equal(text, changed.replace('line 6\n', 'line six\n'));
+    assert.equal(statuses[0].fuzz, 1);
+  });
+
+  test('says when a hunk looks already applied', () => {
+    const modified = ORIGINAL.replace('line 6\n', 'line six\n');
+    const { statuses } = applyFilePatch('file.txt', modified, patchFor(modified), 2);
+    assert.match(statuses[0].reason, /looks already applied/);
+  });
+
+  test('creates a file and adds or removes the final newline', () => {
+    const [created] = parsePatch('--- /dev/null\n+++ new.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n');
+    assert.equal(applyFilePatch('new.txt', '', created, 0).text, 'a\nb\n');
+
+    const removed = applyFilePatch('file.txt', 'a\nb\n', parsePatch(unifiedDiff('file.txt', 'a\nb\n', 'a\nb'))[0], 0);
+    assert.equal(removed.text, 'a\nb');
+    assert.equal(removed.finalNewline, false);
+  });
+});
+
+describe('apply_patch', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  // Written against ORIGINAL; the file on disk has two more lines at the top
+  const PATCH = [
+    '--- a/src/file.txt',
+    '+++ b/src/file.txt',
+    '@@ -4,3 +4,3 @@',
+    ' line 4',
+    '-line 5',
+    '+line five',
+    ' line 6',
+    '--- /dev/null',
+    '+++ b/src/new.txt',
+    '@@ -0,0 +1 @@',
+    '+created',
+    '--- a/old.txt',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-gone',
+    ''
+  ].join('\n');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'src/file.txt': `top\nheader\n${ORIGINAL}`, 'old.txt': 'gone\n' });
+  });
+  after(() => workspace.close());
+
+  test('previews the patch without writing', async () => {
+    const { text } = await workspace.call('apply_patch', { patch: PATCH, dryRun: true });
+    assert.match(text, /Dry run: all 3 hunks apply, no files were changed:\n✓ src\/file\.txt hunk 1 at line 6, offset \+2 lines/);
+    assert.equal(existsSync(join(workspace.root, 'src/new.txt')), false);
+  });
+
+  test('writes nothing when a hunk fails', async () => {
+    const { text, payload } = await workspace.call('apply_patch', { patch: PATCH.replace('-line 5\n+line five', '-line 50\n+line fifty') });
+    assert.match(text, /Patch not applied: 1 of 3 hunks failed, no files were changed:\n✗ src\/file\.txt hunk 1/);
+    assert.equal(payload.committed, false);
+    assert.equal(await read('old.txt'), 'gone\n');
+  });
+
+  test('modifies, creates and deletes files as one undoable operation', async () => {
+    const { text } = await workspace.call('apply_patch', { patch: PATCH });
+    assert.match(text, /Applied 3 hunks to 3 files:/);
+    assert.equal(await read('src/file.txt'), `top\nheader\n${ORIGINAL.replace('line 5\n', 'line five\n')}`);
+    assert.equal(await read('src/new.txt'), 'created\n');
+    assert.equal(existsSync(join(workspace.root, 'old.txt')), false);
+
+    await workspace.call('undo', {});
+    assert.equal(await read('src/file.txt'), `top\nheader\n${ORIGINAL}`);
+    assert.equal(existsSync(join(workspace.root, 'src/new.txt')), false);
+    assert.equal(await read('old.txt'), 'gone\n');
+  });
+
+  test('refuses a file changed since it was read', async () => {
+    await assert.rejects(workspace.call('apply_patch', { patch: PATCH, expectedHashes: { 'old.txt': 'stale' } }), /File changed since read: old\.txt/);
+  });
+});
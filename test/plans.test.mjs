@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('plan_replace and apply_plan', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+  const plan = (args = {}) => workspace.call('plan_replace', { find: 'color(\\w*)', replace: 'colour$1', include: '*.txt', ...args });
+
+  beforeEach(async () => {
+    workspace = await startWorkspace({ 'a.txt': 'color\nplain\ncolors\n', 'b.txt': 'colorful\n' });
+  });
+  afterEach(() => workspace.close());
+
+  test('numbers every changed line across files and writes nothing', async () => {
+    const { text, payload } = await plan();
+    assert.equal(payload.totalHunks, 3);
+    assert.match(text, /#1 a\.txt:1\n- color\n\+ colour/);
+    assert.match(text, /#3 b\.txt:1\n- colorful\n\+ colourful/);
+    assert.equal(await read('a.txt'), 'color\nplain\ncolors\n');
+  });
+
+  test('applies only the chosen hunks as one undoable operation', async () => {
+    const { payload } = await plan();
+    const applied = await workspace.call('apply_plan', { planId: payload.planId, hunks: [2, 3] });
+    assert.deepEqual(applied.payload.appliedHunks, [2, 3]);
+    assert.equal(await read('a.txt'), 'color\nplain\ncolours\n');
+    assert.equal(await read('b.txt'), 'colourful\n');
+
+    await workspace.call('undo', {});
+    assert.equal(await read('a.txt'), 'color\nplain\ncolors\n');
+    assert.equal(await read('b.txt'), 'colorful\n');
+    await assert.rejects(workspace.call('apply_plan', { planId: payload.planId }), /No replace plan/);
+  });
+
+  test('treats find and replace as literal text with fixedStrings', async () => {
+    await writeFile(join(workspace.root, 'a.txt'), 'a.b $1\n');
+    const { payload } = await plan({ find: 'a.b $1', replace: '$& x', fixedStrings: true });
+    await workspace.call('apply_plan', { planId: payload.planId });
+    assert.equal(await read('a.txt'), '$& x\n');
+  });
+
+  test('refuses when a planned file changed and writes no file', async () => {
+    const { payload } = await plan();
+    await writeFile(join(workspace.root, 'b.txt'), 'colorless\n');
+    await assert.rejects(workspace.call('apply_plan', { planId: payload.planId }), /File changed since plan: b\.txt/);
+    assert.equal(await read('a.txt'), 'color\nplain\ncolors\n');
+  });
+
+  test('rejects unknown hunk ids', async () => {
+    const { payload } = await plan();
+    await assert.rejects(workspace.call('apply_plan', { planId: payload.planId, hunks: [9] }), /Unknown hunk ids for .*: 9 \(plan has hunks 1-3\)/);
+  });
+});
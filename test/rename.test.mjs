@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+const USERS = 'export function getUser(id: number) {\n  return { id };\n}\n\n// getUser in a comment stays\nexport const first = getUser(1);\n';
+const APP = 'import { getUser } from \'./users\';\n\nconst getUserLabel = \'getUser\';\nconsole.log(getUser(2), getUserLabel);\n';
+
+describe('rename_symbol', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'tsconfig.json': '{ "compilerOptions": { "strict": true }, "include": ["src"] }\n',
+      'src/users.ts': USERS,
+      'src/app.ts': APP
+    });
+  });
+  after(() => workspace.close());
+
+  test('previews the rename of every reference without writing', async () => {
+    const { text, payload } = await workspace.call('rename_symbol', { file: 'src/users.ts', line: 1, oldName: 'getUser', newName: 'fetchUser', dryRun: true });
+    assert.match(text, /Rename function getUser to fetchUser \(tsconfig\.json\): 4 references in 2 files/);
+    assert.deepEqual(payload.filesChanged.sort(), ['src/app.ts', 'src/users.ts']);
+    assert.equal(await read('src/users.ts'), USERS);
+  });
+
+  test('renames references across files, not look-alike names, strings or comments', async () => {
+    await workspace.call('rename_symbol', { file: 'src/app.ts', line: 4, column: 13, newName: 'fetchUser' });
+    assert.equal(await read('src/users.ts'), USERS.replace('function getUser', 'function fetchUser').replace('getUser(1)', 'fetchUser(1)'));
+    assert.equal(await read('src/app.ts'), 'import { fetchUser } from \'./users\';\n\nconst getUserLabel = \'getUser\';\nconsole.log(fetchUser(2), getUserLabel);\n');
+
+    await workspace.call('undo', {});
+    assert.equal(await read('src/users.ts'), USERS);
+    assert.equal(await read('src/app.ts'), APP);
+  });
+
+  test('refuses a name that is not on the line, a symbol with another name and an invalid new name', async () => {
+    await assert.rejects(workspace.call('rename_symbol', { file: 'src/users.ts', line: 2, oldName: 'getUser', newName: 'x' }), /"getUser" does not occur on line 2 of src\/users\.ts/);
+    await assert.rejects(workspace.call('rename_symbol', { file: 'src/app.ts', line: 3, column: 7, oldName: 'getUser', newName: 'x' }), /is "getUserLabel", not "getUser"/);
+    await assert.rejects(workspace.call('rename_symbol', { file: 'src/users.ts', line: 1, oldName: 'getUser', newName: 'fetch-user' }), /"fetch-user" is not a valid identifier/);
+    await assert.rejects(workspace.call('rename_symbol', { file: 'src/users.ts', line: 1, newName: 'x' }), /Pass column or oldName/);
+  });
+});
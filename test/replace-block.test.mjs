@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+const TEXT = 'function a() {\n  return 1;\n}\n\nfunction b() {\n  return 1;\n}\n';
+
+describe('replace_block', () => {
+  let workspace;
+  const read = () => readFile(join(workspace.root, 'file.txt'), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace();
+  });
+  beforeEach(() => writeFile(join(workspace.root, 'file.txt'), TEXT));
+  after(() => workspace.close());
+
+  test('replaces a unique multi-line block exactly as given', async () => {
+    const { text } = await workspace.call('replace_block', {
+      file: 'file.txt', oldText: 'function b() {\n  return 1;', newText: 'function b() {\n  return $1 + `2`;'
+    });
+    assert.match(text, /Replaced 1 block\(s\) at 5:1 in file\.txt/);
+    assert.equal(await read(), TEXT.replace('function b() {\n  return 1;', 'function b() {\n  return $1 + `2`;'));
+  });
+
+  test('refuses an ambiguous block and lists where it occurs', async () => {
+    await assert.rejects(
+      workspace.call('replace_block', { file: 'file.txt', oldText: '  return 1;', newText: '  return 2;' }),
+      /oldText occurs 2 times in file\.txt \(at 2:1, 6:1\), expected 1; nothing was changed/
+    );
+    assert.equal(await read(), TEXT);
+  });
+
+  test('replaces every occurrence when expectedCount matches', async () => {
+    await workspace.call('replace_block', { file: 'file.txt', oldText: '  return 1;', newText: '  return 2;', expectedCount: 2 });
+    assert.equal(await read(), TEXT.replaceAll('return 1', 'return 2'));
+  });
+
+  test('refuses missing and empty oldText', async () => {
+    await assert.rejects(workspace.call('replace_block', { file: 'file.txt', oldText: 'nope', newText: 'x' }), /oldText not found in file\.txt/);
+    await assert.rejects(workspace.call('replace_block', { file: 'file.txt', oldText: '', newText: 'x' }), /oldText must not be empty/);
+  });
+});
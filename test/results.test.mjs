@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('structured results', () => {
+  let workspace;
+
+  before(async () => {
+    workspace = await startWorkspace({ 'a.txt': 'foo bar foo\nbaz\n', 'b.txt': 'foo\n' });
+  });
+  after(() => workspace.close());
+
+  test('an edit reports its files, line counts, replacements and backup', async () => {
+    const { payload } = await workspace.call('quick_replace', { file: 'a.txt', find: 'foo', replace: 'qux', all: true });
+    assert.equal(payload.tool, 'quick_replace');
+    assert.equal(payload.dryRun, false);
+    assert.deepEqual(payload.filesChanged, ['a.txt']);
+    assert.equal(payload.replacements, 2);
+    assert.equal(payload.linesAdded, 1);
+    assert.equal(payload.linesRemoved, 1);
+    assert.match(payload.backupPath, /a\.txt/);
+    assert.deepEqual(payload.files.map((entry) => entry.status), ['changed']);
+  });
+
+  test('a multi-file edit reports each file with the pattern that matched it', async () => {
+    const { payload } = await workspace.call('sed_multifile', { pattern: 's/baz/BAZ/', filePattern: '*.txt' });
+    assert.deepEqual(payload.filesChanged, ['a.txt']);
+    assert.deepEqual(payload.files.map(({ file, status, pattern }) => ({ file, status, pattern })).sort((x, y) => x.file.localeCompare(y.file)), [
+      { file: 'a.txt', status: 'changed', pattern: '*.txt' },
+      { file: 'b.txt', status: 'unchanged', pattern: '*.txt' }
+    ]);
+  });
+
+  test('a search reports line, column and text of each match', async () => {
+    const { payload } = await workspace.call('search_in_file', { file: 'a.txt', pattern: 'BAZ' });
+    assert.deepEqual(payload.matches, [{ line: 2, column: 1, text: 'BAZ' }]);
+  });
+
+  test('a dry run includes the diff', async () => {
+    const { payload } = await workspace.call('line_edit', { file: 'b.txt', lineNumber: 1, action: 'delete', dryRun: true });
+    assert.equal(payload.dryRun, true);
+    assert.match(payload.diff, /^-foo$/m);
+    assert.equal(payload.linesRemoved, 1);
+  });
+});
@@ -0,0 +1,81 @@
+// Every path a tool is given must stay inside the workspace root and pass the allow/deny policy
+
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { mkdir, readFile, symlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('paths outside the workspace root', () => {
+  let workspace;
+  before(async () => {
+    workspace = await startWorkspace({ 'inside.txt': 'inside\n', 'sub/file.txt': 'sub\n' });
+    const { base, root } = workspace;
+    await writeFile(join(base, 'secret.txt'), 'secret\n');
+    await mkdir(join(base, 'private'));
+    await writeFile(join(base, 'private', 'key.txt'), 'key\n');
+    await symlink(join(base, 'secret.txt'), join(root, 'link.txt'));
+    await symlink(join(base, 'private'), join(root, 'linked-dir'));
+  });
+  after(() => workspace.close());
+
+  const escapes = ['../secret.txt', 'sub/../../secret.txt', 'link.txt', 'linked-dir/key.txt'];
+
+  for (const file of escapes) {
+    test(`${file} is refused by reading and editing tools`, async () => {
+      const { call, base } = workspace;
+      for (const [tool, args] of [
+        ['read_file', { file }],
+        ['sed_edit', { file, pattern: 's/.*/gone/' }],
+        ['quick_replace', { file, find: 'e', replace: 'E' }],
+        ['line_edit', { file, lineNumber: 1, action: 'delete' }],
+        ['perl_edit', { file, script: 's/.*/gone/' }],
+        ['awk_process', { file: 'inside.txt', script: '{ print }', outputFile: file }],
+        ['diff_preview', { file, command: 's/.*/gone/' }],
+        ['apply_edits', { edits: [{ file, type: 'replace_text', find: 'e', replace: 'E' }] }]
+      ]) {
+        await assert.rejects(call(tool, args), /outside the workspace root/, `${tool} ${file}`);
+      }
+      assert.equal(await readFile(join(base, 'secret.txt'), 'utf8'), 'secret\n');
+      assert.equal(await readFile(join(base, 'private', 'key.txt'), 'utf8'), 'key\n');
+    });
+  }
+
+  test('apply_patch refuses to patch or create files outside the root', async () => {
+    const { call, base } = workspace;
+    await assert.rejects(call('apply_patch', { patch: '--- ../secret.txt\n+++ ../secret.txt\n@@ -1 +1 @@\n-secret\n+gone\n' }), /outside the workspace root/);
+    await assert.rejects(call('apply_patch', { patch: '--- /dev/null\n+++ ../new.txt\n@@ -0,0 +1 @@\n+new\n' }), /outside the workspace root/);
+    assert.equal(existsSync(join(base, 'new.txt')), false);
+  });
+
+  test('multi-file tools skip symlinks that leave the root', async () => {
+    const { call, base } = workspace;
+    const { payload } = await call('sed_multifile', { pattern: 's/^/# /', filePattern: '**/*.txt' });
+    assert.deepEqual(payload.filesChanged.sort(), ['inside.txt', 'sub/file.txt']);
+    assert.equal(await readFile(join(base, 'secret.txt'), 'utf8'), 'secret\n');
+    assert.equal(await readFile(join(base, 'private', 'key.txt'), 'utf8'), 'key\n');
+  });
+});
+
+describe('allow and deny rules', () => {
+  let workspace;
+  before(async () => {
+    workspace = await startWorkspace({ 'src/app.ts': 'app\n', 'src/key.pem': 'key\n', 'docs/guide.md': 'guide\n' },
+      ['--allow', 'src/**', '--deny', '*.pem']);
+  });
+  after(() => workspace.close());
+
+  test('denied and unlisted paths are refused with the rule that blocks them', async () => {
+    await assert.rejects(workspace.call('read_file', { file: 'src/key.pem' }), /blocked by deny rule "\*\.pem"/);
+    await assert.rejects(workspace.call('sed_edit', { file: 'docs/guide.md', pattern: 's/g/G/' }), /does not match any allow rule/);
+    assert.equal(await readFile(join(workspace.root, 'docs/guide.md'), 'utf8'), 'guide\n');
+    assert.match((await workspace.call('read_file', { file: 'src/app.ts' })).text, /app/);
+  });
+
+  test('multi-file tools skip blocked files', async () => {
+    const { payload } = await workspace.call('sed_multifile', { pattern: 's/^/x/', filePattern: '**/*' });
+    assert.deepEqual(payload.filesChanged, ['src/app.ts']);
+    assert.equal(await readFile(join(workspace.root, 'src/key.pem'), 'utf8'), 'key\n');
+  });
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('search_files', () => {
+  let workspace;
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'src/a.ts': 'import x\nconst getUser = 1;\nfoo\nbaz\nbar\ngetUser();\n',
+      'src/b.ts': 'getuser\n',
+      'src/c.js': 'getUser\n',
+      'node_modules/lib/index.ts': 'getUser\n',
+      'image.bin': Buffer.from([0, 1, 2, 0x67, 0x65, 0x74])
+    });
+  });
+  after(() => workspace.close());
+
+  test('groups matches by file with line, column, context and counts', async () => {
+    const { text, payload } = await workspace.call('search_files', { pattern: 'getUser', include: '**/*.ts', context: 1 });
+    assert.match(text, /^Found 2 matches in 1 files \(searched 2\) for "getUser":/);
+    assert.match(text, /src\/a\.ts \(2 matches\)\n1-import x\n2:7:const getUser = 1;\n3-foo\n--\n5-bar\n6:1:getUser\(\);/);
+    assert.deepEqual(payload.files.map((entry) => [entry.file, entry.matchCount]), [['src/a.ts', 2]]);
+    assert.deepEqual(payload.files[0].matches.map(({ line, column }) => [line, column]), [[2, 7], [6, 1]]);
+  });
+
+  test('searches case-insensitively across every file type and skips binary files and node_modules', async () => {
+    const { text, payload } = await workspace.call('search_files', { pattern: 'GETUSER', caseInsensitive: true });
+    assert.deepEqual(payload.files.map((entry) => entry.file).sort(), ['src/a.ts', 'src/b.ts', 'src/c.js']);
+    assert.match(text, /1 file: binary file/);
+    assert.match(text, /1 directory: node_modules \(default exclude\)/);
+  });
+
+  test('stops at maxResults and shows at most maxPerFile matches per file', async () => {
+    const perFile = await workspace.call('search_files', { pattern: 'getUser', include: 'src/a.ts', maxPerFile: 1 });
+    assert.match(perFile.text, /src\/a\.ts \(2 matches, showing 1\)/);
+
+    const limited = await workspace.call('search_files', { pattern: 'get', caseInsensitive: true, include: 'src/**', maxResults: 1 });
+    assert.equal(limited.payload.limitReached, true);
+    assert.match(limited.text, /Stopped after 1 matching lines \(maxResults\)/);
+  });
+
+  test('rejects an invalid regex as invalid params', async () => {
+    await assert.rejects(workspace.call('search_files', { pattern: '(' }), /Invalid pattern/);
+  });
+});
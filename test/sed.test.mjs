@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { applySed, parseSedScript, translateBre } from '../dist/sed.js';
+import { startWorkspace } from './helpers.mjs';
+
+const TEXT = 'alpha\nbeta\ngamma\ndelta\n';
+
+describe('applySed', () => {
+  const cases = [
+    ['first match per line', 's/a/A/', 'Alpha\nbetA\ngAmma\ndeltA\n'],
+    ['every match with g', 's/a/A/g', 'AlphA\nbetA\ngAmmA\ndeltA\n'],
+    ['the Nth match', 's/a/A/2', 'alphA\nbeta\ngammA\ndelta\n'],
+    ['case-insensitive matching', 's/ALPHA/x/I', 'x\nbeta\ngamma\ndelta\n'],
+    ['groups and back-references', 's/\\(.\\)\\(.\\)/\\2\\1/', 'lapha\nebta\nagmma\nedlta\n'],
+    ['& for the whole match', 's/beta/<&>/', 'alpha\n<beta>\ngamma\ndelta\n'],
+    ['GNU \\+ and \\|', 's/m\\+\\|ph/_/g', 'al_a\nbeta\nga_a\ndelta\n'],
+    ['POSIX character classes', 's/[[:alpha:]]*t[[:alpha:]]*/word/', 'alpha\nword\ngamma\nword\n'],
+    ['a line address', '2d', 'alpha\ngamma\ndelta\n'],
+    ['the last line', '$s/$/!/', 'alpha\nbeta\ngamma\ndelta!\n'],
+    ['a regex range', '/beta/,/gamma/d', 'alpha\ndelta\n'],
+    ['a line range ending before it starts', '3,1s/^/>/', 'alpha\nbeta\n>gamma\ndelta\n'],
+    ['0,/regex/ closing on the first line', '0,/a/s/a/A/', 'Alpha\nbeta\ngamma\ndelta\n'],
+    ['1,/regex/ looking from line 2', '1,/a/d', 'gamma\ndelta\n'],
+    ['append, insert and change', '1a\\\nafter\n2i\\\nbefore\n4c\\\nchanged', 'alpha\nafter\nbefore\nbeta\ngamma\nchanged\n'],
+    ['c over a range printed once', '2,3c\\\nmiddle', 'alpha\nmiddle\ndelta\n'],
+    ['several commands separated by ;', 's/alpha/A/;s/delta/D/;/beta/d', 'A\ngamma\nD\n'],
+    ['the p flag', '1s/alpha/x/p', 'x\nx\nbeta\ngamma\ndelta\n']
+  ];
+
+  for (const [description, script, expected] of cases) {
+    test(description, () => {
+      assert.equal(applySed(script, TEXT), expected);
+    });
+  }
+
+  test('keeps a missing final newline missing', () => {
+    assert.equal(applySed('s/b/B/', 'a\nb'), 'a\nB');
+  });
+
+  test('counts substitutions', () => {
+    const stats = { substitutions: 0 };
+    applySed('s/a/A/g', TEXT, stats);
+    assert.equal(stats.substitutions, 6);
+  });
+
+  test('reuses the previous regex for an empty one', () => {
+    assert.equal(applySed('/gamma/s//G/', TEXT), 'alpha\nbeta\nG\ndelta\n');
+  });
+});
+
+describe('parseSedScript', () => {
+  const rejected = [
+    ['y/abc/xyz/', /unsupported command "y"/],
+    ['q', /unsupported command "q"/],
+    ['2!d', /unsupported command "!"/],
+    ['0,5d', /line 0 is only valid as the start of a 0,\/regex\/ range/],
+    ['0d', /line 0 is only valid/],
+    ['s/a/b', /unterminated/],
+    ['s/a/\\U&/', /case conversion/],
+    ['s/[[:nope:]]/x/', /invalid character class/],
+    ['1,', /missing end of address range/],
+    ['s//x/', /no previous regular expression/]
+  ];
+
+  for (const [script, message] of rejected) {
+    test(`rejects ${JSON.stringify(script)}`, () => {
+      assert.throws(() => parseSedScript(script), message);
+    });
+  }
+
+  test('reads alternate delimiters and escaped ones', () => {
+    const [command] = parseSedScript('s|a/b\\|c|d|g');
+    assert.equal(command.name, 's');
+    assert.equal(command.global, true);
+    assert.ok(command.regex.test('a/b|c'));
+  });
+});
+
+describe('translateBre', () => {
+  test('swaps escaped and literal grouping characters', () => {
+    assert.equal(translateBre('\\(a\\)(b)'), '(a)\\(b\\)');
+    assert.equal(translateBre('a\\{2,3\\}{x}'), 'a{2,3}\\{x\\}');
+  });
+
+  test('translates word boundaries', () => {
+    assert.ok(new RegExp(translateBre('\\<foo\\>')).test('a foo b'));
+    assert.ok(!new RegExp(translateBre('\\<foo\\>')).test('afoob'));
+  });
+});
+
+describe('sed_edit', () => {
+  let workspace;
+  const read = () => readFile(join(workspace.root, 'file.txt'), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'file.txt': TEXT });
+  });
+  after(() => workspace.close());
+
+  test('runs a script with several commands through the built-in engine', async () => {
+    const { payload } = await workspace.call('sed_edit', { file: 'file.txt', pattern: '/beta/i\\\nnew\ns/a$/A/' });
+    assert.equal(payload.replacements, 4);
+    assert.equal(await read(), 'alphA\nnew\nbetA\ngammA\ndeltA\n');
+  });
+
+  test('rejects an unsupported command as invalid params and writes nothing', async () => {
+    const before = await read();
+    await assert.rejects(workspace.call('sed_edit', { file: 'file.txt', pattern: 'y/a/b/' }), (error) =>
+      error.code === -32602 && /unsupported command "y" \(supported: s, d, a, i, c\)/.test(error.message));
+    assert.equal(await read(), before);
+  });
+});
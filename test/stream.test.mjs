@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { createWriteStream } from 'fs';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { looksBinary } from '../dist/encoding.js';
+import { collectLines, STREAM_THRESHOLD, streamLines } from '../dist/stream.js';
+import { startWorkspace } from './helpers.mjs';
+
+// Lines of 16 bytes, "line 0000000001\n" and so on
+const line = (number) => `line ${String(number).padStart(10, '0')}`;
+const LINE_COUNT = Math.ceil(STREAM_THRESHOLD / 16) + 1000;
+
+async function writeLargeFile(path) {
+  const out = createWriteStream(path);
+  for (let number = 1; number <= LINE_COUNT; number++) {
+    if (!out.write(`${line(number)}\n`)) {
+      await new Promise((resolve) => out.once('drain', resolve));
+    }
+  }
+  await new Promise((resolve, reject) => out.end((error) => error ? reject(error) : resolve()));
+}
+
+describe('binary detection', () => {
+  test('tells binary data from text', () => {
+    assert.equal(looksBinary(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d])), true);
+    assert.equal(looksBinary(Buffer.from([0xc3, 0x28, 0xa0, 0xa1, 0xe2, 0x28, 0xa1, 0xf0, 0x28, 0x8c, 0xbc])), true);
+    assert.equal(looksBinary(Buffer.from('plain text with ümlauts\n')), false);
+    assert.equal(looksBinary(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('utf-16 text', 'utf16le')])), false);
+  });
+});
+
+describe('streamLines', () => {
+  let workspace;
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'crlf.txt': '\ufeffone\r\ntwo\r\nthree',
+      'many.txt': Array.from({ length: 25000 }, (_, index) => line(index + 1)).join('\n') + '\n'
+    });
+  });
+  after(() => workspace.close());
+
+  test('drops CRLF endings and a BOM and keeps a last line without a newline', async () => {
+    const { lines, totalLines } = await collectLines(streamLines(join(workspace.root, 'crlf.txt')), Infinity);
+    assert.deepEqual(lines.map((entry) => entry.text), ['one', 'two', 'three']);
+    assert.equal(totalLines, 3);
+  });
+
+  test('starts at the requested line, before and after the line index exists', async () => {
+    const file = join(workspace.root, 'many.txt');
+    for (let round = 0; round < 2; round++) {
+      const { lines } = await collectLines(streamLines(file, 24999), Infinity);
+      assert.deepEqual(lines, [{ line: 24999, text: line(24999) }, { line: 25000, text: line(25000) }]);
+    }
+  });
+});
+
+describe('read tools on binary and large files', () => {
+  let workspace;
+
+  before(async () => {
+    workspace = await startWorkspace({ 'image.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0x0d]) });
+    await writeLargeFile(join(workspace.root, 'huge.log'));
+  });
+  after(() => workspace.close());
+
+  test('shows a hex summary of a binary file and refuses to search it', async () => {
+    const { text, payload } = await workspace.call('read_file', { file: 'image.png' });
+    assert.match(text, /image\.png looks like a binary file \(8 bytes\)/);
+    assert.match(text, /00000000 {2}89 50 4e 47 00 00 00 0d {26}\.PNG\.{4}$/m);
+    assert.equal(payload.binary, true);
+    await assert.rejects(workspace.call('search_in_file', { file: 'image.png', pattern: 'PNG' }), /looks like a binary file/);
+  });
+
+  test('serves a line range deep in a large file without hashing it', async () => {
+    const { text, payload } = await workspace.call('read_file', { file: 'huge.log', lines: '1000000-1000002' });
+    assert.deepEqual(payload.lines.map((entry) => entry.text), [line(1000000), line(1000001), line(1000002)]);
+    assert.equal(payload.hash, undefined);
+    assert.match(text, /large files are not hashed/);
+  });
+
+  test('searches and shows lines around a match by streaming', async () => {
+    const found = await workspace.call('search_in_file', { file: 'huge.log', pattern: `${line(LINE_COUNT - 1)}$` });
+    assert.deepEqual(found.payload.matches.map((entry) => entry.line), [LINE_COUNT - 1]);
+
+    const around = await workspace.call('show_around_line', { file: 'huge.log', lineNumber: LINE_COUNT, context: 1 });
+    assert.deepEqual(around.payload.lines.map((entry) => entry.text), [line(LINE_COUNT - 1), line(LINE_COUNT)]);
+  });
+});
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { jsonEditor } from '../dist/jsonc.js';
+import { tomlEditor } from '../dist/toml.js';
+import { yamlEditor } from '../dist/yaml.js';
+import { startWorkspace } from './helpers.mjs';
+
+describe('yaml', () => {
+  const text = '# top\nname: app # keep\ndeps:\n  - a\n  - b\nnested:\n  key: "quoted: value"\n  flow: {x: 1, y: [2, 3]}\nblock: |\n  line one\n  line two\n';
+
+  test('reads block, flow and literal values', () => {
+    assert.deepEqual(yamlEditor.get(text, []), {
+      name: 'app',
+      deps: ['a', 'b'],
+      nested: { key: 'quoted: value', flow: { x: 1, y: [2, 3] } },
+      block: 'line one\nline two\n'
+    });
+    assert.equal(yamlEditor.get(text, ['nested', 'flow', 'y', '1']), 3);
+  });
+
+  test('edits one value and leaves comments and other lines alone', () => {
+    assert.equal(yamlEditor.set(text, ['name'], 'other'), text.replace('name: app', 'name: other'));
+    assert.equal(yamlEditor.set(text, ['nested', 'key'], 'new'), text.replace('"quoted: value"', '"new"'));
+  });
+
+  test('creates missing parents, appends and removes', () => {
+    assert.equal(yamlEditor.set(text, ['added', 'deep'], 5), `${text}added:\n  deep: 5\n`);
+    assert.equal(yamlEditor.append(text, ['deps'], 'c'), text.replace('  - b\n', '  - b\n  - c\n'));
+    assert.equal(yamlEditor.remove(text, ['deps']), text.replace('deps:\n  - a\n  - b\n', ''));
+  });
+
+  test('lists top-level keys with their lines', () => {
+    assert.deepEqual(yamlEditor.keys(text).map(({ key, line, endLine }) => [key, line, endLine]),
+      [['name', 2, 2], ['deps', 3, 5], ['nested', 6, 8], ['block', 9, 11]]);
+  });
+
+  test('reports syntax errors and missing keys', () => {
+    assert.throws(() => yamlEditor.get('a: [1, 2\nb: 3\n', []), /Cannot parse YAML: unclosed flow collection at line 1/);
+    assert.throws(() => yamlEditor.get(text, ['nested', 'missing']), /Key path not found/);
+  });
+});
+
+describe('toml', () => {
+  const text = '# c\ntitle = "x" # keep\n[server]\nport = 8080\nhosts = ["a", "b"]\n[[items]]\nname = "one"\n[[items]]\nname = "two"\n[a.b]\nd = { e = 1 }\n';
+
+  test('reads tables, arrays of tables, dotted tables and inline tables', () => {
+    assert.deepEqual(tomlEditor.get(text, []), {
+      title: 'x',
+      server: { port: 8080, hosts: ['a', 'b'] },
+      items: [{ name: 'one' }, { name: 'two' }],
+      a: { b: { d: { e: 1 } } }
+    });
+    assert.equal(tomlEditor.get(text, ['items', '1', 'name']), 'two');
+  });
+
+  test('edits values in place', () => {
+    assert.equal(tomlEditor.set(text, ['server', 'port'], 9090), text.replace('8080', '9090'));
+    assert.equal(tomlEditor.append(text, ['server', 'hosts'], 'c'), text.replace('["a", "b"]', '["a", "b", "c"]'));
+    assert.equal(tomlEditor.remove(text, ['title']), text.replace('title = "x" # keep\n', ''));
+  });
+
+  test('adds a table for a new key path', () => {
+    assert.equal(tomlEditor.set(text, ['new', 'k'], 'v'), `${text}\n[new]\nk = "v"\n`);
+  });
+
+  test('lists keys and tables with their lines', () => {
+    assert.deepEqual(tomlEditor.keys(text).map(({ key, line, endLine }) => [key, line, endLine]),
+      [['title', 2, 2], ['[server]', 3, 5], ['[[items]]', 6, 7], ['[[items]]', 8, 9], ['[a.b]', 10, 11]]);
+  });
+
+  test('reports syntax errors with line and column', () => {
+    assert.throws(() => tomlEditor.get('a = \n', []), /Cannot parse TOML at line 1, column 5: expected a value/);
+  });
+});
+
+describe('jsonc', () => {
+  const text = '{\n  // comment\n  "a": 1,\n  "b": [1, 2,],\n  /* block */ "c": {"d": "e"},\n}\n';
+
+  test('reads JSON with comments and trailing commas', () => {
+    assert.deepEqual(jsonEditor.get(text, []), { a: 1, b: [1, 2], c: { d: 'e' } });
+  });
+
+  test('edits values and keeps comments and trailing commas', () => {
+    assert.equal(jsonEditor.set(text, ['c', 'd'], 'f'), text.replace('"e"', '"f"'));
+    assert.equal(jsonEditor.append(text, ['b'], 3), text.replace('[1, 2,]', '[1, 2, 3,]'));
+    assert.equal(jsonEditor.remove(text, ['a']), text.replace('  "a": 1,\n', ''));
+  });
+
+  test('adds new keys in the indentation of the document', () => {
+    assert.equal(jsonEditor.set(text, ['x', 'y'], true), text.replace('},\n}', '},\n  "x": {\n    "y": true\n  },\n}'));
+  });
+
+  test('lists top-level keys with their lines', () => {
+    assert.deepEqual(jsonEditor.keys(text).map(({ key, line }) => [key, line]), [['a', 3], ['b', 4], ['c', 5]]);
+  });
+
+  test('reports syntax errors and missing keys', () => {
+    assert.throws(() => jsonEditor.get('{\n  "a": 1\n  "b": 2\n}', []), /Cannot parse JSON at line 3, column 3: expected "," or "}"/);
+    assert.throws(() => jsonEditor.get(text, ['zz']), /Key path not found: zz/);
+  });
+});
+
+describe('set_value', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'package.json': '{\n  // scripts\n  "scripts": { "build": "tsc" },\n  "dependencies": {}\n}\n',
+      'config.yml': 'jobs:\n  build: # main job\n    steps:\n      - run: make\n',
+      'Cargo.toml': '[package]\nname = "app" # crate\n',
+      'settings': 'a: 1\n'
+    });
+  });
+  after(() => workspace.close());
+
+  test('sets, appends and deletes values in each format and keeps comments', async () => {
+    await workspace.call('set_value', { file: 'package.json', path: 'scripts["build:prod"]', action: 'set', value: 'tsc -p prod' });
+    await workspace.call('set_value', { file: 'package.json', path: 'dependencies.lodash', action: 'set', value: '^4.17.21' });
+    assert.equal(await read('package.json'), '{\n  // scripts\n  "scripts": { "build": "tsc", "build:prod": "tsc -p prod" },\n  "dependencies": {\n    "lodash": "^4.17.21"\n  }\n}\n');
+
+    await workspace.call('set_value', { file: 'config.yml', path: 'jobs.build.steps', action: 'append', value: { run: 'make test' } });
+    assert.equal(await read('config.yml'), 'jobs:\n  build: # main job\n    steps:\n      - run: make\n      - run: make test\n');
+
+    await workspace.call('set_value', { file: 'Cargo.toml', path: 'package.name', action: 'set', value: 'tool' });
+    assert.equal(await read('Cargo.toml'), '[package]\nname = "tool" # crate\n');
+    await workspace.call('set_value', { file: 'Cargo.toml', path: 'package.name', action: 'delete' });
+    assert.equal(await read('Cargo.toml'), '[package]\n');
+  });
+
+  test('gets a value without writing', async () => {
+    const { payload } = await workspace.call('set_value', { file: 'config.yml', path: 'jobs.build.steps[0].run', action: 'get' });
+    assert.equal(payload.value, 'make');
+    assert.deepEqual(payload.filesChanged, []);
+  });
+
+  test('needs a value for set, and a format for an unknown extension', async () => {
+    await assert.rejects(workspace.call('set_value', { file: 'package.json', path: 'x', action: 'set' }), /value is required for action "set"/);
+    await assert.rejects(workspace.call('set_value', { file: 'settings', path: 'a', action: 'get' }), /Cannot tell the format of settings/);
+    assert.equal((await workspace.call('set_value', { file: 'settings', path: 'a', action: 'get', format: 'yaml' })).payload.value, 1);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('undo and redo', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({ 'a.txt': 'one\n', 'b.txt': 'one\n' });
+  });
+  after(() => workspace.close());
+
+  test('undoes a multi-file operation and the edit before it', async () => {
+    await workspace.call('sed_edit', { file: 'a.txt', pattern: 's/one/two/' });
+    await workspace.call('sed_multifile', { pattern: 's/o/0/', filePattern: '*.txt' });
+    assert.equal(await read('a.txt'), 'tw0\n');
+
+    const { payload } = await workspace.call('undo', { count: 2 });
+    assert.deepEqual(payload.operations.map((entry) => entry.tool), ['sed_multifile', 'sed_edit']);
+    assert.equal(await read('a.txt'), 'one\n');
+    assert.equal(await read('b.txt'), 'one\n');
+  });
+
+  test('redoes undone operations in order', async () => {
+    await workspace.call('redo', {});
+    assert.equal(await read('a.txt'), 'two\n');
+    await workspace.call('redo', {});
+    assert.equal(await read('a.txt'), 'tw0\n');
+    assert.equal(await read('b.txt'), '0ne\n');
+    await assert.rejects(workspace.call('redo', {}), /Nothing to redo/);
+  });
+
+  test('refuses to undo more operations than recorded', async () => {
+    await assert.rejects(workspace.call('undo', { count: 5 }), /Cannot undo 5 operations: only 2 available/);
+    await assert.rejects(workspace.call('undo', { count: 0 }));
+  });
+
+  test('changes nothing when a file changed outside smalledit', async () => {
+    await writeFile(join(workspace.root, 'b.txt'), 'by hand\n');
+    await assert.rejects(workspace.call('undo', {}), /1 file\(s\) changed outside smalledit.*\n {2}b\.txt: expected/);
+    assert.equal(await read('a.txt'), 'tw0\n');
+    assert.equal(await read('b.txt'), 'by hand\n');
+  });
+
+  test('a new edit clears the redo list', async () => {
+    await writeFile(join(workspace.root, 'b.txt'), '0ne\n');
+    await workspace.call('undo', {});
+    await workspace.call('quick_replace', { file: 'a.txt', find: 'two', replace: 'three' });
+    await assert.rejects(workspace.call('redo', {}), /Nothing to redo/);
+  });
+});
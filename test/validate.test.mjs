@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startWorkspace } from './helpers.mjs';
+
+describe('validation after writing', () => {
+  let workspace;
+  const read = (file) => readFile(join(workspace.root, file), 'utf8');
+
+  before(async () => {
+    workspace = await startWorkspace({
+      'data.json': '{ "a": 1 }\n',
+      'app.ts': 'const a = 1;\n',
+      'broken.ts': 'const = ;\n',
+      'notes.cfg': 'ok\n'
+    }, ['--validate', '*.cfg=grep -q ^ok {file}']);
+  });
+  after(() => workspace.close());
+
+  test('restores a file the edit breaks and names the problem', async () => {
+    await assert.rejects(
+      workspace.call('quick_replace', { file: 'data.json', find: '1 }', replace: '1, }' }),
+      /Edit rolled back because it breaks data\.json: .*Pass validate: false to write it anyway/
+    );
+    assert.equal(await read('data.json'), '{ "a": 1 }\n');
+    await assert.rejects(
+      workspace.call('line_edit', { file: 'app.ts', lineNumber: 1, action: 'replace', content: 'const a = ;' }),
+      /breaks app\.ts: Syntax error at line 1, column 11/
+    );
+    assert.equal(await read('app.ts'), 'const a = 1;\n');
+  });
+
+  test('writes nothing in a multi-file edit when one file breaks', async () => {
+    await assert.rejects(workspace.call('apply_edits', {
+      edits: [
+        { file: 'app.ts', type: 'replace_text', find: '1', replace: '2' },
+        { file: 'data.json', type: 'replace_text', find: '"a"', replace: 'a' }
+      ]
+    }), /breaks data\.json/);
+    assert.equal(await read('app.ts'), 'const a = 1;\n');
+  });
+
+  test('runs configured commands', async () => {
+    await assert.rejects(workspace.call('sed_edit', { file: 'notes.cfg', pattern: 's/ok/no/' }), /breaks notes\.cfg/);
+    assert.equal(await read('notes.cfg'), 'ok\n');
+    await workspace.call('sed_edit', { file: 'notes.cfg', pattern: 's/$/ fine/' });
+    assert.equal(await read('notes.cfg'), 'ok fine\n');
+  });
+
+  test('leaves files that were invalid before, and validate: false, alone', async () => {
+    await workspace.call('quick_replace', { file: 'broken.ts', find: '= ;', replace: '= ;;' });
+    assert.equal(await read('broken.ts'), 'const = ;;\n');
+    await workspace.call('quick_replace', { file: 'data.json', find: '1 }', replace: '1, }', validate: false });
+    assert.equal(await read('data.json'), '{ "a": 1, }\n');
+  });
+});